@@ -1,6 +1,11 @@
-import { loadConfigFile } from '../config';
+import { getProxyBackends, loadConfigFile } from '../config';
+import { getErrorMessage } from './traefik/helpers';
 import { MagicProxyConfigFile } from '../types/config';
 import { HostEntry } from '../types/host';
+import { resolveRoutes } from '../types/xmagic';
+import { zone } from '../logging/zone';
+
+const log = zone('backends.plugin');
 
 /** Status returned by backend getStatus() */
 export interface BackendStatus {
@@ -9,6 +14,14 @@ export interface BackendStatus {
     [key: string]: unknown;
 }
 
+/** Combined status of all active backends */
+export interface CombinedBackendStatus extends BackendStatus {
+    /** App names registered with at least one backend */
+    registered: string[];
+    /** Status of each active backend, keyed by backend name */
+    backends: Record<string, BackendStatus>;
+}
+
 /** Interface that all backend modules must implement */
 export interface BackendModule {
     initialize: (config?: MagicProxyConfigFile) => Promise<void>;
@@ -17,8 +30,13 @@ export interface BackendModule {
     getStatus: () => Promise<BackendStatus>;
 }
 
-let activeBackend: BackendModule | null = null;
-let activeName: string | null = null;
+// Active backends keyed by name, in configured order
+const activeBackends = new Map<string, BackendModule>();
+
+// App names registered for each container: the container itself plus one
+// `<container>/<route>` name per additional route. Container names cannot
+// contain a slash, so route names never collide with other containers.
+const registeredApps = new Map<string, string[]>();
 
 /**
  * Load a backend module by name.
@@ -34,63 +52,195 @@ async function loadBackend(name: string): Promise<BackendModule> {
                 getStatus: mod.getStatus,
             };
         }
+        case 'nginx': {
+            const mod = await import('./nginx/nginx');
+            return {
+                initialize: mod.initialize,
+                addProxiedApp: mod.addProxiedApp,
+                removeProxiedApp: mod.removeProxiedApp,
+                getStatus: mod.getStatus,
+            };
+        }
+        case 'caddy': {
+            const mod = await import('./caddy/caddy');
+            return {
+                initialize: mod.initialize,
+                addProxiedApp: mod.addProxiedApp,
+                removeProxiedApp: mod.removeProxiedApp,
+                getStatus: mod.getStatus,
+            };
+        }
+        case 'haproxy': {
+            const mod = await import('./haproxy/haproxy');
+            return {
+                initialize: mod.initialize,
+                addProxiedApp: mod.addProxiedApp,
+                removeProxiedApp: mod.removeProxiedApp,
+                getStatus: mod.getStatus,
+            };
+        }
         default:
             throw new Error(`Unknown backend '${name}'`);
     }
 }
 
 /**
- * Initialize the backend from configuration.
+ * Expand a host entry into one entry per route: the service's primary route
+ * under the container name, and each additional route under `<container>/<route>`.
+ * Replicas only apply to the primary route; other routes use their own target.
+ * The `<container>/<route>` name is only a registration key: templates see
+ * it as `app_name` `<container>-<route>`, with the route name as `route`.
+ */
+function expandRoutes(entry: HostEntry): HostEntry[] {
+    return [
+        entry,
+        ...resolveRoutes(entry.xMagicProxy).map(([route, xMagicProxy]) => ({
+            ...entry,
+            containerName: `${entry.containerName}/${route}`,
+            xMagicProxy,
+            replicas: undefined,
+            route,
+        })),
+    ];
+}
+
+/**
+ * Run an operation against every active backend.
+ * A failing backend does not stop the others; each failure is logged and
+ * reported together in a single error once all backends have settled.
+ */
+async function fanOut(action: string, op: (backend: BackendModule) => Promise<void>): Promise<void> {
+    const backends = Array.from(activeBackends.entries());
+    const results = await Promise.allSettled(backends.map(([, backend]) => op(backend)));
+
+    const failed: string[] = [];
+    results.forEach((result, i) => {
+        if (result.status === 'rejected') {
+            const name = backends[i][0];
+            failed.push(`${name}: ${getErrorMessage(result.reason)}`);
+            log.error({ message: `Backend failed to ${action}`, data: { backend: name, error: getErrorMessage(result.reason) } });
+        }
+    });
+
+    if (failed.length > 0) {
+        throw new Error(`Failed to ${action} in ${failed.length} of ${backends.length} backend(s): ${failed.join('; ')}`);
+    }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test utilities
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function _resetForTesting(): void {
+    activeBackends.clear();
+    registeredApps.clear();
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Initialize the configured backends.
+ * `proxyBackend` may name a single backend or a list of backends; each one is
+ * initialized with the full config and reads its own config section.
  */
 export async function initialize(config?: MagicProxyConfigFile): Promise<void> {
     const cfg = config || await loadConfigFile();
-    const backendName = cfg.proxyBackend;
+    const backendNames = getProxyBackends(cfg);
 
-    if (!backendName) {
+    if (backendNames.length === 0) {
         throw new Error('No proxyBackend configured');
     }
 
-    if (!activeBackend || activeName !== backendName) {
-        activeBackend = await loadBackend(backendName);
-        activeName = backendName;
+    // Drop backends that are no longer configured, keep already-loaded ones
+    const configured = new Set<string>(backendNames);
+    for (const name of Array.from(activeBackends.keys())) {
+        if (!configured.has(name)) {
+            activeBackends.delete(name);
+            log.debug({ message: 'Backend deactivated', data: { backend: name } });
+        }
+    }
+
+    for (const name of backendNames) {
+        const backend = activeBackends.get(name) ?? await loadBackend(name);
+        activeBackends.set(name, backend);
+        await backend.initialize(cfg);
     }
 
-    await activeBackend.initialize(cfg);
+    log.debug({ message: 'Backends initialized', data: { backends: backendNames } });
 }
 
 /**
- * Get the active backend, initializing if needed.
+ * Get the active backends, initializing if needed.
  */
-async function ensureBackend(): Promise<BackendModule> {
-    if (!activeBackend) {
+async function ensureBackends(): Promise<void> {
+    if (activeBackends.size === 0) {
         await initialize();
     }
-    if (!activeBackend) {
+    if (activeBackends.size === 0) {
         throw new Error('Backend initialization failed - no active backend');
     }
-    return activeBackend;
 }
 
 /**
- * Add or update a proxied application.
+ * Add or update a proxied application in every active backend.
+ * Each of the service's routes is registered separately; routes that were
+ * removed from the service since the last update are unregistered.
  */
 export async function addProxiedApp(entry: HostEntry): Promise<void> {
-    const backend = await ensureBackend();
-    return backend.addProxiedApp(entry);
+    await ensureBackends();
+
+    const entries = expandRoutes(entry);
+    const appNames = entries.map(e => e.containerName);
+    const stale = (registeredApps.get(entry.containerName) ?? []).filter(name => !appNames.includes(name));
+    registeredApps.set(entry.containerName, appNames);
+
+    return fanOut('add proxied app', async backend => {
+        for (const name of stale) {
+            await backend.removeProxiedApp(name);
+        }
+        for (const routeEntry of entries) {
+            await backend.addProxiedApp(routeEntry);
+        }
+    });
 }
 
 /**
- * Remove a proxied application.
+ * Remove a proxied application, including all of its routes, from every active backend.
  */
 export async function removeProxiedApp(appName: string): Promise<void> {
-    const backend = await ensureBackend();
-    return backend.removeProxiedApp(appName);
+    await ensureBackends();
+
+    const appNames = registeredApps.get(appName) ?? [appName];
+    registeredApps.delete(appName);
+
+    return fanOut('remove proxied app', async backend => {
+        for (const name of appNames) {
+            await backend.removeProxiedApp(name);
+        }
+    });
 }
 
 /**
- * Get the current backend status.
+ * Get the status of every active backend.
+ * `registered` is the union of apps registered with any backend.
  */
-export async function getStatus(): Promise<BackendStatus> {
-    const backend = await ensureBackend();
-    return backend.getStatus();
+export async function getStatus(): Promise<CombinedBackendStatus> {
+    await ensureBackends();
+
+    const backends: Record<string, BackendStatus> = {};
+    const registered = new Set<string>();
+
+    for (const [name, backend] of activeBackends) {
+        try {
+            const status = await backend.getStatus();
+            backends[name] = status;
+            status.registered?.forEach(app => registered.add(app));
+        } catch (err) {
+            backends[name] = { error: getErrorMessage(err) };
+        }
+    }
+
+    return { registered: Array.from(registered), backends };
 }
@@ -0,0 +1,135 @@
+import { validateSite } from './validators';
+import * as manager from './caddyManager';
+import { resolveOutputPath } from '../outputWriter';
+import { getUpstreams } from '../upstreams';
+import { CaddySite } from './types/caddy';
+import { MagicProxyConfigFile } from '../../types/config';
+import { getHostnames } from '../../types/xmagic';
+import { HostEntry } from '../../types/host';
+import { zone } from '../../logging/zone';
+
+const log = zone('backends.caddy');
+
+/**
+ * Build a Caddy site from a host entry's x-magic-proxy data.
+ * Unlike the template-based backends, Caddy sites are generated directly:
+ * the hostname(s) become the site addresses and the target (or each replica's
+ * target, for scaled services) the reverse_proxy upstreams.
+ */
+function makeSite(entry: HostEntry): CaddySite {
+    const { xMagicProxy } = entry;
+    return {
+        hosts: getHostnames(xMagicProxy),
+        upstreams: getUpstreams(entry),
+    };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test utilities
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function _resetForTesting(): void {
+    manager._resetForTesting();
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Initialize the Caddy backend with the given configuration.
+ */
+export async function initialize(config?: MagicProxyConfigFile): Promise<void> {
+    if (!config) {
+        throw new Error('Caddy backend requires a configuration object');
+    }
+
+    const format = config.caddy?.format ?? 'caddyfile';
+    if (format !== 'caddyfile' && format !== 'json') {
+        throw new Error(`Invalid config.caddy.format '${String(format)}'. Must be one of: caddyfile, json`);
+    }
+
+    log.debug({ message: 'Initializing Caddy backend', data: { format } });
+
+    manager.setFormat(format);
+    manager.setListen(config.caddy?.listen);
+
+    // Configure output file
+    const outputFile = config.caddy?.outputFile;
+    if (outputFile) {
+        const resolved = resolveOutputPath(outputFile);
+        manager.setOutputFile(resolved);
+        log.debug({ message: 'Output file configured', data: { outputFile: resolved } });
+    }
+
+    await manager.flushToDisk();
+}
+
+/**
+ * Add or update a proxied application.
+ * Invalid sites, or sites claiming a hostname already served by another app,
+ * are skipped with an error log and any previous registration is kept.
+ */
+export async function addProxiedApp(entry: HostEntry): Promise<void> {
+    const { containerName, xMagicProxy } = entry;
+    log.info({
+        message: 'Adding proxied app',
+        data: { containerName, hostname: xMagicProxy.hostname, target: xMagicProxy.target }
+    });
+
+    const site = makeSite(entry);
+    const validation = validateSite(site);
+    if (!validation.valid) {
+        log.error({
+            message: 'Skipping host with invalid site definition',
+            data: { containerName, hostname: xMagicProxy.hostname, error: validation.error }
+        });
+        return;
+    }
+
+    const previous = manager.getSite(containerName);
+    manager.register(containerName, site);
+
+    const combined = manager.validate();
+    if (!combined.valid) {
+        if (previous === undefined) {
+            manager.remove(containerName);
+        } else {
+            manager.register(containerName, previous);
+        }
+        log.error({
+            message: 'Skipping host because it conflicts with registered apps',
+            data: { containerName, hostname: xMagicProxy.hostname, error: combined.error }
+        });
+        return;
+    }
+
+    await manager.flushToDisk();
+}
+
+/**
+ * Remove a proxied application.
+ */
+export async function removeProxiedApp(appName: string): Promise<void> {
+    log.info({ message: 'Removing proxied app', data: { appName } });
+    manager.remove(appName);
+    await manager.flushToDisk();
+}
+
+/**
+ * Get the current generated Caddy config (Caddyfile or JSON, per config).
+ */
+export async function getConfig(): Promise<string> {
+    return manager.getConfig();
+}
+
+/**
+ * Get the current backend status.
+ */
+export async function getStatus(): Promise<{ registered: string[]; outputFile: string | null; format: string }> {
+    return {
+        registered: manager.listRegisteredApps(),
+        outputFile: manager.getOutputFile(),
+        format: manager.getFormat(),
+    };
+}
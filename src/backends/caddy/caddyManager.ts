@@ -0,0 +1,195 @@
+import { CaddyJsonConfig, CaddyRoute, CaddySite } from './types/caddy';
+import { validateSites } from './validators';
+import { createOutputFile } from '../outputWriter';
+import { zone } from '../../logging/zone';
+
+const log = zone('backends.caddy.manager');
+
+/** Output formats supported by the Caddy backend */
+export type CaddyOutputFormat = 'caddyfile' | 'json';
+
+/** Name of the HTTP server generated in JSON output */
+const SERVER_NAME = 'magic_proxy';
+
+/** Default listen addresses for JSON output (Caddy enables automatic HTTPS on :443) */
+const DEFAULT_LISTEN = [':443'];
+
+/** Banner written at the top of a generated Caddyfile */
+const HEADER = '# Generated by magic-proxy. Do not edit; changes will be overwritten.\n';
+
+// Registry of sites keyed by app name
+const registry = new Map<string, CaddySite>();
+let format: CaddyOutputFormat = 'caddyfile';
+let listen: string[] = DEFAULT_LISTEN;
+
+// Generated config file, rendered and written by flushToDisk()
+const output = createOutputFile(renderOutput);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Config Building
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Convert an upstream URL into a Caddy dial address (host:port).
+ */
+function toDial(upstream: string): string {
+    const url = new URL(upstream);
+    const port = url.port || (url.protocol === 'https:' ? '443' : '80');
+    return `${url.hostname}:${port}`;
+}
+
+/**
+ * Build a Caddyfile with one site block per registered app.
+ */
+function buildCaddyfile(): string {
+    const sections = Array.from(registry.entries()).map(([appName, site]) => [
+        `# app: ${appName}`,
+        `${site.hosts.join(', ')} {`,
+        `\treverse_proxy ${site.upstreams.join(' ')}`,
+        '}',
+        '',
+    ].join('\n'));
+    return [HEADER, ...sections].join('\n');
+}
+
+/**
+ * Build Caddy's native JSON config with one route per registered app.
+ */
+function buildJsonConfig(): CaddyJsonConfig {
+    const routes: CaddyRoute[] = Array.from(registry.entries()).map(([appName, site]) => {
+        const secure = site.upstreams.some(u => new URL(u).protocol === 'https:');
+        return {
+            '@id': `magic-proxy-${appName}`,
+            match: [{ host: site.hosts }],
+            handle: [{
+                handler: 'reverse_proxy',
+                upstreams: site.upstreams.map(u => ({ dial: toDial(u) })),
+                ...(secure ? { transport: { protocol: 'http', tls: {} } } : {}),
+            }],
+            terminal: true,
+        };
+    });
+
+    return {
+        apps: {
+            http: {
+                servers: {
+                    [SERVER_NAME]: { listen, routes },
+                },
+            },
+        },
+    };
+}
+
+/**
+ * Render the registry in the configured output format.
+ */
+function buildOutput(): string {
+    if (format === 'json') {
+        return JSON.stringify(buildJsonConfig(), null, 2) + '\n';
+    }
+    return buildCaddyfile();
+}
+
+/**
+ * Render the config for writing, validating the sites first.
+ */
+function renderOutput(): string {
+    const validation = validateSites(registry);
+    if (!validation.valid) {
+        log.error({ message: 'Generated config validation failed', data: { error: validation.error } });
+        throw new Error(`Invalid config generated: ${validation.error}`);
+    }
+
+    return buildOutput();
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function setOutputFile(file: string | null): void {
+    output.setPath(file);
+}
+
+export function getOutputFile(): string | null {
+    return output.getPath();
+}
+
+export function setFormat(value: CaddyOutputFormat): void {
+    format = value;
+}
+
+export function getFormat(): CaddyOutputFormat {
+    return format;
+}
+
+/**
+ * Set the listen addresses used for the generated JSON server.
+ */
+export function setListen(addresses: string[] | undefined): void {
+    listen = addresses?.length ? addresses : DEFAULT_LISTEN;
+}
+
+/**
+ * Flush the current configuration to disk (debounced).
+ */
+export function flushToDisk(): Promise<void> {
+    return output.flush();
+}
+
+/**
+ * Register or replace an app's site.
+ */
+export function register(appName: string, site: CaddySite): void {
+    registry.set(appName, site);
+    log.debug({ message: 'App registered', data: { appName } });
+}
+
+/**
+ * Get the site registered for an app.
+ */
+export function getSite(appName: string): CaddySite | undefined {
+    return registry.get(appName);
+}
+
+/**
+ * Check the registry (including pending changes) for conflicts.
+ */
+export function validate(): ReturnType<typeof validateSites> {
+    return validateSites(registry);
+}
+
+/**
+ * Remove an app's configuration.
+ */
+export function remove(appName: string): void {
+    const existed = registry.delete(appName);
+    if (existed) {
+        log.debug({ message: 'App removed', data: { appName } });
+    }
+}
+
+/**
+ * Get the generated config as a string in the configured format.
+ */
+export function getConfig(): string {
+    return buildOutput();
+}
+
+/**
+ * List all registered app names.
+ */
+export function listRegisteredApps(): string[] {
+    return Array.from(registry.keys());
+}
+
+/**
+ * Reset state for testing.
+ */
+export function _resetForTesting(): void {
+    registry.clear();
+    format = 'caddyfile';
+    listen = DEFAULT_LISTEN;
+    output.reset();
+}
@@ -0,0 +1,58 @@
+/**
+ * Subset of Caddy's native JSON config used by magic-proxy
+ * @see https://caddyserver.com/docs/json/
+ */
+
+/** Upstream for the reverse_proxy handler */
+export type CaddyUpstream = {
+    dial: string;
+};
+
+/** reverse_proxy handler */
+export type CaddyReverseProxyHandler = {
+    handler: 'reverse_proxy';
+    upstreams: CaddyUpstream[];
+    transport?: {
+        protocol: 'http';
+        tls?: Record<string, unknown>;
+    };
+};
+
+/** Request matcher */
+export type CaddyMatcher = {
+    host?: string[];
+};
+
+/** HTTP route */
+export type CaddyRoute = {
+    '@id'?: string;
+    match?: CaddyMatcher[];
+    handle: CaddyReverseProxyHandler[];
+    terminal?: boolean;
+};
+
+/** HTTP server */
+export type CaddyServer = {
+    listen: string[];
+    routes: CaddyRoute[];
+};
+
+/**
+ * Complete Caddy JSON configuration structure (as generated).
+ */
+export type CaddyJsonConfig = {
+    apps: {
+        http: {
+            servers: Record<string, CaddyServer>;
+        };
+    };
+};
+
+/**
+ * A site as registered by magic-proxy: one or more hostnames served by
+ * reverse-proxying to one or more upstream URLs.
+ */
+export type CaddySite = {
+    hosts: string[];
+    upstreams: string[];
+};
@@ -0,0 +1,82 @@
+import { CaddySite } from './types/caddy';
+
+/** Characters that would break a Caddyfile site address */
+const INVALID_HOST_PATTERN = /[\s{}#,"]/;
+
+export type ValidationResult =
+    | { valid: true }
+    | { valid: false; error: string };
+
+/**
+ * Validate a single upstream URL. Caddy upstreams are scheme + host + port only,
+ * so paths, queries and credentials are rejected.
+ */
+function validateUpstream(upstream: string): string | null {
+    let url: URL;
+    try {
+        url = new URL(upstream);
+    } catch {
+        return `Invalid upstream URL: '${upstream}'`;
+    }
+
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        return `Upstream must use http or https: '${upstream}'`;
+    }
+    if ((url.pathname && url.pathname !== '/') || url.search || url.hash) {
+        return `Upstream must not contain a path or query: '${upstream}'`;
+    }
+    if (url.username || url.password) {
+        return `Upstream must not contain credentials: '${upstream}'`;
+    }
+    return null;
+}
+
+/**
+ * Validate a site before it is registered.
+ */
+export function validateSite(site: CaddySite): ValidationResult {
+    if (site.hosts.length === 0) {
+        return { valid: false, error: 'Site has no hostnames' };
+    }
+    for (const host of site.hosts) {
+        if (host.length === 0 || INVALID_HOST_PATTERN.test(host)) {
+            return { valid: false, error: `Invalid site address: '${host}'` };
+        }
+    }
+
+    if (site.upstreams.length === 0) {
+        return { valid: false, error: 'Site has no upstreams' };
+    }
+    for (const upstream of site.upstreams) {
+        const error = validateUpstream(upstream);
+        if (error) return { valid: false, error };
+    }
+
+    return { valid: true };
+}
+
+/**
+ * Validate the full set of registered sites.
+ * Caddy refuses to load a config where two site blocks claim the same address.
+ */
+export function validateSites(sites: Map<string, CaddySite>): ValidationResult {
+    const owners = new Map<string, string>();
+
+    for (const [appName, site] of sites) {
+        const result = validateSite(site);
+        if (!result.valid) {
+            return { valid: false, error: `${appName}: ${result.error}` };
+        }
+
+        for (const host of site.hosts) {
+            const key = host.toLowerCase();
+            const owner = owners.get(key);
+            if (owner && owner !== appName) {
+                return { valid: false, error: `Hostname '${host}' is claimed by both '${owner}' and '${appName}'` };
+            }
+            owners.set(key, appName);
+        }
+    }
+
+    return { valid: true };
+}
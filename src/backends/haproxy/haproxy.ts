@@ -0,0 +1,158 @@
+import { validateApp } from './validators';
+import * as manager from './haproxyManager';
+import { resolveOutputPath } from '../outputWriter';
+import { getUpstreams } from '../upstreams';
+import { HaproxyApp, HaproxyServer } from './types/haproxy';
+import { MagicProxyConfigFile } from '../../types/config';
+import { getHostnames } from '../../types/xmagic';
+import { HostEntry } from '../../types/host';
+import { zone } from '../../logging/zone';
+
+const log = zone('backends.haproxy');
+
+/**
+ * Convert a target URL into a server definition (host:port + TLS flag).
+ */
+function toServer(target: string): HaproxyServer | null {
+    let url: URL;
+    try {
+        url = new URL(target);
+    } catch {
+        return null;
+    }
+    const ssl = url.protocol === 'https:';
+    const port = url.port || (ssl ? '443' : '80');
+    return { address: `${url.hostname}:${port}`, ssl };
+}
+
+/**
+ * Build an HAProxy app from a host entry's x-magic-proxy data.
+ * Like the Caddy backend, HAProxy config is generated directly rather than
+ * from templates. Scaled services get one server per replica.
+ */
+function makeApp(entry: HostEntry): HaproxyApp | null {
+    const { xMagicProxy } = entry;
+    const servers = getUpstreams(entry).map(toServer);
+    if (servers.some(server => server === null)) return null;
+
+    return {
+        hosts: getHostnames(xMagicProxy),
+        servers: servers as HaproxyServer[],
+    };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test utilities
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function _resetForTesting(): void {
+    manager._resetForTesting();
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Initialize the HAProxy backend with the given configuration.
+ */
+export async function initialize(config?: MagicProxyConfigFile): Promise<void> {
+    if (!config) {
+        throw new Error('HAProxy backend requires a configuration object');
+    }
+
+    const frontend = config.haproxy?.frontend ?? {};
+    if (frontend.mode !== undefined && frontend.mode !== 'http' && frontend.mode !== 'tcp') {
+        throw new Error(`Invalid config.haproxy.frontend.mode '${String(frontend.mode)}'. Must be one of: http, tcp`);
+    }
+
+    manager.setFrontend(frontend);
+    log.debug({ message: 'Initializing HAProxy backend', data: { frontend: manager.getFrontend() } });
+
+    // Configure output file
+    const outputFile = config.haproxy?.outputFile;
+    if (outputFile) {
+        const resolved = resolveOutputPath(outputFile);
+        manager.setOutputFile(resolved);
+        log.debug({ message: 'Output file configured', data: { outputFile: resolved } });
+    }
+
+    await manager.flushToDisk();
+}
+
+/**
+ * Add or update a proxied application.
+ * Invalid apps, or apps claiming a hostname already served by another app,
+ * are skipped with an error log and any previous registration is kept.
+ */
+export async function addProxiedApp(entry: HostEntry): Promise<void> {
+    const { containerName, xMagicProxy } = entry;
+    log.info({
+        message: 'Adding proxied app',
+        data: { containerName, hostname: xMagicProxy.hostname, target: xMagicProxy.target }
+    });
+
+    const app = makeApp(entry);
+    if (!app) {
+        log.error({
+            message: 'Skipping host with invalid target URL',
+            data: { containerName, target: xMagicProxy.target }
+        });
+        return;
+    }
+
+    const validation = validateApp(app);
+    if (!validation.valid) {
+        log.error({
+            message: 'Skipping host with invalid HAProxy definition',
+            data: { containerName, hostname: xMagicProxy.hostname, error: validation.error }
+        });
+        return;
+    }
+
+    const previous = manager.getApp(containerName);
+    manager.register(containerName, app);
+
+    const combined = manager.validate();
+    if (!combined.valid) {
+        if (previous === undefined) {
+            manager.remove(containerName);
+        } else {
+            manager.register(containerName, previous);
+        }
+        log.error({
+            message: 'Skipping host because it conflicts with registered apps',
+            data: { containerName, hostname: xMagicProxy.hostname, error: combined.error }
+        });
+        return;
+    }
+
+    await manager.flushToDisk();
+}
+
+/**
+ * Remove a proxied application.
+ */
+export async function removeProxiedApp(appName: string): Promise<void> {
+    log.info({ message: 'Removing proxied app', data: { appName } });
+    manager.remove(appName);
+    await manager.flushToDisk();
+}
+
+/**
+ * Get the current generated haproxy.cfg fragment.
+ */
+export async function getConfig(): Promise<string> {
+    return manager.getConfig();
+}
+
+/**
+ * Get the current backend status.
+ */
+export async function getStatus(): Promise<{ registered: string[]; outputFile: string | null; mode: string }> {
+    return {
+        registered: manager.listRegisteredApps(),
+        outputFile: manager.getOutputFile(),
+        mode: manager.getFrontend().mode,
+    };
+}
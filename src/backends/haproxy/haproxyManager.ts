@@ -0,0 +1,219 @@
+import { HaproxyApp, HaproxyFrontend } from './types/haproxy';
+import { validateGeneratedConfig, ValidationResult } from './validators';
+import { createOutputFile } from '../outputWriter';
+import { zone } from '../../logging/zone';
+
+const log = zone('backends.haproxy.manager');
+
+/** Banner written at the top of the generated fragment */
+const HEADER = '# Generated by magic-proxy. Do not edit; changes will be overwritten.\n';
+
+/** Default frontend settings */
+const DEFAULT_FRONTEND: HaproxyFrontend = { name: 'magic_proxy', bind: [':80'], mode: 'http' };
+
+// Registry of apps keyed by app name
+const registry = new Map<string, HaproxyApp>();
+let frontend: HaproxyFrontend = DEFAULT_FRONTEND;
+
+// Generated config file, rendered and written by flushToDisk()
+const output = createOutputFile(renderOutput);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Config Building
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Convert an app name into a valid HAProxy identifier.
+ * The slash of route names (`<container>/<route>`) becomes a colon, which
+ * container names cannot contain either, so identifiers stay unique.
+ */
+export function toIdentifier(appName: string): string {
+    return appName.replace(/\//g, ':').replace(/[^A-Za-z0-9_.:-]/g, '_');
+}
+
+/**
+ * Build the shared frontend section with one ACL + use_backend per app.
+ */
+function buildFrontend(): string[] {
+    const lines = [`frontend ${frontend.name}`];
+    for (const address of frontend.bind) {
+        lines.push(`    bind ${address}`);
+    }
+    lines.push(`    mode ${frontend.mode}`);
+
+    if (frontend.mode === 'tcp') {
+        // Wait for the TLS ClientHello so the SNI can be matched
+        lines.push('    tcp-request inspect-delay 5s');
+        lines.push('    tcp-request content accept if { req_ssl_hello_type 1 }');
+    }
+
+    const fetch = frontend.mode === 'tcp' ? 'req_ssl_sni' : 'req.hdr(host),field(1,:)';
+    for (const [appName, app] of registry) {
+        const id = toIdentifier(appName);
+        lines.push(`    acl host_${id} ${fetch} -i ${app.hosts.join(' ')}`);
+        lines.push(`    use_backend be_${id} if host_${id}`);
+    }
+
+    return lines;
+}
+
+/**
+ * Build the dedicated backend section for an app.
+ */
+function buildBackend(appName: string, app: HaproxyApp): string[] {
+    const id = toIdentifier(appName);
+    const lines = [`backend be_${id}`, `    mode ${frontend.mode}`];
+
+    app.servers.forEach((server, index) => {
+        const name = app.servers.length > 1 ? `${id}_${index + 1}` : id;
+        // TLS to the server is only added in http mode; tcp mode passes TLS through
+        const ssl = server.ssl && frontend.mode === 'http' ? ' ssl verify required ca-file @system-ca' : '';
+        lines.push(`    server ${name} ${server.address}${ssl}`);
+    });
+
+    return lines;
+}
+
+/**
+ * Render the full haproxy.cfg fragment.
+ */
+function buildConfig(): string {
+    const sections = [buildFrontend()];
+    for (const [appName, app] of registry) {
+        sections.push([`# app: ${appName}`, ...buildBackend(appName, app)]);
+    }
+    return HEADER + '\n' + sections.map(s => s.join('\n') + '\n').join('\n');
+}
+
+/**
+ * Check the generated text plus cross-app conflicts HAProxy would not report
+ * (the first matching ACL silently wins on duplicate hostnames).
+ */
+function validateRegistry(): ValidationResult {
+    const hostOwners = new Map<string, string>();
+    const idOwners = new Map<string, string>();
+
+    for (const [appName, app] of registry) {
+        const id = toIdentifier(appName);
+        const idOwner = idOwners.get(id);
+        if (idOwner) {
+            return { valid: false, error: `Apps '${idOwner}' and '${appName}' map to the same backend name 'be_${id}'` };
+        }
+        idOwners.set(id, appName);
+
+        for (const host of app.hosts) {
+            const key = host.toLowerCase();
+            const owner = hostOwners.get(key);
+            if (owner && owner !== appName) {
+                return { valid: false, error: `Hostname '${host}' is claimed by both '${owner}' and '${appName}'` };
+            }
+            hostOwners.set(key, appName);
+        }
+    }
+
+    return validateGeneratedConfig(buildConfig());
+}
+
+/**
+ * Render the config for writing, validating the registry first.
+ */
+function renderOutput(): string {
+    const validation = validateRegistry();
+    if (!validation.valid) {
+        log.error({ message: 'Generated config validation failed', data: { error: validation.error } });
+        throw new Error(`Invalid config generated: ${validation.error}`);
+    }
+
+    return buildConfig();
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function setOutputFile(file: string | null): void {
+    output.setPath(file);
+}
+
+export function getOutputFile(): string | null {
+    return output.getPath();
+}
+
+/**
+ * Configure the shared frontend. Missing fields fall back to defaults; the
+ * default bind address follows the mode (:80 for http, :443 for tcp).
+ */
+export function setFrontend(config: Partial<HaproxyFrontend> = {}): void {
+    const mode = config.mode ?? DEFAULT_FRONTEND.mode;
+    frontend = {
+        name: config.name ?? DEFAULT_FRONTEND.name,
+        bind: config.bind?.length ? config.bind : [mode === 'tcp' ? ':443' : ':80'],
+        mode,
+    };
+}
+
+export function getFrontend(): HaproxyFrontend {
+    return frontend;
+}
+
+/**
+ * Flush the current configuration to disk (debounced).
+ */
+export function flushToDisk(): Promise<void> {
+    return output.flush();
+}
+
+/**
+ * Register or replace an app.
+ */
+export function register(appName: string, app: HaproxyApp): void {
+    registry.set(appName, app);
+    log.debug({ message: 'App registered', data: { appName } });
+}
+
+/**
+ * Get the app registered under a name.
+ */
+export function getApp(appName: string): HaproxyApp | undefined {
+    return registry.get(appName);
+}
+
+/**
+ * Validate the registry as it would be written.
+ */
+export function validate(): ValidationResult {
+    return validateRegistry();
+}
+
+/**
+ * Remove an app's configuration.
+ */
+export function remove(appName: string): void {
+    const existed = registry.delete(appName);
+    if (existed) {
+        log.debug({ message: 'App removed', data: { appName } });
+    }
+}
+
+/**
+ * Get the generated haproxy.cfg fragment as a string.
+ */
+export function getConfig(): string {
+    return buildConfig();
+}
+
+/**
+ * List all registered app names.
+ */
+export function listRegisteredApps(): string[] {
+    return Array.from(registry.keys());
+}
+
+/**
+ * Reset state for testing.
+ */
+export function _resetForTesting(): void {
+    registry.clear();
+    frontend = DEFAULT_FRONTEND;
+    output.reset();
+}
@@ -0,0 +1,29 @@
+/**
+ * HAProxy configuration model used by magic-proxy
+ * @see https://docs.haproxy.org/2.8/configuration.html
+ */
+
+/** How the shared frontend matches requests to apps */
+export type HaproxyMode = 'http' | 'tcp';
+
+/** Shared frontend settings */
+export type HaproxyFrontend = {
+    name: string;
+    bind: string[];
+    mode: HaproxyMode;
+};
+
+/** Upstream server of an app backend */
+export type HaproxyServer = {
+    address: string;   // host:port
+    ssl: boolean;      // connect to the server over TLS (http mode only)
+};
+
+/**
+ * An app as registered by magic-proxy: the hostnames matched on the shared
+ * frontend and the servers of its dedicated backend section.
+ */
+export type HaproxyApp = {
+    hosts: string[];
+    servers: HaproxyServer[];
+};
@@ -0,0 +1,128 @@
+/** Sections the generated fragment may contain */
+const ALLOWED_SECTIONS = new Set(['frontend', 'backend']);
+
+/** Valid HAProxy section, ACL and server names */
+const NAME_PATTERN = /^[A-Za-z0-9_.:-]+$/;
+
+export type ValidationResult =
+    | { valid: true }
+    | { valid: false; error: string };
+
+type Section = {
+    type: string;
+    name: string;
+    acls: Set<string>;
+    aclRefs: string[];
+    backendRefs: string[];
+    servers: number;
+};
+
+/**
+ * Validate a generated haproxy.cfg fragment.
+ *
+ * Checks that the text only contains frontend/backend sections with valid,
+ * unique names, that every use_backend points at a defined backend through a
+ * defined ACL, and that every backend has at least one server.
+ */
+export function validateGeneratedConfig(text: string): ValidationResult {
+    const sections: Section[] = [];
+    let current: Section | null = null;
+
+    const lines = text.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+        const raw = lines[i];
+        const line = raw.trim();
+        if (!line || line.startsWith('#')) continue;
+
+        // Section headers are not indented
+        if (!/^\s/.test(raw)) {
+            const [type, name, ...rest] = line.split(/\s+/);
+            if (!ALLOWED_SECTIONS.has(type)) {
+                return { valid: false, error: `Unexpected section on line ${i + 1}: '${type}'` };
+            }
+            if (!name || rest.length > 0 || !NAME_PATTERN.test(name)) {
+                return { valid: false, error: `Invalid ${type} name on line ${i + 1}: '${line}'` };
+            }
+            if (sections.some(s => s.type === type && s.name === name)) {
+                return { valid: false, error: `Duplicate ${type} name: '${name}'` };
+            }
+            current = { type, name, acls: new Set(), aclRefs: [], backendRefs: [], servers: 0 };
+            sections.push(current);
+            continue;
+        }
+
+        if (!current) {
+            return { valid: false, error: `Directive outside of a section on line ${i + 1}` };
+        }
+
+        const [keyword, ...args] = line.split(/\s+/);
+        if (keyword === 'acl') {
+            if (!args[0] || !NAME_PATTERN.test(args[0]) || args.length < 2) {
+                return { valid: false, error: `Invalid acl on line ${i + 1}` };
+            }
+            current.acls.add(args[0]);
+        } else if (keyword === 'use_backend') {
+            const [backend, cond, ...aclNames] = args;
+            if (!backend || (cond !== 'if' && cond !== 'unless') || aclNames.length === 0) {
+                return { valid: false, error: `Invalid use_backend on line ${i + 1}` };
+            }
+            current.backendRefs.push(backend);
+            current.aclRefs.push(...aclNames.filter(a => NAME_PATTERN.test(a)));
+        } else if (keyword === 'server') {
+            if (args.length < 2 || !NAME_PATTERN.test(args[0])) {
+                return { valid: false, error: `Invalid server on line ${i + 1}` };
+            }
+            current.servers++;
+        }
+    }
+
+    const backends = new Set(sections.filter(s => s.type === 'backend').map(s => s.name));
+    for (const section of sections) {
+        for (const ref of section.backendRefs) {
+            if (!backends.has(ref)) {
+                return { valid: false, error: `${section.type} '${section.name}' references unknown backend '${ref}'` };
+            }
+        }
+        for (const ref of section.aclRefs) {
+            if (!section.acls.has(ref)) {
+                return { valid: false, error: `${section.type} '${section.name}' references unknown acl '${ref}'` };
+            }
+        }
+        if (section.type === 'backend' && section.servers === 0) {
+            return { valid: false, error: `backend '${section.name}' has no servers` };
+        }
+    }
+
+    return { valid: true };
+}
+
+/** Characters that would break an ACL pattern list */
+const INVALID_HOST_PATTERN = /[\s#{}]/;
+
+/** host:port (host may be a bracketed IPv6 address) */
+const ADDRESS_PATTERN = /^(\[[0-9a-fA-F:.]+\]|[A-Za-z0-9_.-]+):\d{1,5}$/;
+
+/**
+ * Validate a single app before it is registered.
+ */
+export function validateApp(app: { hosts: string[]; servers: { address: string }[] }): ValidationResult {
+    if (app.hosts.length === 0) {
+        return { valid: false, error: 'App has no hostnames' };
+    }
+    for (const host of app.hosts) {
+        if (host.length === 0 || INVALID_HOST_PATTERN.test(host)) {
+            return { valid: false, error: `Invalid hostname: '${host}'` };
+        }
+    }
+
+    if (app.servers.length === 0) {
+        return { valid: false, error: 'App has no servers' };
+    }
+    for (const server of app.servers) {
+        if (!ADDRESS_PATTERN.test(server.address)) {
+            return { valid: false, error: `Invalid server address: '${server.address}'` };
+        }
+    }
+
+    return { valid: true };
+}
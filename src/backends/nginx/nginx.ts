@@ -0,0 +1,186 @@
+import { getTemplateEngine, renderTemplate, TemplateEngine } from '../traefik/templateParser';
+import { getErrorMessage } from '../traefik/helpers';
+import { validateGeneratedConfig } from './validators';
+import * as manager from './nginxManager';
+import { loadTemplates } from '../templateLoader';
+import { resolveOutputPath } from '../outputWriter';
+import { getUpstreams } from '../upstreams';
+import { MagicProxyConfigFile } from '../../types/config';
+import { getTemplateNames, XMagicProxyData } from '../../types/xmagic';
+import { HostEntry } from '../../types/host';
+import { zone } from '../../logging/zone';
+
+const log = zone('backends.nginx');
+
+/** Template storage: maps template filename -> content */
+const templates = new Map<string, string>();
+
+/** Default template engine from config.templateEngine */
+let templateEngine: TemplateEngine = 'builtin';
+
+/**
+ * Creates an nginx config fragment (one or more server/upstream blocks) by
+ * rendering the app's template(s). Fragments from several templates are
+ * concatenated in order. Templates receive every upstream target for scaled services.
+ * Returns null if rendering fails or the result is not valid nginx config.
+ */
+function makeAppConfig(appName: string, data: XMagicProxyData, targets: string[], route?: string): string | null {
+    const fragments: string[] = [];
+
+    for (const templateName of getTemplateNames(data)) {
+        const templateContent = templates.get(templateName);
+        if (!templateContent) {
+            const available = Array.from(templates.keys()).join(', ') || '(none)';
+            log.error({ message: 'Template not found', data: { appName, template: templateName, available } });
+            return null;
+        }
+
+        try {
+            fragments.push(renderTemplate(
+                templateContent, appName, { ...data, template: templateName }, getTemplateEngine(templateName, templateEngine), targets, route
+            ).trim());
+        } catch (err) {
+            log.error({
+                message: 'Failed to render template',
+                data: { appName, template: templateName, error: getErrorMessage(err) }
+            });
+            return null;
+        }
+    }
+
+    const fragment = fragments.join('\n\n') + '\n';
+    const validation = validateGeneratedConfig(fragment);
+    if (!validation.valid) {
+        log.error({
+            message: 'Template produced invalid nginx config',
+            data: { appName, template: data.template, error: validation.error }
+        });
+        return null;
+    }
+
+    return fragment;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test utilities
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function _setTemplateForTesting(name: string, content: string): void {
+    templates.set(name, content);
+}
+
+export function _resetForTesting(): void {
+    manager._resetForTesting();
+    templates.clear();
+    templateEngine = 'builtin';
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Initialize the nginx backend with the given configuration.
+ */
+export async function initialize(config?: MagicProxyConfigFile): Promise<void> {
+    if (!config) {
+        throw new Error('Nginx backend requires a configuration object');
+    }
+
+    const templatePaths = config.nginx?.templates;
+    if (!templatePaths?.length) {
+        throw new Error('No templates defined in config.nginx.templates');
+    }
+
+    log.debug({ message: 'Initializing nginx backend', data: { templateCount: templatePaths.length } });
+
+    const loaded = await loadTemplates(templatePaths);
+    templateEngine = config.templateEngine ?? 'builtin';
+
+    templates.clear();
+    for (const [name, content] of loaded) {
+        templates.set(name, content);
+    }
+
+    if (templates.size === 0) {
+        throw new Error('No templates were loaded');
+    }
+
+    // Configure output file
+    const outputFile = config.nginx?.outputFile;
+    if (outputFile) {
+        const resolved = resolveOutputPath(outputFile);
+        manager.setOutputFile(resolved);
+        log.debug({ message: 'Output file configured', data: { outputFile: resolved } });
+    }
+
+    await manager.flushToDisk();
+}
+
+/**
+ * Add or update a proxied application.
+ * If rendering fails, or the fragment conflicts with another app (e.g. a
+ * duplicate upstream name), the host is skipped with an error log and any
+ * previously registered config for it is kept.
+ */
+export async function addProxiedApp(entry: HostEntry): Promise<void> {
+    const { containerName, xMagicProxy } = entry;
+    log.info({
+        message: 'Adding proxied app',
+        data: { containerName, hostname: xMagicProxy.hostname, target: xMagicProxy.target, template: xMagicProxy.template }
+    });
+
+    const fragment = makeAppConfig(containerName, xMagicProxy, getUpstreams(entry), entry.route);
+    if (fragment === null) {
+        log.error({
+            message: 'Skipping host due to template rendering failure',
+            data: { containerName, hostname: xMagicProxy.hostname }
+        });
+        return;
+    }
+
+    const previous = manager.getFragment(containerName);
+    manager.register(containerName, fragment);
+
+    const validation = validateGeneratedConfig(manager.getConfig());
+    if (!validation.valid) {
+        if (previous === undefined) {
+            manager.remove(containerName);
+        } else {
+            manager.register(containerName, previous);
+        }
+        log.error({
+            message: 'Skipping host because it conflicts with registered apps',
+            data: { containerName, hostname: xMagicProxy.hostname, error: validation.error }
+        });
+        return;
+    }
+
+    await manager.flushToDisk();
+}
+
+/**
+ * Remove a proxied application.
+ */
+export async function removeProxiedApp(appName: string): Promise<void> {
+    log.info({ message: 'Removing proxied app', data: { appName } });
+    manager.remove(appName);
+    await manager.flushToDisk();
+}
+
+/**
+ * Get the current generated nginx include file.
+ */
+export async function getConfig(): Promise<string> {
+    return manager.getConfig();
+}
+
+/**
+ * Get the current backend status.
+ */
+export async function getStatus(): Promise<{ registered: string[]; outputFile: string | null }> {
+    return {
+        registered: manager.listRegisteredApps(),
+        outputFile: manager.getOutputFile(),
+    };
+}
@@ -0,0 +1,110 @@
+import { validateGeneratedConfig } from './validators';
+import { createOutputFile } from '../outputWriter';
+import { zone } from '../../logging/zone';
+
+const log = zone('backends.nginx.manager');
+
+/** Banner written at the top of the generated include file */
+const HEADER = '# Generated by magic-proxy. Do not edit; changes will be overwritten.\n';
+
+// Registry of rendered server blocks keyed by app name
+const registry = new Map<string, string>();
+
+// Generated config file, rendered and written by flushToDisk()
+const output = createOutputFile(renderOutput);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Config Building
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Concatenate all registered fragments into a single include file.
+ * Each fragment is preceded by a comment naming the app it belongs to.
+ */
+function buildCombinedConfig(): string {
+    const sections = Array.from(registry.entries()).map(
+        ([appName, fragment]) => `# app: ${appName}\n${fragment.trim()}\n`
+    );
+    return [HEADER, ...sections].join('\n');
+}
+
+/**
+ * Render the combined include file for writing, validating it first.
+ */
+function renderOutput(): string {
+    const text = buildCombinedConfig();
+
+    const validation = validateGeneratedConfig(text);
+    if (!validation.valid) {
+        log.error({ message: 'Generated config validation failed', data: { error: validation.error } });
+        throw new Error(`Invalid config generated: ${validation.error}`);
+    }
+
+    return text;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function setOutputFile(file: string | null): void {
+    output.setPath(file);
+}
+
+export function getOutputFile(): string | null {
+    return output.getPath();
+}
+
+/**
+ * Flush the current combined configuration to disk (debounced).
+ */
+export function flushToDisk(): Promise<void> {
+    return output.flush();
+}
+
+/**
+ * Register or replace an app's rendered config fragment.
+ */
+export function register(appName: string, fragment: string): void {
+    registry.set(appName, fragment);
+    log.debug({ message: 'App registered', data: { appName } });
+}
+
+/**
+ * Get the rendered fragment registered for an app.
+ */
+export function getFragment(appName: string): string | undefined {
+    return registry.get(appName);
+}
+
+/**
+ * Remove an app's configuration.
+ */
+export function remove(appName: string): void {
+    const existed = registry.delete(appName);
+    if (existed) {
+        log.debug({ message: 'App removed', data: { appName } });
+    }
+}
+
+/**
+ * Get the combined include file as a string.
+ */
+export function getConfig(): string {
+    return buildCombinedConfig();
+}
+
+/**
+ * List all registered app names.
+ */
+export function listRegisteredApps(): string[] {
+    return Array.from(registry.keys());
+}
+
+/**
+ * Reset state for testing.
+ */
+export function _resetForTesting(): void {
+    registry.clear();
+    output.reset();
+}
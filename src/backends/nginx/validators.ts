@@ -0,0 +1,167 @@
+/** Block directives allowed at the top level of the generated include (http context) */
+const ALLOWED_TOP_BLOCKS = new Set(['server', 'upstream', 'map', 'geo', 'split_clients']);
+
+/** Pattern for template placeholders that survived rendering */
+const PLACEHOLDER_PATTERN = /{{|}}/;
+
+export type ValidationResult =
+    | { valid: true }
+    | { valid: false; error: string };
+
+/** A block directive found at the top level of a config fragment, e.g. `upstream app { ... }` */
+export type TopLevelBlock = {
+    name: string;
+    args: string[];
+};
+
+export type ParseResult =
+    | { valid: true; blocks: TopLevelBlock[] }
+    | { valid: false; error: string };
+
+/**
+ * Tokenize nginx config text and collect the top-level block directives.
+ * Checks quoting, brace balance and directive termination along the way;
+ * it is not a full nginx parser, but catches the mistakes templates make.
+ */
+export function parseTopLevelBlocks(text: string): ParseResult {
+    const blocks: TopLevelBlock[] = [];
+    let words: string[] = [];
+    let word = '';
+    let depth = 0;
+    let line = 1;
+
+    const endWord = () => {
+        if (word) {
+            words.push(word);
+            word = '';
+        }
+    };
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+
+        if (ch === '\n') line++;
+
+        // Comments run to the end of the line
+        if (ch === '#' && !word) {
+            while (i < text.length && text[i] !== '\n') i++;
+            line++;
+            continue;
+        }
+
+        // Quoted strings (backslash escapes allowed)
+        if (ch === '"' || ch === '\'') {
+            const start = line;
+            let j = i + 1;
+            while (j < text.length && text[j] !== ch) {
+                if (text[j] === '\\') j++;
+                if (text[j] === '\n') line++;
+                j++;
+            }
+            if (j >= text.length) {
+                return { valid: false, error: `Unterminated string starting on line ${start}` };
+            }
+            word += text.slice(i, j + 1);
+            i = j;
+            continue;
+        }
+
+        // ${var} interpolation is part of a word, not a block
+        if (ch === '$' && text[i + 1] === '{') {
+            const close = text.indexOf('}', i);
+            if (close === -1) {
+                return { valid: false, error: `Unterminated variable on line ${line}` };
+            }
+            word += text.slice(i, close + 1);
+            i = close;
+            continue;
+        }
+
+        if (/\s/.test(ch)) {
+            endWord();
+            continue;
+        }
+
+        if (ch === ';') {
+            endWord();
+            if (words.length === 0) {
+                return { valid: false, error: `Empty directive on line ${line}` };
+            }
+            words = [];
+            continue;
+        }
+
+        if (ch === '{') {
+            endWord();
+            if (words.length === 0) {
+                return { valid: false, error: `Block without a directive name on line ${line}` };
+            }
+            if (depth === 0) {
+                blocks.push({ name: words[0], args: words.slice(1) });
+            }
+            depth++;
+            words = [];
+            continue;
+        }
+
+        if (ch === '}') {
+            endWord();
+            if (words.length > 0) {
+                return { valid: false, error: `Directive '${words[0]}' is missing ';' on line ${line}` };
+            }
+            depth--;
+            if (depth < 0) {
+                return { valid: false, error: `Unexpected '}' on line ${line}` };
+            }
+            continue;
+        }
+
+        word += ch;
+    }
+
+    endWord();
+    if (words.length > 0) {
+        return { valid: false, error: `Directive '${words[0]}' is missing ';' at end of input` };
+    }
+    if (depth > 0) {
+        return { valid: false, error: `Unbalanced braces: ${depth} block(s) not closed` };
+    }
+
+    return { valid: true, blocks };
+}
+
+/**
+ * Validate generated nginx configuration text.
+ * The generated file is meant to be included from the `http {}` context, so only
+ * server/upstream-style blocks are accepted at the top level.
+ */
+export function validateGeneratedConfig(text: string): ValidationResult {
+    if (PLACEHOLDER_PATTERN.test(text)) {
+        return { valid: false, error: 'Unresolved template placeholder in generated config' };
+    }
+
+    const parsed = parseTopLevelBlocks(text);
+    if (!parsed.valid) {
+        return { valid: false, error: parsed.error };
+    }
+
+    const upstreams = new Set<string>();
+    for (const block of parsed.blocks) {
+        if (!ALLOWED_TOP_BLOCKS.has(block.name)) {
+            return { valid: false, error: `Unexpected top-level block: '${block.name}'` };
+        }
+
+        if (block.name === 'upstream') {
+            const name = block.args[0];
+            if (!name) {
+                return { valid: false, error: 'upstream block is missing a name' };
+            }
+            if (upstreams.has(name)) {
+                return { valid: false, error: `Duplicate upstream name: '${name}'` };
+            }
+            upstreams.add(name);
+        }
+    }
+
+    return { valid: true };
+}
@@ -0,0 +1,178 @@
+/**
+ * Shared file output helpers for backends that render a single generated
+ * config file (atomic writes, stale temp cleanup, debounced flushing).
+ */
+import fs from 'fs/promises';
+import path from 'path';
+import { OUTPUT_DIRECTORY } from '../config';
+import { zone } from '../logging/zone';
+
+const log = zone('backends.output');
+
+/**
+ * Resolve a configured output file.
+ * Relative paths are resolved against OUTPUT_DIRECTORY.
+ */
+export function resolveOutputPath(outputFile: string): string {
+    return path.isAbsolute(outputFile)
+        ? outputFile
+        : path.resolve(OUTPUT_DIRECTORY, outputFile);
+}
+
+/**
+ * Clean up stale .tmp files for a given target file.
+ */
+export async function cleanupTempFiles(filePath: string): Promise<void> {
+    const dir = path.dirname(filePath);
+    const baseName = path.basename(filePath);
+
+    try {
+        const files = await fs.readdir(dir);
+        const tmpFiles = files.filter(f => f.startsWith(baseName) && f.endsWith('.tmp'));
+
+        await Promise.all(
+            tmpFiles.map(tmpFile =>
+                fs.unlink(path.join(dir, tmpFile)).catch(() => { })
+            )
+        );
+
+        if (tmpFiles.length > 0) {
+            log.debug({ message: 'Cleaned up temp files', data: { count: tmpFiles.length } });
+        }
+    } catch (err) {
+        // Ignore errors from directory read (e.g., directory doesn't exist yet)
+        log.debug({ message: 'Could not clean temp files', data: { error: err } });
+    }
+}
+
+/**
+ * Write a file atomically using temp file + rename pattern.
+ * When cleanupStale is set, leftover .tmp files from earlier runs are removed first.
+ */
+export async function writeAtomically(filePath: string, content: string, options: { cleanupStale?: boolean } = {}): Promise<void> {
+    const tmpFile = `${filePath}.${process.pid}-${Date.now()}.tmp`;
+
+    try {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        if (options.cleanupStale) {
+            await cleanupTempFiles(filePath);
+        }
+        await fs.writeFile(tmpFile, content, 'utf-8');
+        await fs.rename(tmpFile, filePath);
+        log.debug({ message: 'Config written', data: { filePath } });
+    } catch (err) {
+        // Clean up temp file on failure
+        await fs.unlink(tmpFile).catch(() => { });
+        throw err;
+    }
+}
+
+/** Debounced flush handle returned by createFlushScheduler() */
+export interface FlushScheduler {
+    flush: () => Promise<void>;
+    reset: () => void;
+}
+
+/**
+ * Create a debounced flush function.
+ *
+ * Uses setImmediate to prevent race conditions when multiple apps are
+ * registered in rapid succession. All synchronous register() calls complete
+ * before the actual write occurs, and every caller waiting on the same tick
+ * is resolved (or rejected) by a single write.
+ */
+export function createFlushScheduler(doFlush: () => Promise<void>): FlushScheduler {
+    let pending: {
+        resolvers: Array<{ resolve: () => void; reject: (err: Error) => void }>;
+        scheduled: boolean;
+    } | null = null;
+
+    async function execute(): Promise<void> {
+        const current = pending;
+        pending = null;
+
+        if (!current) return;
+
+        try {
+            await doFlush();
+            current.resolvers.forEach(r => r.resolve());
+        } catch (err) {
+            const error = err instanceof Error ? err : new Error(String(err));
+            current.resolvers.forEach(r => r.reject(error));
+        }
+    }
+
+    return {
+        flush: () => new Promise((resolve, reject) => {
+            if (!pending) {
+                pending = { resolvers: [], scheduled: false };
+            }
+            pending.resolvers.push({ resolve, reject });
+
+            if (!pending.scheduled) {
+                pending.scheduled = true;
+                setImmediate(() => {
+                    execute();
+                });
+            }
+        }),
+        reset: () => {
+            pending = null;
+        },
+    };
+}
+
+/** A backend's generated config file, returned by createOutputFile() */
+export interface OutputFile {
+    /** Set the file to write, or null to stop writing */
+    setPath: (file: string | null) => void;
+    getPath: () => string | null;
+    /** Render and write the file (debounced); skipped while no file is set */
+    flush: () => Promise<void>;
+    reset: () => void;
+}
+
+/**
+ * Create the output file of a backend that renders a single config file.
+ *
+ * Flushes are debounced as in createFlushScheduler() and written atomically;
+ * the first write to each file also removes stale temp files left by earlier
+ * runs. `render` builds and validates the content, and throws to abort the
+ * write.
+ */
+export function createOutputFile(render: () => string): OutputFile {
+    let filePath: string | null = null;
+
+    // Track whether temp file cleanup has been performed for the current file
+    let tempFilesCleanedUp = false;
+
+    const flushScheduler = createFlushScheduler(async () => {
+        if (!filePath) {
+            log.debug({ message: 'No output file configured, skipping flush' });
+            return;
+        }
+
+        const content = render();
+
+        // Clean up any stale temp files on first write only
+        const cleanupStale = !tempFilesCleanedUp;
+        tempFilesCleanedUp = true;
+        await writeAtomically(filePath, content, { cleanupStale });
+    });
+
+    return {
+        setPath: (file) => {
+            if (file !== filePath) {
+                tempFilesCleanedUp = false;
+            }
+            filePath = file;
+        },
+        getPath: () => filePath,
+        flush: () => flushScheduler.flush(),
+        reset: () => {
+            filePath = null;
+            tempFilesCleanedUp = false;
+            flushScheduler.reset();
+        },
+    };
+}
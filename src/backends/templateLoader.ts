@@ -0,0 +1,108 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { CONFIG_DIRECTORY } from '../config';
+import { getErrorMessage } from './traefik/helpers';
+import { zone } from '../logging/zone';
+
+const log = zone('backends.templates');
+
+/**
+ * Pattern for include directives: a line containing only `{{> path/to/partial }}`.
+ * The directive's indentation is applied to every line of the included file.
+ */
+const INCLUDE_PATTERN = /^([ \t]*){{>\s*([^\s}]+)\s*}}[ \t]*\r?$/gm;
+
+/** Pattern for include directives that are not alone on their line */
+const INLINE_INCLUDE_PATTERN = /{{>/;
+
+/**
+ * Replace include directives in a template with the contents of the referenced
+ * partials, recursively. Include paths are relative to the including file.
+ *
+ * @param content - Template content to expand
+ * @param file - Resolved path of the file the content was read from
+ * @param stack - Resolved paths of the files currently being expanded (cycle detection)
+ */
+async function expandIncludes(content: string, file: string, stack: string[]): Promise<string> {
+    const directives = Array.from(content.matchAll(INCLUDE_PATTERN));
+
+    const expanded: string[] = [];
+    for (const [, indent, includePath] of directives) {
+        const resolved = path.resolve(path.dirname(file), includePath);
+
+        if (stack.includes(resolved)) {
+            throw new Error(`Include cycle detected: ${[...stack, resolved].join(' -> ')}`);
+        }
+
+        let partial: string;
+        try {
+            partial = await fs.readFile(resolved, 'utf-8');
+        } catch (err) {
+            throw new Error(`Failed to include '${includePath}' from '${file}': ${getErrorMessage(err)}`);
+        }
+
+        const body = await expandIncludes(partial, resolved, [...stack, resolved]);
+        expanded.push(body.replace(/\n+$/, '').split('\n')
+            .map(line => (line ? indent + line : line))
+            .join('\n'));
+    }
+
+    let index = 0;
+    const result = content.replace(INCLUDE_PATTERN, () => expanded[index++]);
+
+    if (INLINE_INCLUDE_PATTERN.test(result)) {
+        throw new Error(`Include directive in '${file}' must be on a line of its own`);
+    }
+
+    return result;
+}
+
+/**
+ * Load a template file from disk, expanding any `{{> partial }}` includes.
+ * Relative paths are resolved against CONFIG_DIRECTORY.
+ */
+export async function loadTemplate(templatePath: string): Promise<string> {
+    const resolved = path.isAbsolute(templatePath)
+        ? templatePath
+        : path.resolve(CONFIG_DIRECTORY, templatePath);
+
+    log.debug({ message: 'Loading template', data: { templatePath, resolved } });
+
+    let content: string;
+    try {
+        content = await fs.readFile(resolved, 'utf-8');
+    } catch (err) {
+        const message = getErrorMessage(err);
+        log.error({ message: 'Failed to load template', data: { templatePath, resolved, error: message } });
+        throw new Error(`Failed to load template '${templatePath}': ${message}`);
+    }
+
+    try {
+        return await expandIncludes(content, resolved, [resolved]);
+    } catch (err) {
+        const message = getErrorMessage(err);
+        log.error({ message: 'Failed to expand template includes', data: { templatePath, resolved, error: message } });
+        throw new Error(`Failed to load template '${templatePath}': ${message}`);
+    }
+}
+
+/**
+ * Load a list of template files concurrently.
+ * Returns a map of template filename (basename) -> content, which is the name
+ * services use to reference a template from x-magic-proxy.
+ */
+export async function loadTemplates(templatePaths: string[]): Promise<Map<string, string>> {
+    const loadResults = await Promise.all(
+        templatePaths.map(async (templatePath) => ({
+            name: path.basename(templatePath),
+            content: await loadTemplate(templatePath),
+        }))
+    );
+
+    const templates = new Map<string, string>();
+    for (const { name, content } of loadResults) {
+        templates.set(name, content);
+        log.debug({ message: 'Template loaded', data: { name } });
+    }
+    return templates;
+}
@@ -2,6 +2,8 @@
  * Small shared helpers for the Traefik backend.
  */
 
+import { isDeepStrictEqual } from 'util';
+
 export function getErrorMessage(err: unknown): string {
     return err instanceof Error ? err.message : String(err);
 }
@@ -9,3 +11,42 @@ export function getErrorMessage(err: unknown): string {
 export function detectCollisions<T>(target: Record<string, T> = {}, source: Record<string, T> = {}): string[] {
     return Object.keys(source).filter(k => k in target);
 }
+
+/** Result of deepMerge: the merged object and the dotted paths that collided */
+export type DeepMergeResult = {
+    merged: Record<string, unknown>;
+    collisions: string[];
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Deep-merge source into target without mutating either.
+ * Nested objects are merged key by key; any other value defined on both sides
+ * is a collision unless both sides are deeply equal. On collision the target
+ * value is kept and the dotted path is reported.
+ */
+export function deepMerge(target: Record<string, unknown>, source: Record<string, unknown>, path: string[] = []): DeepMergeResult {
+    const merged: Record<string, unknown> = { ...target };
+    const collisions: string[] = [];
+
+    for (const [key, value] of Object.entries(source)) {
+        if (!(key in merged)) {
+            merged[key] = value;
+            continue;
+        }
+
+        const existing = merged[key];
+        if (isPlainObject(existing) && isPlainObject(value)) {
+            const nested = deepMerge(existing, value, [...path, key]);
+            merged[key] = nested.merged;
+            collisions.push(...nested.collisions);
+        } else if (!isDeepStrictEqual(existing, value)) {
+            collisions.push([...path, key].join('.'));
+        }
+    }
+
+    return { merged, collisions };
+}
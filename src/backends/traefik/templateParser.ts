@@ -1,38 +1,176 @@
 import yaml from 'js-yaml';
-import { XMagicProxyData } from '../../types/xmagic';
+import nunjucks from 'nunjucks';
+import { getHostnames, getTemplateNames, XMagicProxyData } from '../../types/xmagic';
+import { MagicProxyConfigFile } from '../../types/config';
 import { zone } from '../../logging/zone';
 import { getErrorMessage } from './helpers';
 
 const log = zone('backends.traefik.template');
 
-/** Pattern for template variables: {{ variable_name }} or {{ object.property }} */
-const VARIABLE_PATTERN = /{{\s*([a-zA-Z0-9_.]+)\s*}}/g;
+/**
+ * Pattern for template variables: {{ variable_name }} or {{ object.property }},
+ * optionally followed by filters: {{ name | upper }}, {{ port | default(8080) }}.
+ * Filter arguments may also follow a colon ({{ port | default: 8080 }}), but
+ * only the call syntax is shared with nunjucks.
+ */
+const VARIABLE_PATTERN = /{{\s*([a-zA-Z0-9_.]+)((?:\s*\|\s*[a-zA-Z0-9_]+(?:\s*:\s*(?:"[^"]*"|'[^']*'|[^|}\s]+)|\s*\(\s*(?:"[^"]*"|'[^']*'|[^|}\s()]+)\s*\))?)*)\s*}}/g;
+
+/** Pattern for a single filter within a placeholder: | name, | name(argument) or | name: argument */
+const FILTER_PATTERN = /\|\s*([a-zA-Z0-9_]+)(?:\s*:\s*("[^"]*"|'[^']*'|[^|}\s]+)|\s*\(\s*("[^"]*"|'[^']*'|[^|}\s()]+)\s*\))?/g;
 
 /** Pattern for valid userData key names (alphanumeric and underscores only, no dots) */
 const VALID_KEY_PATTERN = /^[a-zA-Z0-9_]+$/;
 
+/** Template file extension that opts a single template into the nunjucks engine */
+const NUNJUCKS_EXTENSION = '.njk';
+
+/**
+ * Template engines:
+ * - builtin: plain {{ variable }} substitution
+ * - nunjucks: full nunjucks syntax (conditionals, loops, filters)
+ */
+export type TemplateEngine = NonNullable<MagicProxyConfigFile['templateEngine']>;
+
+/** String filters available in builtin placeholders (besides `default`, `join` and `json`) */
+const STRING_FILTERS: Record<string, (value: string) => string> = {
+    lower: value => value.toLowerCase(),
+    upper: value => value.toUpperCase(),
+    slug: value => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, ''),
+    quote: value => JSON.stringify(value),
+    base64: value => Buffer.from(value, 'utf-8').toString('base64'),
+};
+
+/** A filter parsed from a placeholder, e.g. `default(10)` */
+type Filter = {
+    name: string;
+    arg?: string;
+};
+
+/**
+ * Parse the filter chain following a placeholder's variable name.
+ * Quoted arguments have their quotes removed.
+ */
+function parseFilters(chain: string): Filter[] {
+    return Array.from(chain.matchAll(FILTER_PATTERN), ([, name, colonArg, callArg]) => {
+        const arg = colonArg ?? callArg;
+        return { name, arg: arg !== undefined && /^(["']).*\1$/.test(arg) ? arg.slice(1, -1) : arg };
+    });
+}
+
+/**
+ * Apply a filter chain to a resolved value.
+ * `default` supplies a value when the variable is missing or empty; every other
+ * filter passes a missing value through so it is reported as unknown.
+ * `join` joins a list with an optional separator (default ",").
+ * Throws on unknown filters or misuse.
+ */
+function applyFilters(value: unknown, filters: Filter[]): unknown {
+    for (const { name, arg } of filters) {
+        if (name === 'default') {
+            if (arg === undefined) {
+                throw new Error(`Template filter 'default' requires a value, e.g. default(10)`);
+            }
+            if (value === undefined || value === '') {
+                value = arg;
+            }
+            continue;
+        }
+
+        if (name === 'join') {
+            if (Array.isArray(value)) {
+                value = value.join(arg ?? ',');
+            }
+            continue;
+        }
+
+        if (arg !== undefined) {
+            throw new Error(`Template filter '${name}' does not take an argument`);
+        }
+
+        if (name === 'json') {
+            value = value === undefined ? undefined : JSON.stringify(value);
+            continue;
+        }
+
+        const filter = STRING_FILTERS[name];
+        if (!filter) {
+            const available = ['default', 'join', 'json', ...Object.keys(STRING_FILTERS)].join(', ');
+            throw new Error(`Unknown template filter '${name}'. Available filters: ${available}`);
+        }
+        if (value !== undefined) {
+            if (typeof value === 'object') {
+                throw new Error(`Template filter '${name}' cannot be applied to a list; use join or json first`);
+            }
+            value = filter(String(value));
+        }
+    }
+    return value;
+}
+
+/** Lazily created nunjucks environment shared by all renders */
+let nunjucksEnv: nunjucks.Environment | null = null;
+
+function getNunjucksEnv(): nunjucks.Environment {
+    if (!nunjucksEnv) {
+        // No loader: templates are rendered from strings. Output is YAML/config
+        // text rather than HTML, so autoescaping is disabled.
+        nunjucksEnv = new nunjucks.Environment(null, {
+            autoescape: false,
+            throwOnUndefined: true,
+            trimBlocks: true,
+            lstripBlocks: true,
+        });
+        // Shared with the builtin engine, so templates and partials using it
+        // (e.g. `servers: {{ servers | json }}`) render with either engine
+        nunjucksEnv.addFilter('json', (value: unknown) => JSON.stringify(value));
+    }
+    return nunjucksEnv;
+}
+
 /**
  * Build the context object from app name and proxy data.
  * Core keys (app_name, hostname, target_url) cannot be overwritten by userData.
  * Supports both:
  * - Flat keys: {{ port }} (for backward compatibility)
  * - Nested access: {{ userData.port }} (explicit namespace)
+ * For services with several hostnames, `hostname` is the primary (first) one,
+ * `hostnames` lists all of them and `host_rule` is a ready-made Traefik rule
+ * matching any of them: Host(`a`) || Host(`b`).
+ * For scaled services, `target_urls` lists every replica's target and
+ * `servers` is a ready-made Traefik loadBalancer.servers list
+ * (`servers: {{ servers | json }}`); `target_url` is the first one.
+ * `app_name` is the registration name with `/` (used in route and namespace
+ * keys, e.g. `web/admin`) replaced by `-`, so it can be used in identifiers
+ * and hostnames; `route` is the route's name, or empty for the primary route.
  */
+type ContextValue = string | string[];
+
 type Context = {
     app_name: string;
+    route: string;
     hostname: string;
+    hostnames: string[];
+    host_rule: string;
     target_url: string;
-    userData: Record<string, string>;
-    [key: string]: string | Record<string, string>;
+    target_urls: string[];
+    servers: { url: string }[];
+    userData: Record<string, ContextValue>;
+    [key: string]: ContextValue | Record<string, ContextValue> | { url: string }[];
 };
 
-function buildContext(appName: string, data: XMagicProxyData): Context {
-    const CORE_KEYS = new Set(['app_name', 'hostname', 'target_url', 'userData']);
+function buildContext(appName: string, data: XMagicProxyData, targets: string[] = [data.target], route = ''): Context {
+    const CORE_KEYS = new Set(['app_name', 'route', 'hostname', 'hostnames', 'host_rule', 'target_url', 'target_urls', 'servers', 'userData']);
+    const hostnames = getHostnames(data);
     
     const context: Context = {
-        app_name: appName,
-        hostname: data.hostname,
-        target_url: data.target,
+        app_name: appName.replace(/\//g, '-'),
+        route,
+        hostname: hostnames[0],
+        hostnames,
+        host_rule: hostnames.map(host => `Host(\`${host}\`)`).join(' || '),
+        target_url: targets[0] ?? data.target,
+        target_urls: targets,
+        servers: targets.map(url => ({ url })),
         userData: {},
     };
 
@@ -41,10 +179,12 @@ function buildContext(appName: string, data: XMagicProxyData): Context {
     if (data.userData && typeof data.userData === 'object') {
         for (const [key, value] of Object.entries(data.userData)) {
             if (VALID_KEY_PATTERN.test(key) && !CORE_KEYS.has(key)) {
-                const stringValue = value == null ? '' : String(value);
+                const contextValue = Array.isArray(value)
+                    ? value.map(item => String(item))
+                    : value == null ? '' : String(value);
                 // Add to both flat keys ({{ port }}) and nested namespace ({{ userData.port }})
-                context[key] = stringValue;
-                context.userData[key] = stringValue;
+                context[key] = contextValue;
+                context.userData[key] = contextValue;
             }
         }
     }
@@ -52,6 +192,29 @@ function buildContext(appName: string, data: XMagicProxyData): Context {
     return context;
 }
 
+/**
+ * Pick the engine for a template: templates named `*.njk` always use nunjucks,
+ * everything else uses the configured default.
+ */
+export function getTemplateEngine(templateName: string, defaultEngine: TemplateEngine = 'builtin'): TemplateEngine {
+    return templateName.endsWith(NUNJUCKS_EXTENSION) ? 'nunjucks' : defaultEngine;
+}
+
+/**
+ * Render a template with nunjucks using the same context as the builtin engine.
+ * Outputting an undefined variable throws, matching the builtin engine.
+ */
+function renderNunjucks(template: string, templateName: string, appName: string, context: Context): string {
+    try {
+        return new nunjucks.Template(template, getNunjucksEnv(), templateName).render(context);
+    } catch (err) {
+        // nunjucks errors span several lines ("(name) [Line x, Column y]\n  reason")
+        const message = `Template rendering failed: ${getErrorMessage(err).replace(/\s*\n\s*/g, ' ')}`;
+        log.error({ message, data: { appName, template: templateName } });
+        throw new Error(message);
+    }
+}
+
 /**
  * Render a template string by replacing {{ variable }} placeholders.
  * 
@@ -60,48 +223,72 @@ function buildContext(appName: string, data: XMagicProxyData): Context {
  * @param template - The template content with {{ variable }} placeholders
  * @param appName - The application name
  * @param data - The proxy configuration data
+ * @param engine - The template engine to render with (default: builtin)
+ * @param targets - Upstream targets, one per replica (default: the data's target)
+ * @param route - The name of the additional route being rendered, if any
  * @returns The rendered template as a string (for testing) or use renderTemplateParsed for parsed object
  * @throws Error if unknown template variables are encountered
  */
-export function renderTemplate(template: string, appName: string, data: XMagicProxyData): string {
-    const context = buildContext(appName, data);
+export function renderTemplate(
+    template: string,
+    appName: string,
+    data: XMagicProxyData,
+    engine: TemplateEngine = 'builtin',
+    targets?: string[],
+    route?: string
+): string {
+    const context = buildContext(appName, data, targets, route);
 
     log.debug({
         message: 'Rendering template',
-        data: { appName, context: { app_name: context.app_name, hostname: context.hostname, target_url: context.target_url } }
+        data: { appName, engine, context: { app_name: context.app_name, hostname: context.hostname, target_url: context.target_url } }
     });
 
+    if (engine === 'nunjucks') {
+        return renderNunjucks(template, getTemplateNames(data).join(', '), appName, context);
+    }
+
     // Track unknown variables
     const unknownVariables: string[] = [];
 
     /**
      * Get a value from context, supporting nested property access with dot notation.
      * e.g., "userData.foo" returns context.userData.foo
-     * Converts primitives (string, number, boolean) to strings for template substitution.
+     * Lists are returned as-is so the json filter can serialize them.
      */
-    function getContextValue(path: string): string | undefined {
+    function getContextValue(path: string): unknown {
         const parts = path.split('.');
         let value: unknown = context;
 
         for (const part of parts) {
-            if (value == null || typeof value !== 'object') {
+            if (value == null || typeof value !== 'object' || Array.isArray(value)) {
                 return undefined;
             }
             value = (value as Record<string, unknown>)[part];
         }
 
+        return value;
+    }
+
+    // Replace all {{ key | filters }} occurrences
+    const rendered = template.replace(VARIABLE_PATTERN, (_match, key: string, chain: string) => {
+        let value: unknown;
+        try {
+            value = applyFilters(getContextValue(key), parseFilters(chain));
+        } catch (err) {
+            const message = getErrorMessage(err);
+            log.error({ message, data: { appName, variable: key } });
+            throw new Error(message);
+        }
+
         // Convert primitives to strings, reject objects/arrays/functions
         if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
             return String(value);
         }
-        return undefined;
-    }
-
-    // Replace all {{ key }} occurrences
-    const rendered = template.replace(VARIABLE_PATTERN, (_match, key: string) => {
-        const value = getContextValue(key);
-        if (value !== undefined) {
-            return value;
+        if (Array.isArray(value)) {
+            const message = `Template variable '${key}' is a list; use the join or json filter`;
+            log.error({ message, data: { appName, variable: key } });
+            throw new Error(message);
         }
         // Track unknown variable for error reporting
         unknownVariables.push(key);
@@ -132,11 +319,21 @@ export type RenderResult<T> = {
  * @param template - The template content with {{ variable }} placeholders
  * @param appName - The application name
  * @param data - The proxy configuration data
+ * @param engine - The template engine to render with (default: builtin)
+ * @param targets - Upstream targets, one per replica (default: the data's target)
+ * @param route - The name of the additional route being rendered, if any
  * @returns Object containing both raw string and parsed YAML
  * @throws Error if unknown template variables are encountered or YAML is invalid
  */
-export function renderTemplateParsed<T = unknown>(template: string, appName: string, data: XMagicProxyData): RenderResult<T> {
-    const raw = renderTemplate(template, appName, data);
+export function renderTemplateParsed<T = unknown>(
+    template: string,
+    appName: string,
+    data: XMagicProxyData,
+    engine: TemplateEngine = 'builtin',
+    targets?: string[],
+    route?: string
+): RenderResult<T> {
+    const raw = renderTemplate(template, appName, data, engine, targets, route);
     
     try {
         const parsed = yaml.load(raw) as T;
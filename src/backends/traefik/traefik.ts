@@ -1,12 +1,12 @@
-import fs from 'fs/promises';
-import path from 'path';
-import { OUTPUT_DIRECTORY, CONFIG_DIRECTORY } from '../../config';
-import { renderTemplateParsed } from './templateParser';
-import { getErrorMessage } from './helpers';
+import { getTemplateEngine, renderTemplateParsed, TemplateEngine } from './templateParser';
+import { deepMerge, getErrorMessage } from './helpers';
 import { TraefikConfigYamlFormat } from './types/traefik';
 import * as manager from './traefikManager';
+import { loadTemplates } from '../templateLoader';
+import { resolveOutputPath } from '../outputWriter';
+import { getUpstreams } from '../upstreams';
 import { MagicProxyConfigFile } from '../../types/config';
-import { XMagicProxyData } from '../../types/xmagic';
+import { getTemplateNames, XMagicProxyData } from '../../types/xmagic';
 import { HostEntry } from '../../types/host';
 import { zone } from '../../logging/zone';
 
@@ -15,48 +15,52 @@ const log = zone('backends.traefik');
 /** Template storage: maps template filename -> content */
 const templates = new Map<string, string>();
 
-/**
- * Load a template file from disk.
- * Relative paths are resolved against CONFIG_DIRECTORY.
- */
-async function loadTemplate(templatePath: string): Promise<string> {
-    const resolved = path.isAbsolute(templatePath)
-        ? templatePath
-        : path.resolve(CONFIG_DIRECTORY, templatePath);
-
-    log.debug({ message: 'Loading template', data: { templatePath, resolved } });
-
-    try {
-        return await fs.readFile(resolved, 'utf-8');
-    } catch (err) {
-        const message = getErrorMessage(err);
-        log.error({ message: 'Failed to load template', data: { templatePath, resolved, error: message } });
-        throw new Error(`Failed to load template '${templatePath}': ${message}`);
-    }
-}
+/** Default template engine from config.templateEngine */
+let templateEngine: TemplateEngine = 'builtin';
 
 /**
- * Creates a Traefik config fragment by rendering the appropriate template.
- * Returns null if template rendering fails (template not found or render error).
+ * Creates a Traefik config fragment by rendering the app's template(s).
+ * When several templates are listed, their fragments are deep-merged in order;
+ * a value defined differently by two templates is a collision.
+ * Templates receive every upstream target for scaled services.
+ * Returns null if rendering fails (template not found, render error or collision).
  */
-function makeAppConfig(appName: string, data: XMagicProxyData): TraefikConfigYamlFormat | null {
-    const templateContent = templates.get(data.template);
-    if (!templateContent) {
-        const available = Array.from(templates.keys()).join(', ') || '(none)';
-        log.error({ message: 'Template not found', data: { appName, template: data.template, available } });
-        return null;
+function makeAppConfig(appName: string, data: XMagicProxyData, targets: string[], route?: string): TraefikConfigYamlFormat | null {
+    let config: Record<string, unknown> = {};
+
+    for (const templateName of getTemplateNames(data)) {
+        const templateContent = templates.get(templateName);
+        if (!templateContent) {
+            const available = Array.from(templates.keys()).join(', ') || '(none)';
+            log.error({ message: 'Template not found', data: { appName, template: templateName, available } });
+            return null;
+        }
+
+        let parsed: TraefikConfigYamlFormat;
+        try {
+            ({ parsed } = renderTemplateParsed<TraefikConfigYamlFormat>(
+                templateContent, appName, { ...data, template: templateName }, getTemplateEngine(templateName, templateEngine), targets, route
+            ));
+        } catch (err) {
+            log.error({
+                message: 'Failed to render template',
+                data: { appName, template: templateName, error: getErrorMessage(err) }
+            });
+            return null;
+        }
+
+        const { merged, collisions } = deepMerge(config, (parsed ?? {}) as Record<string, unknown>);
+        if (collisions.length > 0) {
+            log.error({
+                message: 'Templates define conflicting values',
+                data: { appName, template: templateName, collisions }
+            });
+            return null;
+        }
+        config = merged;
     }
 
-    try {
-        const { parsed } = renderTemplateParsed<TraefikConfigYamlFormat>(templateContent, appName, data);
-        return parsed;
-    } catch (err) {
-        log.error({
-            message: 'Failed to render template',
-            data: { appName, error: getErrorMessage(err) }
-        });
-        return null;
-    }
+    return config as TraefikConfigYamlFormat;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -70,6 +74,7 @@ export function _setTemplateForTesting(name: string, content: string): void {
 export function _resetForTesting(): void {
     manager._resetForTesting?.();
     templates.clear();
+    templateEngine = 'builtin';
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -92,17 +97,12 @@ export async function initialize(config?: MagicProxyConfigFile): Promise<void> {
     log.debug({ message: 'Initializing Traefik backend', data: { templateCount: templatePaths.length } });
     
     // Load all templates concurrently
-    const loadResults = await Promise.all(
-        templatePaths.map(async (templatePath) => ({
-            name: path.basename(templatePath),
-            content: await loadTemplate(templatePath),
-        }))
-    );
+    const loaded = await loadTemplates(templatePaths);
+    templateEngine = config.templateEngine ?? 'builtin';
 
     templates.clear();
-    for (const { name, content } of loadResults) {
+    for (const [name, content] of loaded) {
         templates.set(name, content);
-        log.debug({ message: 'Template loaded', data: { name } });
     }
 
     if (templates.size === 0) {
@@ -112,9 +112,7 @@ export async function initialize(config?: MagicProxyConfigFile): Promise<void> {
     // Configure output file
     const outputFile = config.traefik?.outputFile;
     if (outputFile) {
-        const resolved = path.isAbsolute(outputFile)
-            ? outputFile
-            : path.resolve(OUTPUT_DIRECTORY, outputFile);
+        const resolved = resolveOutputPath(outputFile);
         manager.setOutputFile(resolved);
         log.debug({ message: 'Output file configured', data: { outputFile: resolved } });
     }
@@ -133,7 +131,7 @@ export async function addProxiedApp(entry: HostEntry): Promise<void> {
         data: { containerName, hostname: xMagicProxy.hostname, target: xMagicProxy.target, template: xMagicProxy.template }
     });
 
-    const config = makeAppConfig(containerName, xMagicProxy);
+    const config = makeAppConfig(containerName, xMagicProxy, getUpstreams(entry), entry.route);
     if (config === null) {
         log.error({
             message: 'Skipping host due to template rendering failure',
@@ -1,25 +1,17 @@
-import fs from 'fs/promises';
-import path from 'path';
 import yaml from 'js-yaml';
 import { TraefikConfigYamlFormat } from './types/traefik';
 import { validateGeneratedConfig } from './validators';
 import { detectCollisions } from './helpers';
+import { createOutputFile } from '../outputWriter';
 import { zone } from '../../logging/zone';
 
 const log = zone('backends.traefik.manager');
 
 // Registry of app configs keyed by app name
 const registry = new Map<string, TraefikConfigYamlFormat>();
-let outputFile: string | null = null;
 
-// Track whether temp file cleanup has been performed for current output file
-let tempFilesCleanedUp = false;
-
-// Pending flush state for debouncing multiple rapid flushToDisk() calls
-let pendingFlush: {
-    resolvers: Array<{ resolve: () => void; reject: (err: Error) => void }>;
-    scheduled: boolean;
-} | null = null;
+// Generated config file, rendered and written by flushToDisk()
+const output = createOutputFile(renderOutput);
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Config Building
@@ -74,72 +66,16 @@ function buildCombinedConfig(): TraefikConfigYamlFormat {
     return combined;
 }
 
-// ─────────────────────────────────────────────────────────────────────────────
-// File Operations
-// ─────────────────────────────────────────────────────────────────────────────
-
-/**
- * Clean up stale .tmp files for a given target file.
- */
-async function cleanupTempFiles(filePath: string): Promise<void> {
-    const dir = path.dirname(filePath);
-    const baseName = path.basename(filePath);
-    
-    try {
-        const files = await fs.readdir(dir);
-        const tmpFiles = files.filter(f => f.startsWith(baseName) && f.endsWith('.tmp'));
-        
-        await Promise.all(
-            tmpFiles.map(tmpFile => 
-                fs.unlink(path.join(dir, tmpFile)).catch(() => { })
-            )
-        );
-        
-        if (tmpFiles.length > 0) {
-            log.debug({ message: 'Cleaned up temp files', data: { count: tmpFiles.length } });
-        }
-    } catch (err) {
-        // Ignore errors from directory read (e.g., directory doesn't exist yet)
-        log.debug({ message: 'Could not clean temp files', data: { error: err } });
-    }
-}
-
-/**
- * Write YAML atomically using temp file + rename pattern.
- */
-async function writeAtomically(filePath: string, content: string): Promise<void> {
-    const tmpFile = `${filePath}.${process.pid}-${Date.now()}.tmp`;
-
-    try {
-        await fs.mkdir(path.dirname(filePath), { recursive: true });
-        // Clean up any stale temp files on first write only
-        if (!tempFilesCleanedUp) {
-            await cleanupTempFiles(filePath);
-            tempFilesCleanedUp = true;
-        }
-        await fs.writeFile(tmpFile, content, 'utf-8');
-        await fs.rename(tmpFile, filePath);
-        log.debug({ message: 'Config written', data: { filePath } });
-    } catch (err) {
-        // Clean up temp file on failure
-        await fs.unlink(tmpFile).catch(() => { });
-        throw err;
-    }
-}
-
 // ─────────────────────────────────────────────────────────────────────────────
 // Public API
 // ─────────────────────────────────────────────────────────────────────────────
 
 export function setOutputFile(file: string | null): void {
-    if (file !== outputFile) {
-        tempFilesCleanedUp = false; // Reset cleanup flag for new file
-    }
-    outputFile = file;
+    output.setPath(file);
 }
 
 export function getOutputFile(): string | null {
-    return outputFile;
+    return output.getPath();
 }
 
 /**
@@ -151,64 +87,23 @@ export function getOutputFile(): string | null {
  * file contains the complete configuration.
  */
 export function flushToDisk(): Promise<void> {
-    return new Promise((resolve, reject) => {
-        // Add this caller to the list of resolvers
-        if (!pendingFlush) {
-            pendingFlush = { resolvers: [], scheduled: false };
-        }
-        pendingFlush.resolvers.push({ resolve, reject });
-
-        // Schedule the actual flush if not already scheduled
-        if (!pendingFlush.scheduled) {
-            pendingFlush.scheduled = true;
-
-            // Use setImmediate to defer the write until after all synchronous
-            // register() calls have completed in the current event loop tick
-            setImmediate(() => {
-                executeFlush();
-            });
-        }
-    });
-}
-
-/**
- * Execute the actual flush operation and resolve/reject all pending callers.
- */
-async function executeFlush(): Promise<void> {
-    const flush = pendingFlush;
-    pendingFlush = null;
-
-    if (!flush) return;
-
-    try {
-        await doFlushToDisk();
-        flush.resolvers.forEach(r => r.resolve());
-    } catch (err) {
-        const error = err instanceof Error ? err : new Error(String(err));
-        flush.resolvers.forEach(r => r.reject(error));
-    }
+    return output.flush();
 }
 
 /**
- * Internal implementation of flush - writes the current combined config to disk.
+ * Render the combined config as YAML for writing, validating it first.
  */
-async function doFlushToDisk(): Promise<void> {
-    if (!outputFile) {
-        log.debug({ message: 'No output file configured, skipping flush' });
-        return;
-    }
-
+function renderOutput(): string {
     const combined = buildCombinedConfig();
     const yamlText = yaml.dump(combined, { noRefs: true, skipInvalid: true });
 
-    // Validate before writing
     const validation = validateGeneratedConfig(yamlText);
     if (!validation.valid) {
         log.error({ message: 'Generated config validation failed', data: { error: validation.error } });
         throw new Error(`Invalid config generated: ${validation.error}`);
     }
 
-    await writeAtomically(outputFile, yamlText);
+    return yamlText;
 }
 
 /**
@@ -267,7 +162,5 @@ export function listRegisteredApps(): string[] {
  */
 export function _resetForTesting(): void {
     registry.clear();
-    outputFile = null;
-    pendingFlush = null;
-    tempFilesCleanedUp = false;
+    output.reset();
 }
@@ -0,0 +1,13 @@
+import { HostEntry } from '../types/host';
+
+/**
+ * Get the upstream target URLs of a host entry: one per active replica of a
+ * scaled service (duplicates removed), otherwise the entry's own target.
+ */
+export function getUpstreams(entry: HostEntry): string[] {
+    const replicas = entry.replicas?.filter(replica => replica.isActive !== false) ?? [];
+    if (replicas.length === 0) {
+        return [entry.xMagicProxy.target];
+    }
+    return [...new Set(replicas.map(replica => replica.target))];
+}
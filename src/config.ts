@@ -1,7 +1,7 @@
 import fs from 'fs';
 import yaml from 'js-yaml';
 import isDocker from "is-docker";
-import { MagicProxyConfigFile } from './types/config';
+import { DockerEngineConfig, MagicProxyConfigFile, ProviderName, ProxyBackendName } from './types/config';
 
 // Configuration directories - use environment variables or sensible defaults
 export const CONFIG_DIRECTORY = process.env.CONFIG_DIRECTORY || (isDocker() ? '/var/config/' : './config/');
@@ -22,8 +22,29 @@ export function getDefaultConfigFile(): string {
 // For backwards compatibility
 export const DEFAULT_CONFIG_FILE = getDefaultConfigFile();
 
+/** Valid template engine names */
+const VALID_TEMPLATE_ENGINES: readonly ['builtin', 'nunjucks'] = ['builtin', 'nunjucks'];
+
+/** Valid provider names */
+const VALID_PROVIDERS: readonly ['docker', 'podman', 'file', 'swarm'] = ['docker', 'podman', 'file', 'swarm'];
+
+/** Providers started when the config file does not list any */
+const DEFAULT_PROVIDERS: ProviderName[] = ['docker'];
+
+/** Docker engine names prefix container names, so keep them simple */
+const ENGINE_NAME_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+/** Supported docker.engines host protocols */
+const VALID_ENGINE_PROTOCOLS = ['tcp:', 'ssh:', 'unix:'];
+
+/** Valid values for docker.labels */
+const VALID_LABEL_MODES: readonly ['fallback', 'prefer', 'ignore'] = ['fallback', 'prefer', 'ignore'];
+
+/** Valid swarm target modes */
+const VALID_SWARM_TARGETS: readonly ['dns', 'vip'] = ['dns', 'vip'];
+
 /** Valid proxy backend names */
-const VALID_BACKENDS: readonly ['traefik'] = ['traefik'];
+const VALID_BACKENDS: readonly ['traefik', 'nginx', 'caddy', 'haproxy'] = ['traefik', 'nginx', 'caddy', 'haproxy'];
 
 /**
  * Load and validate a configuration file.
@@ -40,13 +61,122 @@ export async function loadConfigFile(path?: string): Promise<MagicProxyConfigFil
     }
 }
 
+/**
+ * Get the configured backend names as a list.
+ * `proxyBackend` may be a single name or a list of names.
+ */
+export function getProxyBackends(config: MagicProxyConfigFile): ProxyBackendName[] {
+    const value = config.proxyBackend;
+    if (!value) return [];
+    return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Get the configured provider names (default: docker).
+ */
+export function getProviders(config: MagicProxyConfigFile): ProviderName[] {
+    return config.providers ?? DEFAULT_PROVIDERS;
+}
+
+/**
+ * Validate docker.engines: unique simple names (they prefix container names)
+ * and a supported host address for each engine.
+ */
+function validateDockerEngines(engines: unknown): void {
+    if (engines === undefined) return;
+    if (!Array.isArray(engines)) {
+        throw new Error('Invalid docker.engines in config file. Must be a list');
+    }
+
+    const names = new Set<string>();
+    for (const engine of engines as DockerEngineConfig[]) {
+        if (typeof engine?.name !== 'string' || !ENGINE_NAME_PATTERN.test(engine.name)) {
+            throw new Error('Invalid docker.engines entry: name may only contain letters, digits, - and _');
+        }
+        if (names.has(engine.name)) {
+            throw new Error(`Duplicate docker engine name in config file: '${engine.name}'`);
+        }
+        names.add(engine.name);
+
+        const protocol = typeof engine.host === 'string' ? engine.host.split('//')[0] : '';
+        if (!VALID_ENGINE_PROTOCOLS.includes(protocol)) {
+            throw new Error(`Invalid host for docker engine '${engine.name}'. Must start with one of: ${VALID_ENGINE_PROTOCOLS.map(p => `${p}//`).join(', ')}`);
+        }
+        if (engine.tls && protocol !== 'tcp:') {
+            throw new Error(`Docker engine '${engine.name}' sets tls but is not a tcp:// engine`);
+        }
+    }
+}
+
 /**
  * Validate configuration object.
  * Throws if invalid.
  */
 export function validateConfig(config: MagicProxyConfigFile): boolean {
-    if (!config.proxyBackend || !VALID_BACKENDS.includes(config.proxyBackend)) {
-        throw new Error(`Invalid proxyBackend in config file. Must be one of: ${VALID_BACKENDS.join(', ')}`);
+    const backends = getProxyBackends(config);
+    if (backends.length === 0 || !backends.every(name => VALID_BACKENDS.includes(name))) {
+        throw new Error(`Invalid proxyBackend in config file. Must be one or more of: ${VALID_BACKENDS.join(', ')}`);
+    }
+    const duplicate = backends.find((name, i) => backends.indexOf(name) !== i);
+    if (duplicate) {
+        throw new Error(`Duplicate proxyBackend in config file: '${duplicate}'`);
+    }
+    if (config.templateEngine !== undefined && !VALID_TEMPLATE_ENGINES.includes(config.templateEngine)) {
+        throw new Error(`Invalid templateEngine in config file. Must be one of: ${VALID_TEMPLATE_ENGINES.join(', ')}`);
+    }
+    const providers = getProviders(config);
+    if (!Array.isArray(providers) || providers.length === 0 || !providers.every(name => VALID_PROVIDERS.includes(name))) {
+        throw new Error(`Invalid providers in config file. Must be a list of one or more of: ${VALID_PROVIDERS.join(', ')}`);
+    }
+    const duplicateProvider = providers.find((name, i) => providers.indexOf(name) !== i);
+    if (duplicateProvider) {
+        throw new Error(`Duplicate provider in config file: '${duplicateProvider}'`);
+    }
+    if (providers.includes('file') && !config.file) {
+        throw new Error('The file provider requires file.path in the config file');
+    }
+    if (config.docker?.labels !== undefined && !VALID_LABEL_MODES.includes(config.docker.labels)) {
+        throw new Error(`Invalid docker.labels in config file. Must be one of: ${VALID_LABEL_MODES.join(', ')}`);
+    }
+    if (config.docker?.healthAware !== undefined && typeof config.docker.healthAware !== 'boolean') {
+        throw new Error('Invalid docker.healthAware in config file. Must be true or false');
+    }
+    for (const provider of ['docker', 'podman', 'swarm'] as const) {
+        for (const key of ['syncIntervalMs', 'reconcileIntervalMs'] as const) {
+            const interval = config[provider]?.[key];
+            if (interval !== undefined && (typeof interval !== 'number' || !Number.isFinite(interval) || interval < 0)) {
+                throw new Error(`Invalid ${provider}.${key} in config file. Must be a non-negative number`);
+            }
+        }
+    }
+    for (const key of ['network', 'proxyContainer'] as const) {
+        if (config.docker?.[key] !== undefined && typeof config.docker[key] !== 'string') {
+            throw new Error(`Invalid docker.${key} in config file. Must be a string`);
+        }
+    }
+    validateDockerEngines(config.docker?.engines);
+    if (config.podman?.labels !== undefined && !VALID_LABEL_MODES.includes(config.podman.labels)) {
+        throw new Error(`Invalid podman.labels in config file. Must be one of: ${VALID_LABEL_MODES.join(', ')}`);
+    }
+    if (config.podman?.healthAware !== undefined && typeof config.podman.healthAware !== 'boolean') {
+        throw new Error('Invalid podman.healthAware in config file. Must be true or false');
+    }
+    if (config.podman?.socketPath !== undefined && typeof config.podman.socketPath !== 'string') {
+        throw new Error('Invalid podman.socketPath in config file. Must be a string');
+    }
+    if (config.swarm?.labels !== undefined && !VALID_LABEL_MODES.includes(config.swarm.labels)) {
+        throw new Error(`Invalid swarm.labels in config file. Must be one of: ${VALID_LABEL_MODES.join(', ')}`);
+    }
+    if (config.swarm?.target !== undefined && !VALID_SWARM_TARGETS.includes(config.swarm.target)) {
+        throw new Error(`Invalid swarm.target in config file. Must be one of: ${VALID_SWARM_TARGETS.join(', ')}`);
+    }
+    const stacks = config.swarm?.stacks;
+    if (stacks !== undefined && (typeof stacks !== 'object' || stacks === null || Array.isArray(stacks)
+        || !Object.values(stacks).every(stackPath => typeof stackPath === 'string'))) {
+        throw new Error('Invalid swarm.stacks in config file. Must map stack names to stack file paths');
+    }
+    if (config.file !== undefined && typeof config.file?.path !== 'string') {
+        throw new Error('Invalid file provider config. file.path must be a string');
     }
     return true;
-}
\ No newline at end of file
+}
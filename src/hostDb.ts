@@ -21,12 +21,14 @@ export class HostDB extends EventEmitter {
                     xMagicProxy: old.xMagicProxy,
                     composeFilePath: old.composeFilePath,
                     composeData: old.composeData,
+                    replicas: old.replicas,
                     state: old.state,
                 }) !==
                 JSON.stringify({
                     xMagicProxy: entry.xMagicProxy,
                     composeFilePath: entry.composeFilePath,
                     composeData: entry.composeData,
+                    replicas: entry.replicas,
                     state: entry.state,
                 });
 
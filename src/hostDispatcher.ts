@@ -4,17 +4,27 @@ import * as backendPlugin from './backends/backendPlugin';
 
 /**
  * Attach HostDB events to backend plugin calls.
+ * The backend plugin forwards each call to every active backend.
  * - on 'added' and 'updated' -> call backendPlugin.addProxiedApp(entry)
  * - on 'removed' -> call backendPlugin.removeProxiedApp(entry.containerName)
+ * Entries with state.isActive === false (stopped or unhealthy containers with
+ * health-aware routing) are withdrawn from the backends instead of added.
  */
 export function attachHostDbToBackend(hostDb: HostDB) {
     hostDb.on('added', (entry: HostEntry) => {
+        if (entry.state.isActive === false) return;
         backendPlugin.addProxiedApp(entry).catch(err => {
             console.error('Error sending added host to backend:', entry.containerName, err instanceof Error ? err.message : String(err));
         });
     });
 
     hostDb.on('updated', (entry: HostEntry) => {
+        if (entry.state.isActive === false) {
+            backendPlugin.removeProxiedApp(entry.containerName).catch(err => {
+                console.error('Error withdrawing inactive host from backend:', entry.containerName, err instanceof Error ? err.message : String(err));
+            });
+            return;
+        }
         backendPlugin.addProxiedApp(entry).catch(err => {
             console.error('Error sending updated host to backend:', entry.containerName, err instanceof Error ? err.message : String(err));
         });
@@ -1,7 +1,7 @@
 import { loadConfigFile } from './config';
 import { initialize as initializeBackend } from './backends/backendPlugin';
 import { HostDB } from './hostDb';
-import { DockerProvider } from './providers/docker';
+import { startProviders, stopProviders } from './providers/providerPlugin';
 import { MagicProxyConfigFile } from './types/config';
 import { zone } from './logging/zone';
 import { startWatchingConfigFile, resetRestartFlag } from './configWatcher';
@@ -12,7 +12,6 @@ log.debug({
     message: 'Starting Magic Proxy application',
 });
 
-let dockerProvider: DockerProvider | null = null;
 let configWatcherInitialized = false;
 let stopAPI: (() => void) | null = null;
 
@@ -30,12 +29,11 @@ export async function startApp(config?: MagicProxyConfigFile) {
         // to the proxy backend for registration.
         import('./hostDispatcher').then(mod => mod.attachHostDbToBackend(hostDb));
 
-        // Start Docker provider for real-time container monitoring
-        dockerProvider = new DockerProvider(hostDb);
-        await dockerProvider.start();
+        // Start the configured providers (Docker by default); they all feed HostDB
+        await startProviders(hostDb, cfg);
 
         log.debug({
-            message: 'Docker provider started - monitoring for container changes'
+            message: 'Providers started - monitoring for host changes'
         });
 
         // Handle API based on config
@@ -76,10 +74,7 @@ async function handleConfigChange(newConfig: MagicProxyConfigFile): Promise<void
     });
     
     // Clean up current app
-    if (dockerProvider) {
-        dockerProvider.stop();
-        dockerProvider = null;
-    }
+    stopProviders();
     
     // Restart with new config
     await startApp(newConfig);
@@ -88,9 +83,7 @@ async function handleConfigChange(newConfig: MagicProxyConfigFile): Promise<void
 // Graceful shutdown handler
 const shutdown = () => {
     log.info({ message: 'Shutting down gracefully...' });
-    if (dockerProvider) {
-        dockerProvider.stop();
-    }
+    stopProviders();
     process.exit(0);
 };
 
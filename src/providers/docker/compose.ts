@@ -1,11 +1,17 @@
 import Docker from 'dockerode';
 import fs from 'fs';
+import path from 'path';
 import yaml from 'js-yaml';
 import isDocker from 'is-docker';
 import { ComposeFileData } from '../../types/docker';
 import { XMagicProxyData, XMagicProxySchema } from '../../types/xmagic';
 import { zone } from '../../logging/zone';
-import { ComposeFileReference, COMPOSE_CONFIG_LABEL, COMPOSE_SERVICE_LABEL } from './types';
+import { ComposeFileReference, COMPOSE_CONFIG_LABEL, COMPOSE_SERVICE_LABEL, PathResolver } from './types';
+import { hasMagicProxyLabels } from './labels';
+import { mergeComposeData, mergeValues } from './composeMerge';
+import { ComposeVariables, interpolateComposeData, parseEnvFile } from './composeInterpolation';
+import { ComposeInclude, ComposeIncludeLoader, resolveComposeExtends, resolveComposeIncludes, resolveComposeReferences } from './composeResolve';
+import { ComposeFileCache } from './composeCache';
 
 const log = zone('providers.docker');
 
@@ -39,7 +45,15 @@ export function getServiceName(container: Docker.ContainerInfo): string | undefi
 }
 
 /**
- * Groups containers by their Docker Compose file path
+ * Splits a config_files label into its files. Projects started with several
+ * `-f` files, or with a docker-compose.override.yml, list them comma-separated.
+ */
+export function splitComposeFiles(value: string): string[] {
+    return value.split(',').map(file => file.trim()).filter(Boolean);
+}
+
+/**
+ * Groups containers by their Docker Compose project files
  */
 export function groupContainersByComposeFile(
     containers: Docker.ContainerInfo[]
@@ -48,72 +62,266 @@ export function groupContainersByComposeFile(
     const orphanContainers: Docker.ContainerInfo[] = [];
 
     for (const container of containers) {
-        const composePath = container.Labels[COMPOSE_CONFIG_LABEL];
+        const files = splitComposeFiles(container.Labels[COMPOSE_CONFIG_LABEL] ?? '');
 
-        if (composePath) {
-            const existing = composeFileMap.get(composePath) || [];
+        if (files.length > 0) {
+            const key = files.join(',');
+            const existing = composeFileMap.get(key) || [];
             existing.push(container);
-            composeFileMap.set(composePath, existing);
+            composeFileMap.set(key, existing);
         } else {
             orphanContainers.push(container);
         }
     }
 
-    // Warn about containers without compose files
-    if (orphanContainers.length > 0) {
-        const names = orphanContainers.map(c => extractContainerName(c)).join(', ');
+    // Warn about containers without compose files, unless they are configured
+    // through magic-proxy.* labels instead
+    const unconfigured = orphanContainers.filter(c => !hasMagicProxyLabels(c.Labels));
+    if (unconfigured.length > 0) {
+        const names = unconfigured.map(c => extractContainerName(c)).join(', ');
         log.warn({
             message: 'Some containers have no compose file label',
-            data: { count: orphanContainers.length, containerNames: names }
+            data: { count: unconfigured.length, containerNames: names }
         });
     }
 
-    return Array.from(composeFileMap.entries()).map(([path, containers]) => ({
-        path,
-        containers
-    }));
+    return Array.from(composeFileMap.entries()).map(([key, containers]) => {
+        const files = splitComposeFiles(key);
+        return { path: files[0], files, containers };
+    });
+}
+
+/**
+ * Reads and parses a file, through the cache if one is given
+ */
+async function readParsedFile<T>(file: string, parse: (content: string) => T, cache?: ComposeFileCache): Promise<T> {
+    return cache ? cache.read(file, parse) : parse(await fs.promises.readFile(file, 'utf-8'));
 }
 
 /**
- * Reads and parses a Docker Compose file
+ * Reads and parses a Docker Compose file, resolving its `include:` entries
+ * and services' `extends:` relative to the file (through resolvePath).
+ * With a cache, unchanged files are not re-read. The paths of the files
+ * read are added to `readFiles`, if given.
  */
-export async function loadComposeFile(path: string): Promise<ComposeFileData | undefined> {
-    const resolvedPath = resolveHostPath(path);
+export async function loadComposeFile(
+    path: string,
+    resolvePath: PathResolver = resolveHostPath,
+    cache?: ComposeFileCache,
+    readFiles?: Set<string>
+): Promise<ComposeFileData | undefined> {
+    const readFile = async (file: string): Promise<ComposeFileData> => {
+        const data = await readParsedFile(resolvePath(file), content => yaml.load(content) as ComposeFileData, cache);
+        readFiles?.add(file);
+        return data;
+    };
+
+    let data: ComposeFileData;
     try {
-        const content = await fs.promises.readFile(resolvedPath, 'utf-8');
-        return yaml.load(content) as ComposeFileData;
+        data = await readFile(path);
     } catch (error) {
         log.error({
             message: 'Failed to read/parse compose file',
-            data: { path, resolvedPath, error: error instanceof Error ? error.message : String(error) }
+            data: { path, resolvedPath: resolvePath(path), error: error instanceof Error ? error.message : String(error) }
+        });
+        return undefined;
+    }
+
+    if (!data || typeof data !== 'object') {
+        return data;
+    }
+
+    try {
+        return await resolveComposeReferences(data, path, readFile);
+    } catch (error) {
+        log.error({
+            message: 'Failed to resolve compose include/extends',
+            data: { path, error: error instanceof Error ? error.message : String(error) }
         });
         return undefined;
     }
 }
 
 /**
- * Loads compose data for all compose file references
+ * Reads an env file, returning undefined if it does not exist
  */
-export async function loadComposeDataForRefs(
-    docker: Docker
-): Promise<ComposeFileReference[]> {
-    let containers: Docker.ContainerInfo[];
+async function readEnvFile(
+    file: string,
+    resolvePath: PathResolver,
+    cache?: ComposeFileCache,
+    readFiles?: Set<string>
+): Promise<ComposeVariables | undefined> {
+    try {
+        const variables = await readParsedFile(resolvePath(file), parseEnvFile, cache);
+        readFiles?.add(file);
+        return variables;
+    } catch (error) {
+        if ((error as { code?: string }).code === 'ENOENT') {
+            return undefined;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Reads the variables an included file is interpolated with: those of its
+ * `include:` entry's env_file (resolved against the including file's
+ * directory), or else of the `.env` file in its project directory
+ */
+async function readIncludeVariables(
+    envFile: string | string[] | undefined,
+    includingDir: string,
+    projectDir: string,
+    readEnv: (file: string) => Promise<ComposeVariables | undefined>
+): Promise<ComposeVariables> {
+    if (envFile === undefined) {
+        return await readEnv(path.posix.join(projectDir, '.env')) ?? {};
+    }
+
+    const variables: ComposeVariables = {};
+    for (const file of Array.isArray(envFile) ? envFile : [envFile]) {
+        const envPath = path.posix.resolve(includingDir, file);
+        const envVariables = await readEnv(envPath);
+        if (!envVariables) {
+            throw new Error(`env_file ${envPath} not found`);
+        }
+        Object.assign(variables, envVariables);
+    }
+    return variables;
+}
+
+/**
+ * Reads the files of a compose project and merges them in order, like
+ * `docker compose -f a.yml -f b.yml`. Each file is interpolated (see
+ * interpolateComposeData) with the `.env` file in the project directory (the
+ * first file's directory) and has its `include:` entries resolved; services'
+ * `extends:` are resolved after merging, so an override file may extend a
+ * service defined in another file.
+ *
+ * Included files are interpolated with their entry's `env_file`, or else the
+ * `.env` file in their `project_directory` (by default, the included file's
+ * directory), against which their services' env_file paths are resolved too.
+ * Variables from the host's environment are not used: they belong to
+ * magic-proxy, not to the shell the project was started from.
+ *
+ * Returns undefined if any file cannot be read or its include/extends cannot
+ * be resolved, since compose itself would refuse the project. The paths of
+ * every file read, including `.env` and env_file files, are added to
+ * `readFiles`, if given.
+ */
+export async function loadComposeProject(
+    files: string[],
+    resolvePath: PathResolver = resolveHostPath,
+    cache?: ComposeFileCache,
+    readFiles?: Set<string>
+): Promise<ComposeFileData | undefined> {
+    const readEnv = (file: string) => readEnvFile(file, resolvePath, cache, readFiles);
+    const readRaw = async (file: string): Promise<ComposeFileData> => {
+        const data = await readParsedFile(resolvePath(file), content => yaml.load(content) as ComposeFileData, cache);
+        readFiles?.add(file);
+        return data && typeof data === 'object' ? data : {};
+    };
+    // Service env_file paths are resolved against baseDir
+    const interpolate = (data: ComposeFileData, file: string, variables: ComposeVariables, baseDir: string) =>
+        interpolateComposeData(data, variables, async (envFile, required) => {
+            const envPath = path.posix.resolve(baseDir, envFile);
+            const envVariables = await readEnv(envPath);
+            if (!envVariables && required) {
+                throw new Error(`env_file ${envPath} not found`);
+            }
+            return envVariables ?? {};
+        }, file);
+    const loadIncluded: ComposeIncludeLoader = async (file, entry, including) => {
+        const includingDir = path.posix.dirname(including[including.length - 1]);
+        const options: Exclude<ComposeInclude, string> | undefined = typeof entry === 'string' ? undefined : entry;
+        const projectDir = options?.project_directory
+            ? path.posix.resolve(includingDir, options.project_directory)
+            : path.posix.dirname(file);
+        const variables = await readIncludeVariables(options?.env_file, includingDir, projectDir, readEnv);
+        const read = async (included: string) => interpolate(await readRaw(included), included, variables, projectDir);
 
+        return resolveComposeExtends(await resolveComposeIncludes(await read(file), file, loadIncluded, including), file, read);
+    };
+
+    const loaded = await Promise.all(files.map(file => readRaw(file).catch((error) => {
+        log.error({
+            message: 'Failed to read/parse compose file',
+            data: { path: file, resolvedPath: resolvePath(file), error: error instanceof Error ? error.message : String(error) }
+        });
+        return undefined;
+    })));
+    if (loaded.some(data => data === undefined)) {
+        return undefined;
+    }
+
+    const projectDir = path.posix.dirname(files[0]);
+    let variables: ComposeVariables;
+    let interpolated: ComposeFileData[];
+    try {
+        variables = await readEnv(path.posix.join(projectDir, '.env')) ?? {};
+        interpolated = await Promise.all(files.map((file, index) =>
+            interpolate(loaded[index] as ComposeFileData, file, variables, projectDir)
+        ));
+    } catch (error) {
+        log.error({
+            message: 'Failed to interpolate compose file',
+            data: { path: files[0], error: error instanceof Error ? error.message : String(error) }
+        });
+        return undefined;
+    }
+
+    try {
+        const resolved = await Promise.all(files.map((file, index) => resolveComposeIncludes(interpolated[index], file, loadIncluded)));
+        const merged = files.length === 1 ? resolved[0] : mergeComposeData(resolved);
+        return await resolveComposeExtends(merged, files[0], async file =>
+            interpolate(await readRaw(file), file, variables, projectDir)
+        );
+    } catch (error) {
+        log.error({
+            message: 'Failed to resolve compose include/extends',
+            data: { path: files[0], error: error instanceof Error ? error.message : String(error) }
+        });
+        return undefined;
+    }
+}
+
+/**
+ * Lists all containers (running or not), logging and returning null on failure
+ */
+export async function listAllContainers(docker: Docker): Promise<Docker.ContainerInfo[] | null> {
     try {
-        containers = await docker.listContainers({ all: true });
+        return await docker.listContainers({ all: true });
     } catch (error) {
         log.error({
             message: 'Failed to list Docker containers',
             data: { error: error instanceof Error ? error.message : String(error) }
         });
+        return null;
+    }
+}
+
+/**
+ * Loads compose data for all compose file references.
+ * Containers are listed from Docker unless already provided.
+ */
+export async function loadComposeDataForRefs(
+    docker: Docker,
+    containers?: Docker.ContainerInfo[],
+    resolvePath: PathResolver = resolveHostPath,
+    cache?: ComposeFileCache
+): Promise<ComposeFileReference[]> {
+    const listed = containers ?? await listAllContainers(docker);
+    if (!listed) {
         return [];
     }
 
-    const refs = groupContainersByComposeFile(containers);
+    const refs = groupContainersByComposeFile(listed);
 
-    // Load compose data for each reference
+    // Load compose data for each reference, noting every file it depends on
     await Promise.all(refs.map(async (ref) => {
-        const data = await loadComposeFile(ref.path);
+        const readFiles = new Set<string>();
+        const data = await loadComposeProject(ref.files, resolvePath, cache, readFiles);
+        ref.dependencies = Array.from(readFiles);
         if (data) {
             ref.composeData = data;
         } else {
@@ -125,7 +333,25 @@ export async function loadComposeDataForRefs(
 }
 
 /**
- * Extracts x-magic-proxy configuration for a specific service from compose data
+ * Merges the compose file's top-level x-magic-proxy-defaults under a
+ * service's own x-magic-proxy block. Mappings such as userData are merged
+ * key by key; the service's values win.
+ */
+function applyXMagicProxyDefaults(
+    composeData: ComposeFileData,
+    xMagicProxy: Partial<XMagicProxyData> | undefined
+): Partial<XMagicProxyData> | undefined {
+    const defaults = composeData['x-magic-proxy-defaults'];
+    if (!xMagicProxy || !defaults || typeof defaults !== 'object') {
+        return xMagicProxy;
+    }
+    return mergeValues(defaults, xMagicProxy) as Partial<XMagicProxyData>;
+}
+
+/**
+ * Extracts x-magic-proxy configuration for a specific service from compose data.
+ * Only services with their own x-magic-proxy block are proxied; the file's
+ * x-magic-proxy-defaults are merged under it.
  */
 export function extractXMagicProxy(
     composeData: ComposeFileData | undefined,
@@ -142,13 +368,13 @@ export function extractXMagicProxy(
         if (!composeData.services[serviceName]) {
             return undefined;
         }
-        return composeData.services[serviceName]['x-magic-proxy'];
+        return applyXMagicProxyDefaults(composeData, composeData.services[serviceName]['x-magic-proxy']);
     }
 
     // Fallback (no service name): find the first service with x-magic-proxy defined
     for (const service of Object.values(composeData.services)) {
         if (service['x-magic-proxy']) {
-            return service['x-magic-proxy'];
+            return applyXMagicProxyDefaults(composeData, service['x-magic-proxy']);
         }
     }
 
@@ -172,11 +398,11 @@ export function validateXMagicProxy(
     }
 
     const issues = result.error.issues;
-    const isMissingField = (field: string) =>
-        issues.some(i => i.path[0] === field && /received undefined/i.test(i.message));
+    const isMissingField = (field: keyof XMagicProxyData) =>
+        xMagicProxy[field] === undefined && issues.some(i => i.path[0] === field);
 
     // Log specific missing field warnings
-    for (const field of ['template', 'target', 'hostname']) {
+    for (const field of ['template', 'target', 'hostname'] as const) {
         if (isMissingField(field)) {
             log.warn({
                 message: `Container has malformed x-magic-proxy: missing required field "${field}"`,
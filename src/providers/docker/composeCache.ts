@@ -0,0 +1,61 @@
+import crypto from 'crypto';
+import fs from 'fs';
+
+interface CachedFile {
+    mtimeMs: number;
+    size: number;
+    hash: string;
+    value: unknown;
+}
+
+/**
+ * Caches parsed compose and env files by (resolved) path. A file is only
+ * re-read when its mtime or size changed, and only re-parsed when its
+ * content hash changed. Callers get a copy, so they may modify it.
+ */
+export class ComposeFileCache {
+    private files = new Map<string, CachedFile>();
+
+    /**
+     * Read and parse a file, reusing the cached result while it is unchanged.
+     * Errors (e.g. ENOENT, parse errors) are thrown and nothing is cached.
+     */
+    async read<T>(file: string, parse: (content: string) => T): Promise<T> {
+        const { mtimeMs, size } = await fs.promises.stat(file);
+        let cached = this.files.get(file);
+
+        if (!cached || cached.mtimeMs !== mtimeMs || cached.size !== size) {
+            const content = await fs.promises.readFile(file, 'utf-8');
+            const hash = crypto.createHash('sha256').update(content).digest('hex');
+            cached = cached?.hash === hash
+                ? { ...cached, mtimeMs, size }
+                : { mtimeMs, size, hash, value: parse(content) };
+            this.files.set(file, cached);
+        }
+
+        return structuredClone(cached.value) as T;
+    }
+
+    /**
+     * Force the next read of a file to check its content, e.g. after a file
+     * watcher reported a change that may not have moved its mtime
+     */
+    invalidate(file: string): void {
+        const cached = this.files.get(file);
+        if (cached) {
+            this.files.set(file, { ...cached, mtimeMs: -1 });
+        }
+    }
+
+    /**
+     * Forget every file not in `keep`, e.g. those of compose projects that are
+     * gone, so the cache does not grow with every file it has ever read
+     */
+    prune(keep: Set<string>): void {
+        for (const file of this.files.keys()) {
+            if (!keep.has(file)) {
+                this.files.delete(file);
+            }
+        }
+    }
+}
@@ -0,0 +1,310 @@
+import { ComposeFileData, ComposeService } from '../../types/docker';
+import { zone } from '../../logging/zone';
+
+const log = zone('providers.docker');
+
+/** Variables available to interpolation, by name */
+export type ComposeVariables = Record<string, string>;
+
+/** Pattern for a variable name */
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*/;
+
+/** Pattern for a line of an env file: optional `export`, a name and a value */
+const ENV_LINE_PATTERN = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*(?:=(.*))?$/;
+
+/** Escapes recognised in double-quoted env file values */
+const ENV_ESCAPES: Record<string, string> = { n: '\n', t: '\t', '"': '"', '\\': '\\' };
+
+/**
+ * Parse the value part of an env file line.
+ */
+function parseEnvValue(raw: string): string {
+    if (raw.startsWith("'") && raw.indexOf("'", 1) > 0) {
+        return raw.slice(1, raw.indexOf("'", 1));
+    }
+    if (raw.startsWith('"')) {
+        let value = '';
+        for (let i = 1; i < raw.length; i++) {
+            if (raw[i] === '"') return value;
+            if (raw[i] === '\\' && i + 1 < raw.length) {
+                const char = raw[++i];
+                value += ENV_ESCAPES[char] ?? `\\${char}`;
+            } else {
+                value += raw[i];
+            }
+        }
+    }
+    // Unquoted (or unterminated) values end at an inline comment
+    return raw.replace(/\s+#.*$/, '');
+}
+
+/**
+ * Parse an env file (`.env` or an `env_file`) into variables.
+ * Supports comments, `export` prefixes, and single- or double-quoted values;
+ * double-quoted values may contain \n, \t, \" and \\ escapes. Lines without
+ * `=` are ignored, since their value would come from the shell.
+ */
+export function parseEnvFile(content: string): ComposeVariables {
+    const variables: ComposeVariables = {};
+
+    for (const line of content.split(/\r?\n/)) {
+        if (!line.trim() || line.trim().startsWith('#')) continue;
+
+        const match = ENV_LINE_PATTERN.exec(line);
+        if (match && match[2] !== undefined) {
+            variables[match[1]] = parseEnvValue(match[2].trim());
+        }
+    }
+
+    return variables;
+}
+
+/**
+ * Convert a service's `environment` (mapping or KEY=value list) into variables.
+ * Entries without a value are skipped, since their value would come from the shell.
+ */
+export function environmentToVariables(environment: Record<string, unknown> | string[] | undefined): ComposeVariables {
+    if (!environment) return {};
+
+    const entries = Array.isArray(environment)
+        ? environment.map(item => {
+            const separator = item.indexOf('=');
+            return separator === -1 ? [item, undefined] : [item.slice(0, separator), item.slice(separator + 1)];
+        })
+        : Object.entries(environment);
+
+    const variables: ComposeVariables = {};
+    for (const [name, value] of entries) {
+        if (value !== undefined && value !== null) {
+            variables[name as string] = String(value);
+        }
+    }
+    return variables;
+}
+
+/**
+ * Find the end of a `${...}` expression starting after its opening brace,
+ * accounting for nested expressions in defaults.
+ */
+function findClosingBrace(text: string, start: number): number {
+    let depth = 1;
+    for (let i = start; i < text.length; i++) {
+        if (text[i] === '$' && text[i + 1] === '{') {
+            depth++;
+            i++;
+        } else if (text[i] === '}' && --depth === 0) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Resolve the body of a `${...}` expression:
+ * NAME, NAME:-default, NAME-default, NAME:?error, NAME?error, NAME:+alt, NAME+alt.
+ */
+function resolveExpression(body: string, variables: ComposeVariables): string {
+    const name = NAME_PATTERN.exec(body)?.[0];
+    if (!name) {
+        throw new Error(`Invalid interpolation format for '\${${body}}'`);
+    }
+
+    const rest = body.slice(name.length);
+    const value = variables[name];
+    if (rest === '') {
+        return value ?? '';
+    }
+
+    const operator = /^:?[-?+]/.exec(rest)?.[0];
+    if (!operator) {
+        throw new Error(`Invalid interpolation format for '\${${body}}'`);
+    }
+
+    const argument = rest.slice(operator.length);
+    // With a colon, an empty value counts as unset
+    const isSet = operator.startsWith(':') ? !!value : value !== undefined;
+
+    switch (operator.slice(-1)) {
+        case '-':
+            return isSet ? value : interpolateString(argument, variables);
+        case '+':
+            return isSet ? interpolateString(argument, variables) : '';
+        default:
+            if (!isSet) {
+                const message = interpolateString(argument, variables);
+                throw new Error(`Required variable ${name} is missing a value${message ? `: ${message}` : ''}`);
+            }
+            return value;
+    }
+}
+
+/**
+ * Interpolate `$NAME` and `${...}` expressions in a string, following the
+ * compose spec. `$$` escapes a literal `$`. Unset variables become empty.
+ * Throws for `${NAME:?error}` forms whose variable is unset, and for
+ * malformed expressions.
+ */
+export function interpolateString(text: string, variables: ComposeVariables): string {
+    let result = '';
+    let i = 0;
+
+    while (i < text.length) {
+        const dollar = text.indexOf('$', i);
+        if (dollar === -1) {
+            result += text.slice(i);
+            break;
+        }
+        result += text.slice(i, dollar);
+
+        const next = text[dollar + 1];
+        if (next === '$') {
+            result += '$';
+            i = dollar + 2;
+        } else if (next === '{') {
+            const end = findClosingBrace(text, dollar + 2);
+            if (end === -1) {
+                throw new Error(`Invalid interpolation format: unterminated '\${' in '${text}'`);
+            }
+            result += resolveExpression(text.slice(dollar + 2, end), variables);
+            i = end + 1;
+        } else {
+            const name = NAME_PATTERN.exec(text.slice(dollar + 1))?.[0];
+            if (name) {
+                result += variables[name] ?? '';
+                i = dollar + 1 + name.length;
+            } else {
+                result += '$';
+                i = dollar + 1;
+            }
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Interpolate every string value (not key) within a parsed YAML value.
+ * `path` is used in error messages, e.g. services.web.x-magic-proxy.target.
+ */
+export function interpolateValues<T>(value: T, variables: ComposeVariables, path = ''): T {
+    if (typeof value === 'string') {
+        try {
+            return interpolateString(value, variables) as T;
+        } catch (error) {
+            throw new Error(`${path ? `${path}: ` : ''}${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+    if (Array.isArray(value)) {
+        return value.map((item, index) => interpolateValues(item, variables, `${path}[${index}]`)) as T;
+    }
+    if (typeof value === 'object' && value !== null) {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+            [key, interpolateValues(item, variables, path ? `${path}.${key}` : key)]
+        )) as T;
+    }
+    return value;
+}
+
+/**
+ * Interpolate every string value like interpolateValues, but leave values
+ * whose interpolation fails (e.g. `${TAG:?}` with TAG set only in the shell
+ * that deployed the project) as written instead of throwing.
+ */
+function interpolateValuesLeniently<T>(value: T, variables: ComposeVariables): T {
+    if (typeof value === 'string') {
+        try {
+            return interpolateString(value, variables) as T;
+        } catch {
+            return value;
+        }
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => interpolateValuesLeniently(item, variables)) as T;
+    }
+    if (typeof value === 'object' && value !== null) {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+            [key, interpolateValuesLeniently(item, variables)]
+        )) as T;
+    }
+    return value;
+}
+
+/**
+ * Get a service's env files in both the short (`file.env`) and the long
+ * (`{ path: file.env, required: false }`) form. Files are required by default.
+ */
+export function getEnvFiles(envFile: ComposeService['env_file']): { path: string; required: boolean }[] {
+    const entries = envFile === undefined ? [] : Array.isArray(envFile) ? envFile : [envFile];
+    return entries.map(entry => typeof entry === 'string'
+        ? { path: entry, required: true }
+        : { path: entry.path, required: entry.required ?? true });
+}
+
+/**
+ * Interpolate a service's x-magic-proxy block. It may use the variables the
+ * service defines through `env_file` and `environment` (in that order of
+ * precedence, after `.env`).
+ */
+async function interpolateXMagicProxy(
+    name: string,
+    service: ComposeService,
+    variables: ComposeVariables,
+    loadEnvFile: (file: string, required: boolean) => Promise<ComposeVariables>
+): Promise<ComposeService['x-magic-proxy']> {
+    const serviceVariables: ComposeVariables = { ...variables };
+    for (const { path, required } of getEnvFiles(service.env_file)) {
+        Object.assign(serviceVariables, await loadEnvFile(path, required));
+    }
+    Object.assign(serviceVariables, environmentToVariables(service.environment));
+
+    return interpolateValues(service['x-magic-proxy'], serviceVariables, `services.${name}.x-magic-proxy`);
+}
+
+/**
+ * Interpolate a compose file with the variables from its project's `.env`
+ * file. Only x-magic-proxy blocks (and x-magic-proxy-defaults) must
+ * interpolate: other values are interpolated where possible and otherwise
+ * left as written, since their variables may come from the shell the
+ * project was started from. A service whose x-magic-proxy block cannot be
+ * interpolated (e.g. a missing required variable or env_file) is logged and
+ * loses the block, without affecting other services. `loadEnvFile` reads a
+ * service's env_file, returning no variables for missing optional files.
+ *
+ * @param file - The compose file's path, used in log messages
+ * @throws Error if x-magic-proxy-defaults cannot be interpolated
+ */
+export async function interpolateComposeData(
+    data: ComposeFileData,
+    variables: ComposeVariables,
+    loadEnvFile: (file: string, required: boolean) => Promise<ComposeVariables>,
+    file?: string
+): Promise<ComposeFileData> {
+    const { services, 'x-magic-proxy-defaults': defaults, ...rest } = data;
+    const result: ComposeFileData = interpolateValuesLeniently(rest, variables);
+    if (defaults !== undefined) {
+        result['x-magic-proxy-defaults'] = interpolateValues(defaults, variables, 'x-magic-proxy-defaults');
+    }
+    if (!services) {
+        return result;
+    }
+
+    result.services = {};
+    for (const [name, service] of Object.entries(services)) {
+        const { 'x-magic-proxy': xMagicProxy, ...definition } = service;
+        const interpolated: ComposeService = interpolateValuesLeniently(definition, variables);
+        result.services[name] = interpolated;
+
+        if (xMagicProxy === undefined) continue;
+
+        try {
+            interpolated['x-magic-proxy'] = await interpolateXMagicProxy(name, { ...interpolated, 'x-magic-proxy': xMagicProxy }, variables, loadEnvFile);
+        } catch (error) {
+            log.error({
+                message: 'Failed to interpolate x-magic-proxy',
+                data: { path: file, service: name, error: error instanceof Error ? error.message : String(error) }
+            });
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,95 @@
+import { ComposeFileData, ComposeService } from '../../types/docker';
+
+/**
+ * Service keys whose sequences compose appends to rather than replaces
+ * when an override file sets them
+ */
+const APPENDED_SERVICE_KEYS = new Set(['ports', 'expose', 'external_links', 'dns', 'dns_search', 'tmpfs', 'volumes', 'devices']);
+
+/**
+ * Service keys that may be written either as a mapping or as a list of
+ * `KEY=value` strings; both forms are merged key by key
+ */
+const MAPPING_SERVICE_KEYS = new Set(['environment', 'labels']);
+
+type ComposeValue = unknown;
+type ComposeMapping = Record<string, ComposeValue>;
+
+function isMapping(value: ComposeValue): value is ComposeMapping {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Convert a `KEY=value` list (as allowed for environment and labels) into a mapping
+ */
+function toMapping(value: ComposeValue): ComposeValue {
+    if (!Array.isArray(value)) {
+        return value;
+    }
+    return Object.fromEntries(value.map(item => {
+        const text = String(item);
+        const separator = text.indexOf('=');
+        return separator === -1 ? [text, null] : [text.slice(0, separator), text.slice(separator + 1)];
+    }));
+}
+
+/**
+ * Merge two values: mappings are merged recursively, anything else is
+ * replaced by the override.
+ */
+export function mergeValues(base: ComposeValue, override: ComposeValue): ComposeValue {
+    if (isMapping(base) && isMapping(override)) {
+        const merged: ComposeMapping = { ...base };
+        for (const [key, value] of Object.entries(override)) {
+            merged[key] = key in base ? mergeValues(base[key], value) : value;
+        }
+        return merged;
+    }
+    return override;
+}
+
+/**
+ * Merge an override service definition into a base one, as for override
+ * files and `extends:`.
+ */
+export function mergeService(base: ComposeService, override: ComposeService): ComposeService {
+    const merged: ComposeMapping = { ...base };
+    for (const [key, value] of Object.entries(override) as [string, ComposeValue][]) {
+        const current = merged[key];
+        if (!(key in merged)) {
+            merged[key] = value;
+        } else if (APPENDED_SERVICE_KEYS.has(key) && Array.isArray(current) && Array.isArray(value)) {
+            const seen = new Set(current.map(item => JSON.stringify(item)));
+            merged[key] = [...current, ...value.filter(item => !seen.has(JSON.stringify(item)))];
+        } else if (MAPPING_SERVICE_KEYS.has(key)) {
+            merged[key] = mergeValues(toMapping(current), toMapping(value));
+        } else {
+            merged[key] = mergeValues(current, value);
+        }
+    }
+    return merged as ComposeService;
+}
+
+/**
+ * Merge compose files the way `docker compose -f a.yml -f b.yml` does:
+ * later files override earlier ones. Mappings (including x-magic-proxy
+ * blocks) are merged key by key, sequences such as ports and volumes are
+ * appended, and other values are replaced.
+ */
+export function mergeComposeData(files: ComposeFileData[]): ComposeFileData {
+    return files.reduce<ComposeFileData>((merged, file) => {
+        const { services, ...rest } = file;
+        const result = mergeValues(merged, rest) as ComposeFileData;
+
+        if (services) {
+            const mergedServices: ComposeMapping = { ...merged.services };
+            for (const [name, service] of Object.entries(services)) {
+                const base = mergedServices[name];
+                mergedServices[name] = isMapping(base) && isMapping(service) ? mergeService(base, service) : service;
+            }
+            result.services = mergedServices as ComposeFileData['services'];
+        }
+
+        return result;
+    }, {});
+}
@@ -0,0 +1,157 @@
+import path from 'path';
+import { ComposeFileData, ComposeService } from '../../types/docker';
+import { mergeComposeData, mergeService } from './composeMerge';
+
+/** Reads and parses a compose file by its (host) path, throwing on failure */
+export type ComposeFileReader = (file: string) => Promise<ComposeFileData>;
+
+/** Top-level sections that included files contribute to */
+const INCLUDED_SECTIONS = ['services', 'networks', 'volumes', 'configs', 'secrets'] as const;
+
+/**
+ * Get the files of an `include:` entry, resolved against the including file's directory
+ */
+function getIncludedFiles(entry: ComposeInclude, baseDir: string): string[] {
+    const paths = typeof entry === 'string' ? [entry] : Array.isArray(entry.path) ? entry.path : [entry.path];
+    return paths.map(file => path.posix.resolve(baseDir, file));
+}
+
+/**
+ * Resolve a service's `extends:` chain, returning the service with every
+ * base merged in. Bases in other files are resolved relative to the file
+ * declaring the `extends`. `chain` holds the services being resolved, to
+ * detect cycles.
+ */
+async function resolveService(
+    name: string,
+    data: ComposeFileData,
+    file: string,
+    readFile: ComposeFileReader,
+    chain: string[] = []
+): Promise<ComposeService> {
+    const service = data.services?.[name];
+    if (!service) {
+        throw new Error(`Service '${name}' not found in ${file}`);
+    }
+
+    const key = `${file}:${name}`;
+    if (chain.includes(key)) {
+        throw new Error(`Circular extends: ${[...chain, key].join(' -> ')}`);
+    }
+    if (!service.extends) {
+        return service;
+    }
+
+    const { service: baseName, file: baseFile } = typeof service.extends === 'string'
+        ? { service: service.extends, file: undefined }
+        : service.extends;
+    const basePath = baseFile ? path.posix.resolve(path.posix.dirname(file), baseFile) : file;
+    const baseData = baseFile ? await readFile(basePath) ?? {} : data;
+    const base = await resolveService(baseName, baseData, basePath, readFile, [...chain, key]);
+
+    const own: ComposeService = { ...service };
+    delete own.extends;
+    return mergeService(base, own);
+}
+
+/** An entry of a compose file's top-level `include:` */
+export type ComposeInclude = NonNullable<ComposeFileData['include']>[number];
+
+/**
+ * Loads an included compose file by its host path, with its own includes and
+ * extends resolved. `entry` is the `include:` entry naming it, and `including`
+ * the files currently being included, to pass on to resolveComposeIncludes.
+ */
+export type ComposeIncludeLoader = (file: string, entry: ComposeInclude, including: string[]) => Promise<ComposeFileData>;
+
+/**
+ * Resolve a compose file's top-level `include:` entries, as `docker compose`
+ * does: included files are resolved relative to the including file, and
+ * defining a service (or other resource) that an included file already
+ * defines is an error, as are include cycles.
+ *
+ * @param data - The parsed compose file
+ * @param file - The compose file's host path, used to resolve relative paths
+ * @param loadIncluded - Loads an included file
+ * @param including - Files currently being included, to detect cycles
+ */
+export async function resolveComposeIncludes(
+    data: ComposeFileData,
+    file: string,
+    loadIncluded: ComposeIncludeLoader,
+    including: string[] = []
+): Promise<ComposeFileData> {
+    const chain = [...including, file];
+    const { include, ...result } = data;
+
+    for (const entry of include ?? []) {
+        const files = getIncludedFiles(entry, path.posix.dirname(file));
+        const cyclic = files.find(included => chain.includes(included));
+        if (cyclic) {
+            throw new Error(`Circular include: ${[...chain, cyclic].join(' -> ')}`);
+        }
+
+        const resolved = await Promise.all(files.map(included => loadIncluded(included, entry, chain)));
+        const imported = mergeComposeData(resolved);
+
+        for (const section of INCLUDED_SECTIONS) {
+            const own: Record<string, unknown> = result[section] ?? {};
+            for (const [name, definition] of Object.entries(imported[section] ?? {})) {
+                if (name in own) {
+                    throw new Error(`${section}.${name} in ${file} conflicts with the definition included from ${files.join(', ')}`);
+                }
+                own[name] = definition;
+            }
+            if (Object.keys(own).length > 0) {
+                (result as Record<string, unknown>)[section] = own;
+            }
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Resolve the `extends:` of a compose file's services. Bases in other files
+ * are read with `readFile`, relative to the file declaring the `extends`;
+ * for a project merged from several files, that is the first file.
+ *
+ * @param data - The parsed compose file, with its includes resolved
+ * @param file - The compose file's host path, used to resolve relative paths
+ * @param readFile - Reads another compose file by its host path
+ */
+export async function resolveComposeExtends(
+    data: ComposeFileData,
+    file: string,
+    readFile: ComposeFileReader
+): Promise<ComposeFileData> {
+    if (!data.services) {
+        return data;
+    }
+
+    const services: Record<string, ComposeService> = {};
+    for (const name of Object.keys(data.services)) {
+        services[name] = await resolveService(name, data, file, readFile);
+    }
+    return { ...data, services };
+}
+
+/**
+ * Resolve a compose file's `include:` entries and its services' `extends:`,
+ * reading every file as-is with `readFile`.
+ *
+ * @param data - The parsed compose file
+ * @param file - The compose file's host path, used to resolve relative paths
+ * @param readFile - Reads another compose file by its host path
+ * @param including - Files currently being included, to detect cycles
+ */
+export async function resolveComposeReferences(
+    data: ComposeFileData,
+    file: string,
+    readFile: ComposeFileReader,
+    including: string[] = []
+): Promise<ComposeFileData> {
+    const loadIncluded: ComposeIncludeLoader = async (included, _entry, chain) =>
+        resolveComposeReferences(await readFile(included) ?? {}, included, readFile, chain);
+    return resolveComposeExtends(await resolveComposeIncludes(data, file, loadIncluded, including), file, readFile);
+}
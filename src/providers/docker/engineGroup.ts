@@ -0,0 +1,54 @@
+import { HostDB } from '../../hostDb';
+import { zone } from '../../logging/zone';
+import { ProviderModule, ProviderStatus } from '../providerPlugin';
+import { DockerProvider } from './provider';
+import { DockerProviderConfig } from './types';
+import { DockerEngineConfig } from '../../types/config';
+
+const log = zone('providers.docker');
+
+/**
+ * Runs one DockerProvider per configured engine. Each engine owns its own
+ * HostDB entries, so one engine's sync never removes another engine's hosts.
+ */
+export class DockerEngineGroup implements ProviderModule {
+    private providers = new Map<string, DockerProvider>();
+
+    constructor(hostDb: HostDB, engines: DockerEngineConfig[], config: DockerProviderConfig = {}) {
+        for (const engine of engines) {
+            this.providers.set(engine.name, new DockerProvider(hostDb, { ...config, engine }));
+        }
+    }
+
+    /**
+     * Start every engine's provider. An unreachable engine only logs errors
+     * (like the local socket), so one engine never blocks the others.
+     */
+    async start(): Promise<void> {
+        await Promise.all(Array.from(this.providers.values(), provider => provider.start()));
+        log.debug({ message: 'Docker engines started', data: { engines: Array.from(this.providers.keys()) } });
+    }
+
+    stop(): void {
+        for (const provider of this.providers.values()) {
+            provider.stop();
+        }
+    }
+
+    /**
+     * Get the combined status; `hosts` is the total across engines
+     */
+    getStatus(): ProviderStatus {
+        const engines: Record<string, ProviderStatus> = {};
+        let hosts = 0;
+        for (const [name, provider] of this.providers) {
+            engines[name] = provider.getStatus();
+            hosts += engines[name].hosts;
+        }
+        return {
+            active: Object.values(engines).some(status => status.active),
+            hosts,
+            engines,
+        };
+    }
+}
@@ -0,0 +1,94 @@
+import Docker from 'dockerode';
+import fs from 'fs';
+import path from 'path';
+import { CONFIG_DIRECTORY } from '../../config';
+import { DockerEngineConfig } from '../../types/config';
+import { resolveHostPath } from './compose';
+import { PathResolver } from './types';
+
+/**
+ * Read a certificate or key file; relative paths are resolved against CONFIG_DIRECTORY
+ */
+function readCredential(engine: DockerEngineConfig, file: string): Buffer {
+    const resolved = path.isAbsolute(file) ? file : path.resolve(CONFIG_DIRECTORY, file);
+    try {
+        return fs.readFileSync(resolved);
+    } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        throw new Error(`Failed to read credentials for Docker engine '${engine.name}': ${message}`);
+    }
+}
+
+/**
+ * Build the dockerode options for an engine address:
+ * - tcp://host:port, using TLS client certificates when configured
+ * - ssh://user@host[:port], tunnelling through `docker system dial-stdio`
+ * - unix:///path/to/docker.sock
+ */
+export function getEngineOptions(engine: DockerEngineConfig): Docker.DockerOptions {
+    let url: URL;
+    try {
+        url = new URL(engine.host);
+    } catch {
+        throw new Error(`Invalid host '${engine.host}' for Docker engine '${engine.name}'`);
+    }
+
+    switch (url.protocol) {
+        case 'unix:':
+            return { socketPath: url.pathname };
+        case 'tcp:': {
+            const { ca, cert, key } = engine.tls ?? {};
+            return {
+                host: url.hostname,
+                port: url.port || (engine.tls ? 2376 : 2375),
+                protocol: engine.tls ? 'https' : 'http',
+                ca: ca ? readCredential(engine, ca) : undefined,
+                cert: cert ? readCredential(engine, cert) : undefined,
+                key: key ? readCredential(engine, key) : undefined,
+            };
+        }
+        case 'ssh:':
+            return {
+                host: url.hostname,
+                port: url.port || 22,
+                protocol: 'ssh',
+                username: decodeURIComponent(url.username) || undefined,
+                sshOptions: engine.identityFile
+                    ? { privateKey: readCredential(engine, engine.identityFile) }
+                    : { agent: process.env.SSH_AUTH_SOCK },
+            };
+        default:
+            throw new Error(`Unsupported protocol '${url.protocol}' for Docker engine '${engine.name}'. Use tcp://, ssh:// or unix://`);
+    }
+}
+
+/**
+ * Create a dockerode client for an engine
+ */
+export function createDockerClient(engine: DockerEngineConfig): Docker {
+    return new Docker(getEngineOptions(engine));
+}
+
+/**
+ * Create the compose file path resolver for an engine.
+ * With a path mapping, the longest matching directory prefix is replaced and
+ * other paths are used as-is; without one, the local /host rules apply.
+ */
+export function createPathResolver(engine: DockerEngineConfig): PathResolver {
+    const mappings = Object.entries(engine.paths ?? {})
+        .map(([from, to]) => [from.replace(/\/+$/, ''), to.replace(/\/+$/, '')] as const)
+        .sort(([a], [b]) => b.length - a.length);
+
+    if (mappings.length === 0) {
+        return resolveHostPath;
+    }
+
+    return (hostPath: string) => {
+        for (const [from, to] of mappings) {
+            if (hostPath === from || hostPath.startsWith(`${from}/`)) {
+                return to + hostPath.slice(from.length);
+            }
+        }
+        return hostPath;
+    };
+}
@@ -4,29 +4,84 @@
 
 // Main provider class
 export { DockerProvider } from './provider';
+export { DockerEngineGroup } from './engineGroup';
 
 // Types
 export {
     ProcessingResult,
     ComposeFileReference,
     DockerProviderConfig,
+    LabelMode,
+    MAGIC_PROXY_LABEL_PREFIX,
+    PathResolver,
+    SyncScope,
     COMPOSE_CONFIG_LABEL,
-    COMPOSE_SERVICE_LABEL
+    COMPOSE_SERVICE_LABEL,
+    COMPOSE_PROJECT_LABEL,
+    COMPOSE_CONTAINER_NUMBER_LABEL
 } from './types';
 
 // Compose file utilities
 export {
     extractContainerName,
     getServiceName,
+    listAllContainers,
+    splitComposeFiles,
     groupContainersByComposeFile,
     loadComposeFile,
+    loadComposeProject,
     loadComposeDataForRefs,
     extractXMagicProxy,
     validateXMagicProxy
 } from './compose';
 
+// Compose file caching
+export { ComposeFileCache } from './composeCache';
+
+// Compose file merging
+export { mergeComposeData, mergeService } from './composeMerge';
+export {
+    ComposeFileReader,
+    ComposeInclude,
+    ComposeIncludeLoader,
+    resolveComposeIncludes,
+    resolveComposeExtends,
+    resolveComposeReferences
+} from './composeResolve';
+
+// Compose variable interpolation
+export {
+    ComposeVariables,
+    parseEnvFile,
+    interpolateString,
+    interpolateComposeData
+} from './composeInterpolation';
+
+// Target resolution
+export {
+    DEFAULT_TARGET_TEMPLATE,
+    TargetNetworkOptions,
+    needsTargetResolution,
+    resolveContainerTargets
+} from './targets';
+
+// Remote engines
+export {
+    getEngineOptions,
+    createDockerClient,
+    createPathResolver
+} from './engines';
+
+// Label configuration
+export {
+    extractLabelConfig,
+    hasMagicProxyLabels
+} from './labels';
+
 // Manifest building
 export {
     buildContainerManifest,
+    groupReplicas,
+    isContainerActive,
     logManifestSummary
 } from './manifest';
@@ -0,0 +1,96 @@
+import { XMagicProxyData, XMagicProxyRoute } from '../../types/xmagic';
+import { zone } from '../../logging/zone';
+import { MAGIC_PROXY_LABEL_PREFIX } from './types';
+
+const log = zone('providers.docker');
+
+/** Fields that accept a comma-separated list in label form */
+const LIST_FIELDS = new Set(['template', 'hostname']);
+
+/** A route (or the service itself) as read from labels, before validation */
+type LabelRoute = Partial<Record<keyof XMagicProxyRoute, unknown>> & {
+    userData?: Record<string, string>;
+};
+
+/**
+ * Convert a label value for a field: list fields split on commas and collapse
+ * to a plain string when only one value is given.
+ */
+function parseFieldValue(field: string, value: string): string | string[] {
+    if (!LIST_FIELDS.has(field)) {
+        return value;
+    }
+    const items = value.split(',').map(item => item.trim()).filter(Boolean);
+    return items.length === 1 ? items[0] : items;
+}
+
+/**
+ * Apply one label (with the prefix and any route name removed) to a route.
+ * Returns false if the label does not name a known field.
+ */
+function applyLabel(target: LabelRoute, path: string[], value: string): boolean {
+    const [field, key, ...rest] = path;
+
+    if (field === 'userData' && key && rest.length === 0) {
+        target.userData = { ...target.userData, [key]: value };
+        return true;
+    }
+
+    if ((field === 'template' || field === 'hostname' || field === 'target') && key === undefined) {
+        target[field] = parseFieldValue(field, value);
+        return true;
+    }
+
+    return false;
+}
+
+/**
+ * Check whether a container carries any magic-proxy.* labels.
+ */
+export function hasMagicProxyLabels(labels: Record<string, string> | undefined): boolean {
+    return Object.keys(labels ?? {}).some(key => key.startsWith(MAGIC_PROXY_LABEL_PREFIX));
+}
+
+/**
+ * Read x-magic-proxy configuration from container labels, e.g.
+ *   magic-proxy.template=example.yml
+ *   magic-proxy.hostname=example.com,www.example.com
+ *   magic-proxy.target=http://app:8080
+ *   magic-proxy.userData.oidc_group=admins
+ *   magic-proxy.routes.admin.hostname=admin.example.com
+ *
+ * Returns undefined if the container has no magic-proxy labels. The result
+ * is unvalidated; callers should check it against XMagicProxySchema.
+ */
+export function extractLabelConfig(
+    labels: Record<string, string> | undefined,
+    containerName: string
+): Partial<XMagicProxyData> | undefined {
+    if (!hasMagicProxyLabels(labels)) {
+        return undefined;
+    }
+
+    const config: LabelRoute & { routes?: Record<string, LabelRoute> } = {};
+
+    for (const [key, value] of Object.entries(labels ?? {})) {
+        if (!key.startsWith(MAGIC_PROXY_LABEL_PREFIX)) continue;
+
+        const path = key.slice(MAGIC_PROXY_LABEL_PREFIX.length).split('.');
+        let known: boolean;
+
+        if (path[0] === 'routes' && path.length > 2) {
+            const routeName = path[1];
+            config.routes ??= {};
+            config.routes[routeName] ??= {};
+            known = applyLabel(config.routes[routeName], path.slice(2), value);
+        } else {
+            known = applyLabel(config, path, value);
+        }
+
+        if (!known) {
+            log.warn({ message: 'Ignoring unknown magic-proxy label', data: { containerName, label: key } });
+        }
+    }
+
+    return config as Partial<XMagicProxyData>;
+}
@@ -1,70 +1,259 @@
 import Docker from 'dockerode';
-import { HostEntry } from '../../types/host';
+import { HostEntry, HostReplica } from '../../types/host';
 import { zone } from '../../logging/zone';
-import { ProcessingResult, COMPOSE_SERVICE_LABEL } from './types';
+import { ComposeFileData } from '../../types/docker';
+import { XMagicProxyData } from '../../types/xmagic';
 import {
+    ProcessingResult,
+    COMPOSE_CONFIG_LABEL,
+    COMPOSE_CONTAINER_NUMBER_LABEL,
+    COMPOSE_PROJECT_LABEL,
+    COMPOSE_SERVICE_LABEL,
+    LabelMode,
+    PathResolver
+} from './types';
+import {
+    listAllContainers,
     loadComposeDataForRefs,
     extractContainerName,
     extractXMagicProxy,
     validateXMagicProxy
 } from './compose';
+import { ComposeFileCache } from './composeCache';
+import { extractLabelConfig, hasMagicProxyLabels } from './labels';
+import { getContainerNetworks, needsTargetResolution, resolveContainerTargets } from './targets';
 
 const log = zone('providers.docker');
 
+/** Options for buildContainerManifest */
+export interface ManifestOptions {
+    /** How magic-proxy.* container labels are used (default: fallback) */
+    labels?: LabelMode;
+    /** Containers to build from instead of listing them from Docker */
+    containers?: Docker.ContainerInfo[];
+    /** Maps compose file paths reported by the engine to readable paths (default: resolveHostPath) */
+    resolvePath?: PathResolver;
+    /** Set state.isActive on each entry from the container's state and health */
+    healthAware?: boolean;
+    /** Network to resolve {{ip}} in omitted or templated targets on */
+    network?: string;
+    /** Proxy container whose networks are preferred when resolving {{ip}} */
+    proxyContainer?: string;
+    /** Cache for compose and env files, so unchanged files are not re-read */
+    composeCache?: ComposeFileCache;
+}
+
+/** Key used in ProcessingResult for containers configured only through labels */
+const LABELS_RESULT_KEY = '(labels)';
+
+/** Pattern for the health suffix of a container's status, e.g. "Up 5 minutes (healthy)" */
+const HEALTH_STATUS_PATTERN = /\((healthy|unhealthy|health: starting)\)/;
+
+/**
+ * Whether a container should receive traffic: it is running and, if it has
+ * a healthcheck, reports healthy. Containers still starting their first
+ * healthcheck are not active yet.
+ */
+export function isContainerActive(container: Docker.ContainerInfo): boolean {
+    if (container.State !== 'running') {
+        return false;
+    }
+    const health = HEALTH_STATUS_PATTERN.exec(container.Status ?? '')?.[1];
+    return health === undefined || health === 'healthy';
+}
+
+/**
+ * Pick the x-magic-proxy configuration for a container from its compose
+ * service and its labels, according to the label mode.
+ */
+export function selectConfig(
+    fromCompose: Partial<XMagicProxyData> | undefined,
+    fromLabels: Partial<XMagicProxyData> | undefined,
+    mode: LabelMode
+): Partial<XMagicProxyData> | undefined {
+    switch (mode) {
+        case 'prefer':
+            return fromLabels ?? fromCompose;
+        case 'ignore':
+            return fromCompose;
+        default:
+            return fromCompose ?? fromLabels;
+    }
+}
+
+/**
+ * Groups the entries of a compose file's containers so that the replicas of
+ * a scaled service (`docker compose up --scale`, or `deploy.replicas` above
+ * one) become a single entry named `<project>-<service>`, listing each
+ * replica's target in `replicas`. The first replica's x-magic-proxy is used.
+ * With health-aware routing the group is active while any replica is.
+ * Containers of unscaled services keep their own entries.
+ */
+export function groupReplicas(
+    entries: { container: Docker.ContainerInfo; entry: HostEntry }[],
+    composeData: ComposeFileData,
+    healthAware = false
+): HostEntry[] {
+    const services = new Map<string, { container: Docker.ContainerInfo; entry: HostEntry }[]>();
+    for (const item of entries) {
+        const { Labels: labels } = item.container;
+        const key = JSON.stringify([labels[COMPOSE_PROJECT_LABEL] ?? '', labels[COMPOSE_SERVICE_LABEL] ?? '']);
+        services.set(key, [...services.get(key) ?? [], item]);
+    }
+
+    const grouped: HostEntry[] = [];
+    for (const [key, members] of services) {
+        const [project, service] = JSON.parse(key) as [string, string];
+        const scaled = members.length > 1 || (composeData.services?.[service]?.deploy?.replicas ?? 1) > 1;
+        if (!project || !service || !scaled) {
+            grouped.push(...members.map(member => member.entry));
+            continue;
+        }
+
+        const containerNumber = (member: { container: Docker.ContainerInfo }) =>
+            Number(member.container.Labels[COMPOSE_CONTAINER_NUMBER_LABEL] ?? 0);
+        const sorted = [...members].sort((a, b) => containerNumber(a) - containerNumber(b));
+        const replicas: HostReplica[] = sorted.map(({ entry }) => ({
+            containerName: entry.containerName,
+            target: entry.xMagicProxy.target,
+            ...(healthAware ? { isActive: entry.state.isActive } : {})
+        }));
+
+        grouped.push({
+            ...sorted[0].entry,
+            containerName: `${project}-${service}`,
+            replicas,
+            state: healthAware ? { isActive: replicas.some(replica => replica.isActive) } : {}
+        });
+    }
+    return grouped;
+}
+
 /**
- * Builds a manifest of host entries from Docker containers with x-magic-proxy configuration
+ * Builds a manifest of host entries from Docker containers with x-magic-proxy
+ * configuration, read from their compose files and/or magic-proxy.* labels.
+ * Containers without a compose file (e.g. started with `docker run`) are
+ * included when configured through labels. `dependencies` lists, per
+ * compose file path, every file read to load that project.
  */
-export async function buildContainerManifest(docker: Docker): Promise<{
+export async function buildContainerManifest(docker: Docker, options: ManifestOptions = {}): Promise<{
     manifest: HostEntry[];
     results: ProcessingResult;
+    dependencies: Record<string, string[]>;
 }> {
-    const refs = await loadComposeDataForRefs(docker);
+    const labelMode = options.labels ?? 'fallback';
     const manifest: HostEntry[] = [];
     const results: ProcessingResult = {};
+    const dependencies: Record<string, string[]> = {};
 
-    for (const ref of refs) {
-        const composePath = ref.path;
-        results[composePath] = {};
+    const containers = options.containers ?? await listAllContainers(docker);
+    if (!containers) {
+        return { manifest, results, dependencies };
+    }
 
-        if (ref.error || !ref.composeData) {
-            // Mark all containers from this compose file as failed
-            for (const container of ref.containers) {
-                const name = extractContainerName(container);
-                results[composePath][name] = ref.error || 'Compose data is missing';
+    const refs = await loadComposeDataForRefs(docker, containers, options.resolvePath, options.composeCache);
+
+    // The proxy container's networks are only looked up if a target needs them
+    let proxyNetworks: Promise<string[]> | undefined;
+    const getProxyNetworks = (proxyContainer: string) => {
+        proxyNetworks ??= getContainerNetworks(docker, proxyContainer).catch((error) => {
+            throw new Error(`Failed to inspect proxy container '${proxyContainer}': ${error instanceof Error ? error.message : String(error)}`);
+        });
+        return proxyNetworks;
+    };
+
+    const addEntry = async (
+        container: Docker.ContainerInfo,
+        resultKey: string,
+        xMagicProxy: Partial<XMagicProxyData> | undefined,
+        composeFilePath: string,
+        composeData: ComposeFileData,
+        missingReason: string
+    ) => {
+        const containerName = extractContainerName(container);
+
+        if (!xMagicProxy) {
+            results[resultKey][containerName] = missingReason;
+            return;
+        }
+
+        // Fill in an omitted or templated target from the inspected container.
+        // Configurations missing other required fields are left to validation.
+        if (needsTargetResolution(xMagicProxy) && xMagicProxy.template !== undefined && xMagicProxy.hostname !== undefined) {
+            try {
+                xMagicProxy = await resolveContainerTargets(docker, container.Id, containerName, xMagicProxy, {
+                    network: options.network,
+                    proxyContainer: options.proxyContainer,
+                    proxyNetworks: options.proxyContainer && !options.network
+                        ? await getProxyNetworks(options.proxyContainer)
+                        : undefined
+                });
+            } catch (error) {
+                const reason = error instanceof Error ? error.message : String(error);
+                log.warn({ message: 'Cannot resolve container target', data: { containerName, reason } });
+                results[resultKey][containerName] = `Cannot resolve target: ${reason}`;
+                return;
             }
-            continue;
         }
 
-        // Process each container in this compose file
+        if (!validateXMagicProxy(xMagicProxy, containerName)) {
+            results[resultKey][containerName] = 'Invalid x-magic-proxy configuration';
+            return;
+        }
+
+        results[resultKey][containerName] = 'ok';
+        const entry: HostEntry = {
+            containerName,
+            xMagicProxy,
+            composeFilePath,
+            composeData,
+            lastChanged: Date.now(),
+            state: options.healthAware ? { isActive: isContainerActive(container) } : {}
+        };
+        return entry;
+    };
+
+    for (const ref of refs) {
+        const composePath = ref.path;
+        results[composePath] ??= {};
+        dependencies[composePath] = [...new Set([...dependencies[composePath] ?? [], ...ref.dependencies ?? []])];
+
+        // Process each container in this compose file. If the compose file could
+        // not be loaded, containers may still be configured through labels.
+        const entries: { container: Docker.ContainerInfo; entry: HostEntry }[] = [];
         for (const container of ref.containers) {
-            const containerName = extractContainerName(container);
             const serviceName = container.Labels[COMPOSE_SERVICE_LABEL];
-            const xMagicProxy = extractXMagicProxy(ref.composeData, serviceName);
+            const fromCompose = ref.composeData ? extractXMagicProxy(ref.composeData, serviceName) : undefined;
+            const fromLabels = labelMode === 'ignore' ? undefined : extractLabelConfig(container.Labels, extractContainerName(container));
+            const missingReason = ref.composeData
+                ? 'No x-magic-proxy configuration found'
+                : ref.error || 'Compose data is missing';
 
-            if (!xMagicProxy) {
-                results[composePath][containerName] = 'No x-magic-proxy configuration found';
-                continue;
+            const entry = await addEntry(container, composePath, selectConfig(fromCompose, fromLabels, labelMode),
+                composePath, ref.composeData ?? {}, missingReason);
+            if (entry) {
+                entries.push({ container, entry });
             }
+        }
+        manifest.push(...groupReplicas(entries, ref.composeData ?? {}, options.healthAware));
+    }
 
-            if (!validateXMagicProxy(xMagicProxy, containerName)) {
-                results[composePath][containerName] = 'Invalid x-magic-proxy configuration';
-                continue;
+    // Containers without a compose file can only be configured through labels
+    if (labelMode !== 'ignore') {
+        const labelled = containers.filter(c => !c.Labels[COMPOSE_CONFIG_LABEL] && hasMagicProxyLabels(c.Labels));
+        if (labelled.length > 0) {
+            results[LABELS_RESULT_KEY] = {};
+        }
+        for (const container of labelled) {
+            const entry = await addEntry(container, LABELS_RESULT_KEY, extractLabelConfig(container.Labels, extractContainerName(container)),
+                '', {}, 'No x-magic-proxy configuration found');
+            if (entry) {
+                manifest.push(entry);
             }
-
-            manifest.push({
-                containerName,
-                xMagicProxy,
-                composeFilePath: composePath,
-                composeData: ref.composeData,
-                lastChanged: Date.now(),
-                state: {}
-            });
-
-            results[composePath][containerName] = 'ok';
         }
     }
 
-    return { manifest, results };
+    return { manifest, results, dependencies };
 }
 
 /**
@@ -1,13 +1,77 @@
 import Docker from 'dockerode';
 import fs from 'fs';
 import { HostDB } from '../../hostDb';
+import { HostEntry } from '../../types/host';
+import { getProviderEntries, SyncCounts, syncHostEntries } from '../sync';
+import { apiMessageBroker } from '../../apiMessageBroker';
+import { ProviderModule, ProviderStatus } from '../providerPlugin';
 import { zone } from '../../logging/zone';
-import { DockerProviderConfig } from './types';
-import { groupContainersByComposeFile, resolveHostPath } from './compose';
+import { COMPOSE_CONFIG_LABEL, DockerEvent, DockerProviderConfig, LabelMode, PathResolver, SyncScope } from './types';
+import { createDockerClient, createPathResolver } from './engines';
+import { extractContainerName, groupContainersByComposeFile, listAllContainers, resolveHostPath } from './compose';
+import { ComposeFileCache } from './composeCache';
+import { hasMagicProxyLabels } from './labels';
 import { buildContainerManifest } from './manifest';
 
 const log = zone('providers.docker');
 
+/** Default minimum interval between syncs */
+const DEFAULT_SYNC_INTERVAL_MS = 1000;
+
+/** Default interval between reconciliation syncs */
+const DEFAULT_RECONCILE_INTERVAL_MS = 5 * 60 * 1000;
+
+/** Why a full reconciliation sync was run */
+type ReconcileReason = 'interval' | 'reconnect';
+
+/**
+ * A compose project, or a container configured only through labels, whose
+ * entries are rebuilt together
+ */
+interface SyncUnit {
+    files: string[];
+    containers: Docker.ContainerInfo[];
+}
+
+/**
+ * Group containers into sync units, keyed by compose file path or
+ * `container:<name>` for label-configured containers without one
+ */
+function groupSyncUnits(containers: Docker.ContainerInfo[]): Map<string, SyncUnit> {
+    const units = new Map<string, SyncUnit>();
+    for (const ref of groupContainersByComposeFile(containers)) {
+        const unit = units.get(ref.path) ?? { files: [], containers: [] };
+        unit.files.push(...ref.files);
+        unit.containers.push(...ref.containers);
+        units.set(ref.path, unit);
+    }
+    for (const container of containers) {
+        if (!container.Labels[COMPOSE_CONFIG_LABEL] && hasMagicProxyLabels(container.Labels)) {
+            units.set(`container:${extractContainerName(container)}`, { files: [], containers: [container] });
+        }
+    }
+    return units;
+}
+
+/**
+ * Get the key of the sync unit a host entry was built from
+ */
+function getEntryUnitKey(entry: HostEntry): string {
+    return entry.composeFilePath || `container:${entry.containerName}`;
+}
+
+/**
+ * Combine two sync scopes into one covering both
+ */
+function mergeSyncScopes(current: SyncScope | undefined, scope: SyncScope): SyncScope {
+    if (!current) return scope;
+    if (current === 'all' || scope === 'all') return 'all';
+    return {
+        containers: new Set([...current.containers, ...scope.containers]),
+        files: new Set([...current.files, ...scope.files]),
+    };
+}
+
 /**
  * Docker event stream interface
  */
@@ -20,18 +84,56 @@ interface EventStream {
 /**
  * Docker Provider - watches Docker events and compose files for changes
  */
-export class DockerProvider {
-    private docker: Docker;
+export class DockerProvider implements ProviderModule {
+    /** Name recorded on the host entries this provider owns */
+    protected readonly providerName: string;
+    protected docker: Docker;
+    /** Prefix for container names from a named engine */
+    private namespace?: string;
+    protected resolvePath: PathResolver;
     private hostDb: HostDB;
     private fileWatchers = new Map<string, fs.FSWatcher>();
     private eventStream?: EventStream;
     private isActive = false;
     private syncInProgress = false;
-    private syncPending = false;
+    private syncIntervalMs: number;
+    private syncTimer?: ReturnType<typeof setTimeout>;
+    private lastSyncAt = 0;
+    /** Changes requested since the last sync started */
+    private pendingScope?: SyncScope;
+    private reconcileIntervalMs: number;
+    private reconcileTimer?: ReturnType<typeof setInterval>;
+    /** Reason for a reconciliation requested since the last sync started */
+    private pendingReconcile?: ReconcileReason;
+    /** Drift corrected by reconciliations since the provider was created */
+    private driftCorrected = { added: 0, updated: 0, removed: 0 };
+    /** Parsed compose and env files, re-read only when they change */
+    protected composeCache = new ComposeFileCache();
+    /** Containers listed by the last sync, or null if listing failed */
+    private containers: Docker.ContainerInfo[] | null = null;
+    /**
+     * Entries built by the last sync per sync unit, with the unit's container
+     * IDs and the files (includes, `.env`, env files) its project was read from
+     */
+    private units = new Map<string, { containerIds: string[]; entries: HostEntry[]; dependencies: string[] }>();
+    protected labelMode: LabelMode;
+    private healthAware: boolean;
+    private targetNetwork?: string;
+    private proxyContainer?: string;
 
     constructor(hostDb: HostDB, config?: DockerProviderConfig, docker?: Docker) {
-        this.docker = docker || new Docker();
+        const engine = config?.engine;
+        this.docker = docker || (engine ? createDockerClient(engine) : new Docker());
         this.hostDb = hostDb;
+        this.labelMode = config?.labels ?? 'fallback';
+        this.healthAware = config?.healthAware ?? false;
+        this.syncIntervalMs = config?.syncIntervalMs ?? DEFAULT_SYNC_INTERVAL_MS;
+        this.reconcileIntervalMs = config?.reconcileIntervalMs ?? DEFAULT_RECONCILE_INTERVAL_MS;
+        this.targetNetwork = config?.network;
+        this.proxyContainer = config?.proxyContainer;
+        this.providerName = engine ? `docker:${engine.name}` : 'docker';
+        this.namespace = engine?.name;
+        this.resolvePath = engine ? createPathResolver(engine) : resolveHostPath;
     }
 
     /**
@@ -46,10 +148,14 @@ export class DockerProvider {
         this.isActive = true;
         log.debug({ message: 'Starting Docker provider' });
 
-        await this.syncDatabase();
+        await this.syncDatabase('all');
         this.watchDockerEvents();
         await this.updateFileWatchers();
 
+        if (this.reconcileIntervalMs > 0) {
+            this.reconcileTimer = setInterval(() => this.reconcile('interval'), this.reconcileIntervalMs);
+        }
+
         log.debug({ message: 'Docker provider started successfully' });
     }
 
@@ -62,6 +168,13 @@ export class DockerProvider {
         log.debug({ message: 'Stopping Docker provider' });
         this.isActive = false;
 
+        clearTimeout(this.syncTimer);
+        this.syncTimer = undefined;
+        this.pendingScope = undefined;
+        this.pendingReconcile = undefined;
+        clearInterval(this.reconcileTimer);
+        this.reconcileTimer = undefined;
+
         // Clean up Docker event stream
         if (this.eventStream) {
             this.eventStream.removeAllListeners();
@@ -79,6 +192,17 @@ export class DockerProvider {
         log.debug({ message: 'Docker provider stopped' });
     }
 
+    /**
+     * Get the provider status
+     */
+    getStatus(): ProviderStatus {
+        return {
+            active: this.isActive,
+            hosts: getProviderEntries(this.hostDb, this.providerName).length,
+            composeFiles: Array.from(this.fileWatchers.keys()),
+        };
+    }
+
     /**
      * Watch Docker events for container lifecycle changes
      */
@@ -98,10 +222,7 @@ export class DockerProvider {
                 if (!this.isActive) return;
 
                 try {
-                    const event = JSON.parse(chunk.toString('utf8'));
-                    if (event.Type === 'container') {
-                        this.handleContainerEvent(event);
-                    }
+                    this.handleEvent(JSON.parse(chunk.toString('utf8')));
                 } catch (e) {
                     log.error({
                         message: 'Failed to parse Docker event',
@@ -125,22 +246,39 @@ export class DockerProvider {
         });
     }
 
+    /**
+     * Handle an event from the engine's event stream.
+     * Subclasses may override this to react to other event types.
+     */
+    protected handleEvent(event: DockerEvent): void {
+        if (event.Type === 'container') {
+            this.handleContainerEvent(event);
+        }
+    }
+
     /**
      * Handle a Docker container event
      */
-    private handleContainerEvent(event: { Action: string; Actor?: { Attributes?: { name?: string } }; id?: string }): void {
+    private handleContainerEvent(event: DockerEvent): void {
         const { Action: action, Actor, id } = event;
         const containerName = Actor?.Attributes?.name || 'unknown';
+        const containerId = id ?? Actor?.ID;
+        const scope: SyncScope = containerId ? { containers: new Set([containerId]), files: new Set() } : 'all';
 
         const syncActions = ['create', 'start', 'destroy', 'die', 'stop'];
         if (syncActions.includes(action)) {
             log.debug({ message: `Container ${action}`, data: { containerName, id } });
-            this.scheduleSync();
+            this.scheduleSync(scope);
+        } else if (this.healthAware && action.startsWith('health_status')) {
+            // Action is e.g. "health_status: unhealthy"
+            log.debug({ message: 'Container health changed', data: { containerName, id, action } });
+            this.scheduleSync(scope);
         }
     }
 
     /**
-     * Reconnect to Docker event stream after delay
+     * Reconnect to Docker event stream after delay, then resync fully since
+     * events may have been missed while disconnected
      */
     private reconnectEventStream(): void {
         if (!this.isActive) return;
@@ -149,10 +287,53 @@ export class DockerProvider {
             if (this.isActive) {
                 log.debug({ message: 'Reconnecting to Docker event stream' });
                 this.watchDockerEvents();
+                this.reconcile('reconnect');
             }
         }, 5000);
     }
 
+    /**
+     * Schedule a full sync as a safety net against missed events and file
+     * changes; the changes it makes are reported as corrected drift. It runs
+     * as its own pass after any pending sync, so changes events asked for are
+     * not counted.
+     */
+    private reconcile(reason: ReconcileReason): void {
+        log.debug({ message: 'Scheduling reconciliation', data: { reason } });
+        this.pendingReconcile = reason;
+        this.startSyncTimer();
+    }
+
+    /**
+     * Log and publish (as the API field `reconciliation-<provider>`) the drift
+     * a reconciliation corrected
+     */
+    private reportDrift(reason: ReconcileReason, counts: SyncCounts): void {
+        const { added, updated, removed } = counts;
+        this.driftCorrected.added += added;
+        this.driftCorrected.updated += updated;
+        this.driftCorrected.removed += removed;
+
+        if (added + updated + removed > 0) {
+            log.warn({
+                message: 'Reconciliation corrected drift',
+                data: { provider: this.providerName, reason, added, updated, removed }
+            });
+        } else {
+            log.debug({ message: 'Reconciliation found no drift', data: { provider: this.providerName, reason } });
+        }
+
+        apiMessageBroker.setField(`reconciliation-${this.providerName.replace(/[^a-zA-Z0-9_-]/g, '-')}`, {
+            provider: this.providerName,
+            reason,
+            reconciledAt: new Date().toISOString(),
+            added,
+            updated,
+            removed,
+            totalCorrected: { ...this.driftCorrected },
+        });
+    }
+
     /**
      * Create a file watcher for a compose file.
      * Handles re-attaching after rename events (atomic writes).
@@ -164,7 +345,7 @@ export class DockerProvider {
             existing.close();
         }
 
-        const resolvedPath = resolveHostPath(path);
+        const resolvedPath = this.resolvePath(path);
         const watcher = fs.watch(resolvedPath, (eventType, filename) => {
             if (!this.isActive) return;
 
@@ -180,19 +361,21 @@ export class DockerProvider {
             if (eventType === 'rename') {
                 log.debug({ message: 'Re-attaching file watcher after rename', data: { path } });
                 setTimeout(() => {
-                    if (this.isActive && fs.existsSync(resolveHostPath(path))) {
+                    if (this.isActive && fs.existsSync(this.resolvePath(path))) {
                         this.createFileWatcher(path);
                     }
                 }, 100);
             }
 
-            // Schedule sync after file change
+            // Schedule sync after file change. The file's mtime may not have
+            // moved (coarse timestamps), so have the cache check its content.
             const delay = eventType === 'rename' ? 100 : 0;
             log.debug({
                 message: 'Scheduling sync after file change',
                 data: { path, delay }
             });
-            setTimeout(() => this.isActive && this.scheduleSync(), delay);
+            this.composeCache.invalidate(resolvedPath);
+            setTimeout(() => this.isActive && this.scheduleSync({ containers: new Set(), files: new Set([path]) }), delay);
         });
 
         watcher.on('error', (err) => {
@@ -207,20 +390,107 @@ export class DockerProvider {
         log.debug({ message: 'Started watching compose file', data: { path } });
     }
 
+    /**
+     * List all containers known to the engine, or null if listing failed.
+     * Subclasses may override this to adapt engine-specific labels.
+     */
+    protected async listContainers(): Promise<Docker.ContainerInfo[] | null> {
+        return listAllContainers(this.docker);
+    }
+
+    /**
+     * Build the host entries for the engine's current state.
+     * Only the sync units (compose projects, and containers configured through
+     * labels alone) touched by `scope`, or whose containers changed, are
+     * rebuilt; the others keep the entries from the previous sync.
+     * Subclasses may override this to read something other than containers.
+     */
+    protected async buildManifest(scope: SyncScope = 'all'): Promise<HostEntry[]> {
+        this.containers = await this.listContainers();
+        const units = groupSyncUnits(this.containers ?? []);
+        const dirty = new Set(Array.from(units.keys()).filter(key => this.isUnitDirty(key, units.get(key) as SyncUnit, scope)));
+
+        const { manifest, dependencies } = await buildContainerManifest(this.docker, {
+            labels: this.labelMode,
+            containers: Array.from(dirty).flatMap(key => units.get(key)?.containers ?? []),
+            resolvePath: this.resolvePath,
+            healthAware: this.healthAware,
+            network: this.targetNetwork,
+            proxyContainer: this.proxyContainer,
+            composeCache: this.composeCache
+        });
+
+        const next = new Map<string, { containerIds: string[]; entries: HostEntry[]; dependencies: string[] }>();
+        for (const [key, unit] of units) {
+            next.set(key, {
+                containerIds: unit.containers.map(container => container.Id),
+                entries: dirty.has(key) ? [] : this.units.get(key)?.entries ?? [],
+                dependencies: dirty.has(key) ? dependencies[key] ?? [] : this.units.get(key)?.dependencies ?? []
+            });
+        }
+        for (const entry of manifest) {
+            const key = getEntryUnitKey(entry);
+            const unit = next.get(key) ?? { containerIds: [], entries: [], dependencies: [] };
+            unit.entries.push(entry);
+            next.set(key, unit);
+        }
+        this.units = next;
+
+        // Every project was just read, so cached files none of them used are stale
+        if (scope === 'all') {
+            const referenced = Array.from(next.values()).flatMap(unit => unit.dependencies);
+            this.composeCache.prune(new Set(referenced.map(file => this.resolvePath(file))));
+        }
+
+        log.debug({ message: 'Rebuilt sync units', data: { rebuilt: dirty.size, total: units.size } });
+
+        // Callers may modify the entries (e.g. namespacing), so keep ours intact
+        return Array.from(next.values()).flatMap(unit => unit.entries.map(entry => ({ ...entry })));
+    }
+
+    /**
+     * Whether a sync unit must be rebuilt: it is new, its containers changed,
+     * or the scope names one of its containers or the files it was read from
+     */
+    private isUnitDirty(key: string, unit: SyncUnit, scope: SyncScope): boolean {
+        const previous = this.units.get(key);
+        if (scope === 'all' || !previous) {
+            return true;
+        }
+        const containerIds = unit.containers.map(container => container.Id);
+        return containerIds.length !== previous.containerIds.length
+            || containerIds.some(id => scope.containers.has(id) || !previous.containerIds.includes(id))
+            || [...unit.files, ...previous.dependencies].some(file => scope.files.has(file));
+    }
+
+    /**
+     * List the compose files to watch, or null if they cannot be determined.
+     * Uses the containers listed by the last sync, and includes the files
+     * their projects were read from (includes, `.env`, env files).
+     */
+    protected async getComposeFilePaths(): Promise<string[] | null> {
+        const containers = this.containers ?? await this.listContainers();
+        if (!containers) return null;
+        const files = groupContainersByComposeFile(containers).flatMap(r => r.files);
+        const dependencies = Array.from(this.units.values()).flatMap(unit => unit.dependencies);
+        return Array.from(new Set([...files, ...dependencies]));
+    }
+
     /**
      * Update file watchers for compose files
      */
     private async updateFileWatchers(): Promise<void> {
         try {
-            const containers = await this.docker.listContainers({ all: true });
-            const refs = groupContainersByComposeFile(containers);
-            const activePaths = new Set(refs.map(r => r.path).filter(Boolean));
+            const paths = await this.getComposeFilePaths();
+            if (!paths) return;
+
+            const activePaths = new Set(paths.filter(Boolean));
 
             // Add watchers for new files
             for (const path of activePaths) {
                 if (this.fileWatchers.has(path)) continue;
 
-                const resolvedPath = resolveHostPath(path);
+                const resolvedPath = this.resolvePath(path);
                 if (!fs.existsSync(resolvedPath)) {
                     log.warn({ message: 'Compose file does not exist', data: { path } });
                     continue;
@@ -253,45 +523,65 @@ export class DockerProvider {
     }
 
     /**
-     * Schedule a database sync - ensures only one sync runs at a time
+     * Schedule a database sync covering `scope` (default: everything).
+     * Requests are coalesced: a sync starts at most once per syncIntervalMs
+     * and only one runs at a time, so a burst of events (e.g. a
+     * `docker compose up`) results in a few syncs covering all of them.
      */
-    private scheduleSync(): void {
-        if (this.syncInProgress) {
-            this.syncPending = true;
-            return;
-        }
-        this.runSync();
+    protected scheduleSync(scope: SyncScope = 'all'): void {
+        this.pendingScope = mergeSyncScopes(this.pendingScope, scope);
+        this.startSyncTimer();
+    }
+
+    /**
+     * Start the timer for the pending sync or reconciliation, unless one is
+     * running or already scheduled
+     */
+    private startSyncTimer(): void {
+        if ((!this.pendingScope && !this.pendingReconcile) || this.syncInProgress || this.syncTimer) return;
+
+        const delay = Math.max(0, this.lastSyncAt + this.syncIntervalMs - Date.now());
+        this.syncTimer = setTimeout(() => {
+            this.syncTimer = undefined;
+            void this.runSync();
+        }, delay);
     }
 
     /**
-     * Run the sync operation with serialization
+     * Run the pending sync and then the pending reconciliation, then schedule
+     * any sync requested meanwhile
      */
     private async runSync(): Promise<void> {
-        this.syncInProgress = true;
-        this.syncPending = false;
+        const scope = this.pendingScope;
+        const reconcile = this.pendingReconcile;
+        this.pendingScope = undefined;
+        this.pendingReconcile = undefined;
+        if ((!scope && !reconcile) || !this.isActive) return;
 
+        this.syncInProgress = true;
         try {
-            await this.syncDatabase();
+            if (scope) {
+                await this.syncDatabase(scope);
+            }
+            if (reconcile && this.isActive) {
+                await this.syncDatabase('all', reconcile);
+            }
         } finally {
             this.syncInProgress = false;
-
-            // If another sync was requested while we were running, run it now
-            if (this.syncPending) {
-                this.syncPending = false;
-                setImmediate(() => this.runSync());
-            }
+            this.startSyncTimer();
         }
     }
 
     /**
-     * Synchronize the database with current Docker state
+     * Synchronize the database with current Docker state.
+     * For reconciliations, the changes made are reported as drift.
      */
-    private async syncDatabase(): Promise<void> {
-        log.debug({ message: 'Starting database sync' });
+    private async syncDatabase(scope: SyncScope, reconcile?: ReconcileReason): Promise<void> {
+        log.debug({ message: 'Starting database sync', data: { scope: scope === 'all' ? 'all' : 'incremental' } });
+        this.lastSyncAt = Date.now();
 
         try {
-            const { manifest } = await buildContainerManifest(this.docker);
-            const manifestNames = new Set(manifest.map(e => e.containerName));
+            const manifest = await this.buildManifest(scope);
 
             log.debug({
                 message: 'Manifest built',
@@ -305,76 +595,26 @@ export class DockerProvider {
                 }
             });
 
-            // Upsert all manifest entries and track changes
-            let entriesAdded = 0;
-            let entriesUpdated = 0;
-            let entriesUnchanged = 0;
-
             for (const entry of manifest) {
-                try {
-                    const existing = this.hostDb.get(entry.containerName);
-                    const sizeBefore = this.hostDb.getAll().length;
-
-                    this.hostDb.upsert(entry);
-
-                    const sizeAfter = this.hostDb.getAll().length;
-
-                    if (!existing) {
-                        entriesAdded++;
-                        log.debug({
-                            message: 'Container added to database',
-                            data: { containerName: entry.containerName }
-                        });
-                    } else if (sizeBefore === sizeAfter) {
-                        // Check if the entry was actually updated by comparing the data
-                        const currentEntry = this.hostDb.get(entry.containerName);
-                        const wasUpdated = currentEntry?.lastChanged !== existing.lastChanged;
-                        if (wasUpdated) {
-                            entriesUpdated++;
-                            log.debug({
-                                message: 'Container updated in database',
-                                data: { containerName: entry.containerName }
-                            });
-                        } else {
-                            entriesUnchanged++;
-                            log.debug({
-                                message: 'Container unchanged in database',
-                                data: { containerName: entry.containerName }
-                            });
-                        }
-                    }
-                } catch (err) {
-                    log.error({
-                        message: 'Failed to upsert container entry',
-                        data: {
-                            containerName: entry.containerName,
-                            error: err instanceof Error ? err.message : String(err)
-                        }
-                    });
+                entry.source = { provider: this.providerName, path: entry.composeFilePath || undefined };
+                if (this.namespace) {
+                    entry.containerName = `${this.namespace}/${entry.containerName}`;
                 }
             }
-
-            // Remove entries no longer in manifest
-            let entriesRemoved = 0;
-            for (const entry of this.hostDb.getAll()) {
-                if (!manifestNames.has(entry.containerName)) {
-                    log.debug({
-                        message: 'Removing container no longer referenced',
-                        data: { containerName: entry.containerName }
-                    });
-                    this.hostDb.remove(entry.containerName);
-                    entriesRemoved++;
-                }
+            const counts = syncHostEntries(this.hostDb, this.providerName, manifest);
+            const { added, updated, removed, unchanged } = counts;
+            if (reconcile) {
+                this.reportDrift(reconcile, counts);
             }
 
             // Log if file change resulted in no database updates
-            const totalChanges = entriesAdded + entriesUpdated + entriesRemoved;
+            const totalChanges = added + updated + removed;
             if (totalChanges === 0 && manifest.length > 0) {
                 log.debug({
                     message: 'Database sync completed with no changes',
                     data: {
                         manifestCount: manifest.length,
-                        unchangedEntries: entriesUnchanged,
+                        unchangedEntries: unchanged,
                         reason: 'Compose file content unchanged or no x-magic-proxy changes detected'
                     }
                 });
@@ -385,12 +625,12 @@ export class DockerProvider {
             log.debug({
                 message: 'Database sync completed',
                 data: {
-                    totalInManifest: manifestNames.size,
+                    totalInManifest: manifest.length,
                     currentInDb: this.hostDb.getAll().length,
-                    added: entriesAdded,
-                    updated: entriesUpdated,
-                    removed: entriesRemoved,
-                    unchanged: entriesUnchanged
+                    added,
+                    updated,
+                    removed,
+                    unchanged
                 }
             });
         } catch (err) {
@@ -0,0 +1,120 @@
+import Docker from 'dockerode';
+import { XMagicProxyData } from '../../types/xmagic';
+
+/** Placeholders a target may use, filled in from the inspected container */
+const TARGET_PLACEHOLDER_PATTERN = /{{\s*(container|ip|port)\s*}}/g;
+
+/** Target used when x-magic-proxy has none */
+export const DEFAULT_TARGET_TEMPLATE = 'http://{{ip}}:{{port}}';
+
+/**
+ * How the network to reach containers on is chosen:
+ * - network: a network name
+ * - proxyNetworks: the networks of the proxy container; the first one the
+ *   container shares is used
+ * Without either, the container must be on exactly one network.
+ */
+export interface TargetNetworkOptions {
+    network?: string;
+    proxyNetworks?: string[];
+    proxyContainer?: string;
+}
+
+/**
+ * Whether the target, or a route's target, is omitted or uses placeholders
+ */
+export function needsTargetResolution(xMagicProxy: Partial<XMagicProxyData>): boolean {
+    const targets = [xMagicProxy.target, ...Object.values(xMagicProxy.routes ?? {}).map(route => route?.target)];
+    return xMagicProxy.target === undefined || targets.some(target => typeof target === 'string' && /{{/.test(target));
+}
+
+/**
+ * Get the networks a container is attached to, by name
+ */
+export async function getContainerNetworks(docker: Docker, containerName: string): Promise<string[]> {
+    const info = await docker.getContainer(containerName).inspect();
+    return Object.keys(info.NetworkSettings?.Networks ?? {});
+}
+
+/**
+ * Pick the network to reach a container on, returning its name
+ */
+function selectNetwork(info: Docker.ContainerInspectInfo, options: TargetNetworkOptions): string {
+    const networks = info.NetworkSettings?.Networks ?? {};
+    const candidates = Object.keys(networks).filter(name => networks[name]?.IPAddress);
+
+    if (options.network) {
+        if (!candidates.includes(options.network)) {
+            throw new Error(`Container is not attached to network '${options.network}'`);
+        }
+        return options.network;
+    }
+
+    if (options.proxyNetworks) {
+        const shared = candidates.find(name => options.proxyNetworks?.includes(name));
+        if (!shared) {
+            throw new Error(`Container shares no network with proxy container '${options.proxyContainer}'`);
+        }
+        return shared;
+    }
+
+    if (candidates.length === 0) {
+        throw new Error('Container has no network address');
+    }
+    if (candidates.length > 1) {
+        throw new Error(`Container is on several networks (${candidates.join(', ')}); set docker.network or docker.proxyContainer`);
+    }
+    return candidates[0];
+}
+
+/**
+ * Get the container's single exposed TCP port
+ */
+function getExposedPort(info: Docker.ContainerInspectInfo): string {
+    const ports = Object.keys(info.Config?.ExposedPorts ?? {})
+        .filter(port => port.endsWith('/tcp'))
+        .map(port => port.split('/')[0]);
+
+    if (ports.length !== 1) {
+        const exposed = ports.length === 0 ? 'no ports' : `several ports (${ports.join(', ')})`;
+        throw new Error(`Container exposes ${exposed}; set the port in target`);
+    }
+    return ports[0];
+}
+
+/**
+ * Fill in an omitted target, and the {{container}}, {{ip}} and {{port}}
+ * placeholders of the target and route targets, from the inspected container.
+ * {{ip}} is the container's address on the selected network and {{port}}
+ * its single exposed port. Throws with a reason if a value cannot be
+ * determined.
+ */
+export async function resolveContainerTargets(
+    docker: Docker,
+    containerId: string,
+    containerName: string,
+    xMagicProxy: Partial<XMagicProxyData>,
+    options: TargetNetworkOptions = {}
+): Promise<Partial<XMagicProxyData>> {
+    const info = await docker.getContainer(containerId).inspect();
+
+    const values: Record<string, () => string> = {
+        container: () => containerName,
+        ip: () => info.NetworkSettings.Networks[selectNetwork(info, options)].IPAddress,
+        port: () => getExposedPort(info),
+    };
+    const fill = (target: string): string =>
+        target.replace(TARGET_PLACEHOLDER_PATTERN, (_match, name: string) => values[name]());
+
+    const resolved: Partial<XMagicProxyData> = {
+        ...xMagicProxy,
+        target: fill(xMagicProxy.target ?? DEFAULT_TARGET_TEMPLATE),
+    };
+    if (xMagicProxy.routes) {
+        resolved.routes = Object.fromEntries(Object.entries(xMagicProxy.routes).map(([route, config]) => [
+            route,
+            typeof config?.target === 'string' ? { ...config, target: fill(config.target) } : config
+        ]));
+    }
+    return resolved;
+}
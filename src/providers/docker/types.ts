@@ -1,20 +1,66 @@
 import Docker from 'dockerode';
 import { ComposeFileData } from '../../types/docker';
+import { DockerEngineConfig } from '../../types/config';
 
 /**
  * Labels used by Docker Compose to identify containers and their source files
  */
 export const COMPOSE_CONFIG_LABEL = 'com.docker.compose.project.config_files';
 export const COMPOSE_SERVICE_LABEL = 'com.docker.compose.service';
+export const COMPOSE_PROJECT_LABEL = 'com.docker.compose.project';
+export const COMPOSE_CONTAINER_NUMBER_LABEL = 'com.docker.compose.container-number';
+
+/**
+ * Prefix of container labels carrying x-magic-proxy fields, e.g. `magic-proxy.hostname`
+ */
+export const MAGIC_PROXY_LABEL_PREFIX = 'magic-proxy.';
+
+/**
+ * How container labels are combined with x-magic-proxy from compose files:
+ * - fallback: use labels only when the compose service has no x-magic-proxy
+ * - prefer: use labels when present, otherwise the compose file
+ * - ignore: never read labels
+ */
+export type LabelMode = 'fallback' | 'prefer' | 'ignore';
+
+/**
+ * Maps a compose file path as reported by the engine to a path readable here
+ */
+export type PathResolver = (hostPath: string) => string;
+
+/**
+ * An event from the engine's event stream (GET /events)
+ */
+export interface DockerEvent {
+    Type?: string;
+    Action: string;
+    Actor?: {
+        ID?: string;
+        Attributes?: { [name: string]: string | undefined };
+    };
+    id?: string;
+}
+
+/**
+ * What a sync covers: everything, or only the compose projects and
+ * label-configured containers that include the given containers (by ID) or
+ * use the given compose files
+ */
+export type SyncScope = 'all' | { containers: Set<string>; files: Set<string> };
 
 /**
  * Reference to a Docker Compose file and its associated containers
  */
 export interface ComposeFileReference {
+    /** The project's primary (first) compose file */
     path: string;
+    /** Every file of the project, in the order compose merges them */
+    files: string[];
     containers: Docker.ContainerInfo[];
     composeData?: ComposeFileData;
     error?: string;
+    /** Every file read to load the project: compose files, includes, `.env` and env files */
+    dependencies?: string[];
 }
 
 /**
@@ -33,4 +79,16 @@ export interface ProcessingResult {
 export interface DockerProviderConfig {
     /** Minimum interval between sync operations in ms (default: 1000) */
     syncIntervalMs?: number;
+    /** Interval between full reconciliation syncs in ms; 0 disables them (default: 300000) */
+    reconcileIntervalMs?: number;
+    /** How magic-proxy.* container labels are used (default: fallback) */
+    labels?: LabelMode;
+    /** Network to reach containers on when resolving omitted or templated targets */
+    network?: string;
+    /** Proxy container whose networks are preferred when resolving targets */
+    proxyContainer?: string;
+    /** Only route to running containers that are healthy, if they have a healthcheck (default: false) */
+    healthAware?: boolean;
+    /** Engine to connect to instead of the local socket; its containers are namespaced by its name */
+    engine?: DockerEngineConfig;
 }
@@ -0,0 +1,21 @@
+/**
+ * File Provider - serves hosts defined in static YAML/JSON files
+ */
+
+// Main provider class
+export { FileProvider } from './provider';
+
+// Types
+export {
+    FileProviderConfig,
+    HostFileData,
+    HOST_FILE_EXTENSIONS
+} from './types';
+
+// Host file utilities
+export {
+    resolveHostFilePath,
+    listHostFiles,
+    loadHostFile,
+    loadHostDefinitions
+} from './loader';
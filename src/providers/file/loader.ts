@@ -0,0 +1,97 @@
+import fs from 'fs/promises';
+import path from 'path';
+import yaml from 'js-yaml';
+import { CONFIG_DIRECTORY } from '../../config';
+import { HostEntry } from '../../types/host';
+import { validateXMagicProxyData } from '../../types/xmagic';
+import { zone } from '../../logging/zone';
+import { HostFileData, HOST_FILE_EXTENSIONS, HOST_NAME_PATTERN } from './types';
+
+const log = zone('providers.file');
+
+/**
+ * Resolve the configured host file path against CONFIG_DIRECTORY
+ */
+export function resolveHostFilePath(hostPath: string): string {
+    return path.isAbsolute(hostPath) ? hostPath : path.resolve(CONFIG_DIRECTORY, hostPath);
+}
+
+/**
+ * List the host files at a path: the file itself, or the YAML/JSON files in a
+ * directory (not recursive) in name order.
+ */
+export async function listHostFiles(resolvedPath: string): Promise<string[]> {
+    const stat = await fs.stat(resolvedPath);
+    if (!stat.isDirectory()) {
+        return [resolvedPath];
+    }
+
+    const names = await fs.readdir(resolvedPath);
+    return names
+        .filter(name => HOST_FILE_EXTENSIONS.includes(path.extname(name).toLowerCase()))
+        .sort()
+        .map(name => path.join(resolvedPath, name));
+}
+
+/**
+ * Read host entries from a single YAML or JSON host file.
+ * Invalid host definitions are skipped with a warning; a file that cannot be
+ * read or parsed throws.
+ */
+export async function loadHostFile(filePath: string): Promise<HostEntry[]> {
+    const content = await fs.readFile(filePath, 'utf-8');
+    const data = (yaml.load(content) ?? {}) as HostFileData;
+
+    if (typeof data !== 'object' || Array.isArray(data)) {
+        throw new Error('Host file must contain a mapping with a "hosts" key');
+    }
+
+    const entries: HostEntry[] = [];
+    for (const [name, definition] of Object.entries(data.hosts ?? {})) {
+        if (!HOST_NAME_PATTERN.test(name)) {
+            log.warn({ message: 'Skipping host with invalid name', data: { name, path: filePath } });
+            continue;
+        }
+
+        const result = validateXMagicProxyData(definition);
+        if (!result.valid) {
+            log.warn({ message: 'Skipping invalid host definition', data: { name, path: filePath, reason: result.reason } });
+            continue;
+        }
+
+        entries.push({
+            containerName: name,
+            xMagicProxy: result.value,
+            source: { provider: 'file', path: filePath },
+            lastChanged: Date.now(),
+            state: {}
+        });
+    }
+
+    return entries;
+}
+
+/**
+ * Read all host entries from a host file or directory.
+ * A host defined in several files is taken from the first one.
+ */
+export async function loadHostDefinitions(hostPath: string): Promise<HostEntry[]> {
+    const files = await listHostFiles(resolveHostFilePath(hostPath));
+    const entries = new Map<string, HostEntry>();
+
+    for (const file of files) {
+        for (const entry of await loadHostFile(file)) {
+            const existing = entries.get(entry.containerName);
+            if (existing) {
+                log.warn({
+                    message: 'Host is defined in several files; using the first',
+                    data: { name: entry.containerName, used: existing.source?.path, ignored: file }
+                });
+                continue;
+            }
+            entries.set(entry.containerName, entry);
+        }
+    }
+
+    return Array.from(entries.values());
+}
@@ -0,0 +1,162 @@
+import fs from 'fs';
+import { HostDB } from '../../hostDb';
+import { HostEntry } from '../../types/host';
+import { zone } from '../../logging/zone';
+import { getProviderEntries, syncHostEntries } from '../sync';
+import { ProviderModule, ProviderStatus } from '../providerPlugin';
+import { loadHostDefinitions, resolveHostFilePath } from './loader';
+import { FileProviderConfig } from './types';
+
+const log = zone('providers.file');
+
+/** Delay before re-reading after a change, so editors can finish writing */
+const RELOAD_DELAY_MS = 100;
+
+/**
+ * File Provider - serves hosts defined in a YAML/JSON file or directory, for
+ * upstreams that are not containers (bare-metal services, VMs).
+ */
+export class FileProvider implements ProviderModule {
+    private readonly providerName = 'file';
+    private hostDb: HostDB;
+    private hostPath: string;
+    private watcher?: fs.FSWatcher;
+    private reloadTimer?: ReturnType<typeof setTimeout>;
+    private isActive = false;
+    private syncInProgress = false;
+    private syncPending = false;
+
+    constructor(hostDb: HostDB, config: FileProviderConfig) {
+        this.hostDb = hostDb;
+        this.hostPath = config.path;
+    }
+
+    /**
+     * Start the provider - loads the host files and watches them for changes
+     */
+    async start(): Promise<void> {
+        if (this.isActive) {
+            log.warn({ message: 'FileProvider is already active' });
+            return;
+        }
+
+        this.isActive = true;
+        log.debug({ message: 'Starting file provider', data: { path: this.hostPath } });
+
+        await this.syncDatabase();
+        this.attachWatcher();
+    }
+
+    /**
+     * Stop the provider - cleans up the watcher. Hosts stay registered.
+     */
+    stop(): void {
+        if (!this.isActive) return;
+
+        this.isActive = false;
+        clearTimeout(this.reloadTimer);
+        this.watcher?.close();
+        this.watcher = undefined;
+        log.debug({ message: 'File provider stopped' });
+    }
+
+    /**
+     * Get the provider status
+     */
+    getStatus(): ProviderStatus {
+        return {
+            active: this.isActive,
+            hosts: getProviderEntries(this.hostDb, this.providerName).length,
+            path: resolveHostFilePath(this.hostPath),
+        };
+    }
+
+    /**
+     * Attach or re-attach the watcher to the host file or directory.
+     * Re-attached after rename events, since atomic writes replace the file.
+     */
+    private attachWatcher(): void {
+        const resolvedPath = resolveHostFilePath(this.hostPath);
+
+        try {
+            this.watcher = fs.watch(resolvedPath, (eventType) => {
+                if (!this.isActive) return;
+
+                log.debug({ message: 'Host file changed', data: { path: resolvedPath, eventType } });
+
+                if (eventType === 'rename' && !fs.statSync(resolvedPath, { throwIfNoEntry: false })?.isDirectory()) {
+                    this.watcher?.close();
+                    setTimeout(() => this.isActive && this.attachWatcher(), RELOAD_DELAY_MS);
+                }
+
+                this.scheduleReload();
+            });
+        } catch (err) {
+            log.error({
+                message: 'Failed to watch host file',
+                data: { path: resolvedPath, error: err instanceof Error ? err.message : String(err) }
+            });
+            return;
+        }
+
+        this.watcher.on('error', (err) => {
+            log.error({
+                message: 'Host file watcher error',
+                data: { path: resolvedPath, error: err instanceof Error ? err.message : String(err) }
+            });
+        });
+    }
+
+    /**
+     * Re-read the host files shortly after a change, coalescing bursts of events
+     */
+    private scheduleReload(): void {
+        clearTimeout(this.reloadTimer);
+        this.reloadTimer = setTimeout(() => {
+            if (!this.isActive) return;
+            if (this.syncInProgress) {
+                this.syncPending = true;
+                return;
+            }
+            void this.runSync();
+        }, RELOAD_DELAY_MS);
+    }
+
+    /**
+     * Run the sync operation with serialization
+     */
+    private async runSync(): Promise<void> {
+        this.syncInProgress = true;
+        this.syncPending = false;
+
+        try {
+            await this.syncDatabase();
+        } finally {
+            this.syncInProgress = false;
+            if (this.syncPending && this.isActive) {
+                this.syncPending = false;
+                setImmediate(() => this.runSync());
+            }
+        }
+    }
+
+    /**
+     * Synchronize the database with the host files.
+     * If the files cannot be read, the current hosts are kept.
+     */
+    private async syncDatabase(): Promise<void> {
+        let manifest: HostEntry[];
+        try {
+            manifest = await loadHostDefinitions(this.hostPath);
+        } catch (err) {
+            log.error({
+                message: 'Failed to load host files; keeping current hosts',
+                data: { path: this.hostPath, error: err instanceof Error ? err.message : String(err) }
+            });
+            return;
+        }
+
+        const counts = syncHostEntries(this.hostDb, this.providerName, manifest);
+        log.debug({ message: 'Host file sync completed', data: { path: this.hostPath, hosts: manifest.length, ...counts } });
+    }
+}
@@ -0,0 +1,26 @@
+/**
+ * Configuration for the file provider
+ */
+export interface FileProviderConfig {
+    /** Host file, or a directory of host files; relative paths are resolved against CONFIG_DIRECTORY */
+    path: string;
+}
+
+/**
+ * Contents of a host file: x-magic-proxy definitions keyed by host name, e.g.
+ *
+ *   hosts:
+ *     nas:
+ *       template: example.yml
+ *       hostname: nas.example.org
+ *       target: http://192.168.1.20:5000
+ */
+export interface HostFileData {
+    hosts?: Record<string, unknown>;
+}
+
+/** Extensions of files read from a host file directory */
+export const HOST_FILE_EXTENSIONS = ['.yml', '.yaml', '.json'];
+
+/** Host names follow the same rules as container names */
+export const HOST_NAME_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9_.-]*$/;
@@ -0,0 +1,16 @@
+/**
+ * Podman Provider - monitors Podman containers through the Docker-compatible API
+ */
+
+// Main provider class
+export { PodmanProvider } from './provider';
+
+// Types
+export {
+    PodmanProviderConfig,
+    COMPOSE_WORKING_DIR_LABEL,
+    getDefaultSocketPath
+} from './types';
+
+// Label utilities
+export { normalizePodmanLabels } from './labels';
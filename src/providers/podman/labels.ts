@@ -0,0 +1,23 @@
+import path from 'path';
+import { COMPOSE_CONFIG_LABEL } from '../docker/types';
+import { COMPOSE_WORKING_DIR_LABEL } from './types';
+
+/**
+ * Adapt podman-compose labels to the Docker Compose labels the Docker
+ * provider understands. podman-compose records config_files relative to the
+ * project's working directory, so each path is resolved against it.
+ */
+export function normalizePodmanLabels(labels: Record<string, string> | undefined): Record<string, string> {
+    const normalized = { ...labels };
+    const configFiles = normalized[COMPOSE_CONFIG_LABEL];
+    const workingDir = normalized[COMPOSE_WORKING_DIR_LABEL];
+
+    if (configFiles && workingDir) {
+        normalized[COMPOSE_CONFIG_LABEL] = configFiles
+            .split(',')
+            .map(file => path.resolve(workingDir, file.trim()))
+            .join(',');
+    }
+
+    return normalized;
+}
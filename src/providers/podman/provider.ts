@@ -0,0 +1,44 @@
+import Docker from 'dockerode';
+import { HostDB } from '../../hostDb';
+import { DockerProvider } from '../docker/provider';
+import { ProviderStatus } from '../providerPlugin';
+import { zone } from '../../logging/zone';
+import { normalizePodmanLabels } from './labels';
+import { PodmanProviderConfig, getDefaultSocketPath } from './types';
+
+const log = zone('providers.podman');
+
+/**
+ * Podman Provider - watches a Podman engine through its Docker-compatible API.
+ * Containers, events and compose files are handled exactly like the Docker
+ * provider; only the socket and podman-compose's labels differ.
+ */
+export class PodmanProvider extends DockerProvider {
+    protected readonly providerName: string = 'podman';
+    private socketPath: string;
+
+    constructor(hostDb: HostDB, config: PodmanProviderConfig = {}, docker?: Docker) {
+        const socketPath = config.socketPath ?? getDefaultSocketPath();
+        super(hostDb, config, docker ?? new Docker({ socketPath }));
+        this.socketPath = socketPath;
+        log.debug({ message: 'Podman provider configured', data: { socketPath } });
+    }
+
+    /**
+     * Get the provider status, including the socket in use
+     */
+    getStatus(): ProviderStatus {
+        return { ...super.getStatus(), socketPath: this.socketPath };
+    }
+
+    /**
+     * List containers with podman-compose labels adapted for the Docker provider
+     */
+    protected async listContainers(): Promise<Docker.ContainerInfo[] | null> {
+        const containers = await super.listContainers();
+        return containers?.map(container => ({
+            ...container,
+            Labels: normalizePodmanLabels(container.Labels)
+        })) ?? null;
+    }
+}
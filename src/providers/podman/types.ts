@@ -0,0 +1,27 @@
+import path from 'path';
+import { DockerProviderConfig } from '../docker/types';
+
+/**
+ * Working directory label set by podman-compose (and Docker Compose).
+ * podman-compose records config_files relative to this directory.
+ */
+export const COMPOSE_WORKING_DIR_LABEL = 'com.docker.compose.project.working_dir';
+
+/**
+ * Configuration for the Podman provider
+ */
+export interface PodmanProviderConfig extends DockerProviderConfig {
+    /** Path to the Podman API socket (default: rootless socket if XDG_RUNTIME_DIR is set, else /run/podman/podman.sock) */
+    socketPath?: string;
+}
+
+/**
+ * Default Podman API socket: the rootless user socket when running in a user
+ * session, otherwise the system socket.
+ */
+export function getDefaultSocketPath(): string {
+    const runtimeDir = process.env.XDG_RUNTIME_DIR;
+    return runtimeDir
+        ? path.join(runtimeDir, 'podman', 'podman.sock')
+        : '/run/podman/podman.sock';
+}
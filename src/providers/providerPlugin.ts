@@ -0,0 +1,127 @@
+import { getProviders } from '../config';
+import { HostDB } from '../hostDb';
+import { MagicProxyConfigFile } from '../types/config';
+import { zone } from '../logging/zone';
+
+const log = zone('providers.plugin');
+
+/** Status returned by provider getStatus() */
+export interface ProviderStatus {
+    /** Whether the provider is watching for changes */
+    active: boolean;
+    /** Number of HostDB entries owned by the provider */
+    hosts: number;
+    [key: string]: unknown;
+}
+
+/**
+ * Interface that all provider modules must implement.
+ * Providers feed HostDB and only ever add, update or remove their own entries.
+ */
+export interface ProviderModule {
+    start: () => Promise<void>;
+    stop: () => void;
+    getStatus: () => ProviderStatus;
+}
+
+// Running providers keyed by name, in configured order
+const activeProviders = new Map<string, ProviderModule>();
+
+/**
+ * Load a provider module by name and create it for the given HostDB.
+ */
+async function loadProvider(name: string, hostDb: HostDB, config: MagicProxyConfigFile): Promise<ProviderModule> {
+    switch (name) {
+        case 'docker': {
+            const { DockerProvider, DockerEngineGroup } = await import('./docker');
+            const engines = config.docker?.engines;
+            return engines?.length
+                ? new DockerEngineGroup(hostDb, engines, config.docker)
+                : new DockerProvider(hostDb, config.docker);
+        }
+        case 'podman': {
+            const { PodmanProvider } = await import('./podman');
+            return new PodmanProvider(hostDb, config.podman);
+        }
+        case 'swarm': {
+            const { SwarmProvider } = await import('./swarm');
+            return new SwarmProvider(hostDb, config.swarm);
+        }
+        case 'file': {
+            if (!config.file) {
+                throw new Error('The file provider requires file.path in the config file');
+            }
+            const { FileProvider } = await import('./file');
+            return new FileProvider(hostDb, config.file);
+        }
+        default:
+            throw new Error(`Unknown provider '${name}'`);
+    }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test utilities
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function _resetForTesting(): void {
+    stopProviders();
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Start the configured providers, all feeding the same HostDB.
+ * A provider that fails to start is logged and dropped without stopping the
+ * others; startup only fails if no provider could be started.
+ */
+export async function startProviders(hostDb: HostDB, config: MagicProxyConfigFile): Promise<void> {
+    stopProviders();
+
+    const names = getProviders(config);
+    const results = await Promise.allSettled(names.map(async name => {
+        const provider = await loadProvider(name, hostDb, config);
+        activeProviders.set(name, provider);
+        await provider.start();
+    }));
+
+    const failed: string[] = [];
+    results.forEach((result, i) => {
+        if (result.status === 'rejected') {
+            const error = result.reason instanceof Error ? result.reason.message : String(result.reason);
+            failed.push(`${names[i]}: ${error}`);
+            log.error({ message: 'Provider failed to start', data: { provider: names[i], error } });
+            activeProviders.get(names[i])?.stop();
+            activeProviders.delete(names[i]);
+        }
+    });
+
+    if (activeProviders.size === 0) {
+        throw new Error(`Failed to start any provider: ${failed.join('; ')}`);
+    }
+
+    log.debug({ message: 'Providers started', data: { providers: Array.from(activeProviders.keys()) } });
+}
+
+/**
+ * Stop every running provider. Their HostDB entries are left in place.
+ */
+export function stopProviders(): void {
+    for (const [name, provider] of activeProviders) {
+        provider.stop();
+        log.debug({ message: 'Provider stopped', data: { provider: name } });
+    }
+    activeProviders.clear();
+}
+
+/**
+ * Get the status of every running provider, keyed by provider name.
+ */
+export function getStatus(): Record<string, ProviderStatus> {
+    const status: Record<string, ProviderStatus> = {};
+    for (const [name, provider] of activeProviders) {
+        status[name] = provider.getStatus();
+    }
+    return status;
+}
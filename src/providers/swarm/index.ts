@@ -0,0 +1,21 @@
+/**
+ * Swarm Provider - monitors Docker Swarm services for x-magic-proxy configuration
+ */
+
+// Main provider class
+export { SwarmProvider } from './provider';
+
+// Types
+export {
+    SwarmProviderConfig,
+    SwarmTargetMode,
+    STACK_NAMESPACE_LABEL
+} from './types';
+
+// Service utilities
+export {
+    ServiceManifestOptions,
+    getServiceNames,
+    resolveServiceTarget,
+    buildServiceManifest
+} from './services';
@@ -0,0 +1,78 @@
+import Docker from 'dockerode';
+import { HostDB } from '../../hostDb';
+import { HostEntry } from '../../types/host';
+import { zone } from '../../logging/zone';
+import { DockerProvider } from '../docker/provider';
+import { DockerEvent } from '../docker/types';
+import { ProviderStatus } from '../providerPlugin';
+import { buildServiceManifest } from './services';
+import { SwarmProviderConfig, SwarmTargetMode } from './types';
+
+const log = zone('providers.swarm');
+
+/** Service event actions that change the manifest */
+const SERVICE_SYNC_ACTIONS = ['create', 'update', 'remove'];
+
+/**
+ * Swarm Provider - watches Swarm services on a manager node.
+ * Reuses the Docker provider's event stream, sync serialization and file
+ * watching, but builds hosts from services instead of containers.
+ */
+export class SwarmProvider extends DockerProvider {
+    protected readonly providerName: string = 'swarm';
+    private stacks: Record<string, string>;
+    private targetMode: SwarmTargetMode;
+
+    constructor(hostDb: HostDB, config: SwarmProviderConfig = {}, docker?: Docker) {
+        super(hostDb, {
+            labels: config.labels,
+            syncIntervalMs: config.syncIntervalMs,
+            reconcileIntervalMs: config.reconcileIntervalMs
+        }, docker);
+        this.stacks = config.stacks ?? {};
+        this.targetMode = config.target ?? 'dns';
+    }
+
+    /**
+     * Get the provider status, including the configured stacks
+     */
+    getStatus(): ProviderStatus {
+        return { ...super.getStatus(), stacks: Object.keys(this.stacks) };
+    }
+
+    /**
+     * Resync on service changes as well as container (task) changes
+     */
+    protected handleEvent(event: DockerEvent): void {
+        if (event.Type === 'service') {
+            if (SERVICE_SYNC_ACTIONS.includes(event.Action)) {
+                log.debug({ message: `Service ${event.Action}`, data: { service: event.Actor?.Attributes?.name, id: event.Actor?.ID } });
+                this.scheduleSync();
+            }
+            return;
+        }
+        super.handleEvent(event);
+    }
+
+    /**
+     * Build entries for every service; syncs are not scoped, but unchanged
+     * stack files are not re-read
+     */
+    protected async buildManifest(): Promise<HostEntry[]> {
+        const { manifest } = await buildServiceManifest(this.docker, {
+            labels: this.labelMode,
+            stacks: this.stacks,
+            target: this.targetMode,
+            resolvePath: this.resolvePath,
+            composeCache: this.composeCache
+        });
+        return manifest;
+    }
+
+    /**
+     * Watch the configured stack files
+     */
+    protected async getComposeFilePaths(): Promise<string[] | null> {
+        return Object.values(this.stacks);
+    }
+}
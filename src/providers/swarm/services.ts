@@ -0,0 +1,154 @@
+import Docker from 'dockerode';
+import { HostEntry } from '../../types/host';
+import { ComposeFileData } from '../../types/docker';
+import { XMagicProxyData } from '../../types/xmagic';
+import { zone } from '../../logging/zone';
+import { extractXMagicProxy, loadComposeFile, validateXMagicProxy } from '../docker/compose';
+import { extractLabelConfig } from '../docker/labels';
+import { selectConfig } from '../docker/manifest';
+import { ComposeFileCache } from '../docker/composeCache';
+import { LabelMode, PathResolver, ProcessingResult } from '../docker/types';
+import { STACK_NAMESPACE_LABEL, SwarmTargetMode } from './types';
+
+const log = zone('providers.swarm');
+
+/** Key used in ProcessingResult for services that are not part of a stack */
+const SERVICES_RESULT_KEY = '(services)';
+
+/** Options for buildServiceManifest */
+export interface ServiceManifestOptions {
+    labels?: LabelMode;
+    stacks?: Record<string, string>;
+    target?: SwarmTargetMode;
+    resolvePath?: PathResolver;
+    composeCache?: ComposeFileCache;
+}
+
+/**
+ * Get a service's full name, its stack and its name within the stack file
+ * (the full name without the `<stack>_` prefix).
+ */
+export function getServiceNames(service: Docker.Service): { name: string; stack?: string; stackService: string } {
+    const name = service.Spec?.Name ?? service.ID;
+    const stack = service.Spec?.Labels?.[STACK_NAMESPACE_LABEL];
+    const stackService = stack && name.startsWith(`${stack}_`) ? name.slice(stack.length + 1) : name;
+    return { name, stack, stackService };
+}
+
+/**
+ * Get the service's first virtual IP, without the subnet suffix
+ */
+function getVirtualIP(service: Docker.Service): string | undefined {
+    return service.Endpoint?.VirtualIPs?.find(vip => vip.Addr)?.Addr?.split('/')[0];
+}
+
+/**
+ * Point a target at the service's DNS name or VIP.
+ * A target naming the service (by its stack file name or full name) is
+ * rewritten, since the short name only resolves inside the stack's networks;
+ * other targets are kept. Without a target, the service's first target port
+ * is used.
+ */
+export function resolveServiceTarget(
+    target: string | undefined,
+    service: Docker.Service,
+    mode: SwarmTargetMode = 'dns'
+): string | undefined {
+    const { name, stackService } = getServiceNames(service);
+    const address = mode === 'vip' ? getVirtualIP(service) : name;
+    if (!address) {
+        return target;
+    }
+
+    if (target === undefined) {
+        const port = (service.Endpoint?.Ports ?? service.Endpoint?.Spec?.Ports ?? [])[0]?.TargetPort;
+        return port ? `http://${address}:${port}` : undefined;
+    }
+
+    return target.replace(/^([a-z]+:\/\/)([^/:?#]+)/i, (match, scheme: string, host: string) =>
+        host === stackService || host === name ? `${scheme}${address}` : match
+    );
+}
+
+/**
+ * Builds a manifest of host entries from Swarm services with x-magic-proxy
+ * configuration, read from their service labels and/or stack files.
+ * Services are included whether or not their tasks are running yet: targets
+ * point at the service's DNS name or VIP, which Swarm only balances across
+ * running tasks, and task state changes on workers raise no events here.
+ */
+export async function buildServiceManifest(docker: Docker, options: ServiceManifestOptions = {}): Promise<{
+    manifest: HostEntry[];
+    results: ProcessingResult;
+}> {
+    const labelMode = options.labels ?? 'fallback';
+    const manifest: HostEntry[] = [];
+    const results: ProcessingResult = {};
+
+    let services: Docker.Service[];
+    try {
+        services = await docker.listServices();
+    } catch (error) {
+        log.error({
+            message: 'Failed to list Swarm services',
+            data: { error: error instanceof Error ? error.message : String(error) }
+        });
+        return { manifest, results };
+    }
+
+    // Stack files are loaded once per build
+    const stackFiles = new Map<string, ComposeFileData | undefined>();
+    const loadStack = async (stack: string): Promise<ComposeFileData | undefined> => {
+        const stackPath = options.stacks?.[stack];
+        if (!stackPath) return undefined;
+        if (!stackFiles.has(stack)) {
+            stackFiles.set(stack, await loadComposeFile(stackPath, options.resolvePath, options.composeCache));
+        }
+        return stackFiles.get(stack);
+    };
+
+    for (const service of services) {
+        const { name, stack, stackService } = getServiceNames(service);
+        const resultKey = stack ?? SERVICES_RESULT_KEY;
+        results[resultKey] ??= {};
+
+        const stackData = stack ? await loadStack(stack) : undefined;
+        const fromStack = extractXMagicProxy(stackData, stackService);
+        const fromLabels = labelMode === 'ignore' ? undefined : extractLabelConfig(service.Spec?.Labels, name);
+        const selected = selectConfig(fromStack, fromLabels, labelMode);
+
+        if (!selected) {
+            results[resultKey][name] = 'No x-magic-proxy configuration found';
+            continue;
+        }
+
+        const xMagicProxy: Partial<XMagicProxyData> = {
+            ...selected,
+            target: resolveServiceTarget(selected.target, service, options.target)
+        };
+        if (selected.routes) {
+            xMagicProxy.routes = Object.fromEntries(Object.entries(selected.routes).map(([route, config]) => [
+                route,
+                { ...config, target: resolveServiceTarget(config.target, service, options.target) ?? config.target }
+            ]));
+        }
+
+        if (!validateXMagicProxy(xMagicProxy, name)) {
+            results[resultKey][name] = 'Invalid x-magic-proxy configuration';
+            continue;
+        }
+
+        manifest.push({
+            containerName: name,
+            xMagicProxy,
+            composeFilePath: stackData && stack ? options.stacks?.[stack] : undefined,
+            composeData: stackData,
+            lastChanged: Date.now(),
+            state: {}
+        });
+
+        results[resultKey][name] = 'ok';
+    }
+
+    return { manifest, results };
+}
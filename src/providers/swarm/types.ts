@@ -0,0 +1,29 @@
+import { LabelMode } from '../docker/types';
+
+/**
+ * Label Docker sets on services deployed with `docker stack deploy`
+ */
+export const STACK_NAMESPACE_LABEL = 'com.docker.stack.namespace';
+
+/**
+ * How service targets are addressed:
+ * - dns: the service's DNS name (<stack>_<service>), which resolves to its VIP
+ * - vip: the service's virtual IP address
+ */
+export type SwarmTargetMode = 'dns' | 'vip';
+
+/**
+ * Configuration for the Swarm provider
+ */
+export interface SwarmProviderConfig {
+    /** How magic-proxy.* service labels are used (default: fallback) */
+    labels?: LabelMode;
+    /** Stack files keyed by stack name, read for x-magic-proxy */
+    stacks?: Record<string, string>;
+    /** How service targets are addressed (default: dns) */
+    target?: SwarmTargetMode;
+    /** Minimum interval between sync operations in ms (default: 1000) */
+    syncIntervalMs?: number;
+    /** Interval between full reconciliation syncs in ms; 0 disables them (default: 300000) */
+    reconcileIntervalMs?: number;
+}
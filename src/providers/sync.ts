@@ -0,0 +1,90 @@
+import { HostDB } from '../hostDb';
+import { HostEntry } from '../types/host';
+import { zone } from '../logging/zone';
+
+const log = zone('providers.sync');
+
+/**
+ * Counts of changes made by a sync
+ */
+export interface SyncCounts {
+    added: number;
+    updated: number;
+    removed: number;
+    unchanged: number;
+}
+
+/**
+ * Name of the provider that owns an entry.
+ * Entries without a source were created by the Docker provider.
+ */
+export function getEntryProvider(entry: HostEntry): string {
+    return entry.source?.provider ?? 'docker';
+}
+
+/**
+ * List the HostDB entries owned by a provider
+ */
+export function getProviderEntries(hostDb: HostDB, provider: string): HostEntry[] {
+    return hostDb.getAll().filter(entry => getEntryProvider(entry) === provider);
+}
+
+/**
+ * Bring a provider's entries in HostDB in line with its current manifest:
+ * upsert every manifest entry and remove the provider's entries that are no
+ * longer listed. Entries owned by other providers are never touched, and a
+ * name already registered by another provider is skipped with a warning.
+ */
+export function syncHostEntries(hostDb: HostDB, provider: string, manifest: HostEntry[]): SyncCounts {
+    const counts: SyncCounts = { added: 0, updated: 0, removed: 0, unchanged: 0 };
+    const manifestNames = new Set(manifest.map(e => e.containerName));
+
+    for (const entry of manifest) {
+        try {
+            const existing = hostDb.get(entry.containerName);
+            if (existing && getEntryProvider(existing) !== provider) {
+                log.warn({
+                    message: 'Container name is already registered by another provider',
+                    data: { containerName: entry.containerName, provider, owner: getEntryProvider(existing) }
+                });
+                continue;
+            }
+
+            hostDb.upsert(entry);
+
+            if (!existing) {
+                counts.added++;
+                log.debug({ message: 'Container added to database', data: { containerName: entry.containerName, provider } });
+            } else if (hostDb.get(entry.containerName) !== existing) {
+                counts.updated++;
+                log.debug({ message: 'Container updated in database', data: { containerName: entry.containerName, provider } });
+            } else {
+                counts.unchanged++;
+                log.debug({ message: 'Container unchanged in database', data: { containerName: entry.containerName, provider } });
+            }
+        } catch (err) {
+            log.error({
+                message: 'Failed to upsert container entry',
+                data: {
+                    containerName: entry.containerName,
+                    provider,
+                    error: err instanceof Error ? err.message : String(err)
+                }
+            });
+        }
+    }
+
+    // Remove entries no longer in manifest (other providers' entries are left alone)
+    for (const entry of getProviderEntries(hostDb, provider)) {
+        if (!manifestNames.has(entry.containerName)) {
+            log.debug({
+                message: 'Removing container no longer referenced',
+                data: { containerName: entry.containerName, provider }
+            });
+            hostDb.remove(entry.containerName);
+            counts.removed++;
+        }
+    }
+
+    return counts;
+}
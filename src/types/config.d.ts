@@ -11,8 +11,38 @@ export interface APIConfig {
     timeout?: number;
 }
 
+export interface DockerEngineConfig {
+    // Engine name; containers are registered as <name>-<container>
+    name: string;
+    // Engine address: tcp://host:2376, ssh://user@host[:port] or unix:///path/to/docker.sock
+    host: string;
+    // Client certificates for TLS over tcp:// (paths relative to CONFIG_DIRECTORY)
+    tls?: {
+        ca?: string;
+        cert?: string;
+        key?: string;
+    };
+    // Private key for ssh:// (path relative to CONFIG_DIRECTORY); without it the
+    // agent at SSH_AUTH_SOCK is used
+    identityFile?: string;
+    // Maps compose file directories on the engine's host to local paths, e.g.
+    // { "/srv/stacks": "/mnt/nas/stacks" } (default: the local /host prefix rules)
+    paths?: Record<string, string>;
+}
+
+export type ProxyBackendName = 'traefik' | 'nginx' | 'caddy' | 'haproxy';
+
+export type ProviderName = 'docker' | 'podman' | 'file' | 'swarm';
+
 export type MagicProxyConfigFile = {
-    proxyBackend: 'traefik'; // currently only traefik is supported
+    // One backend, or a list of backends that all receive every proxied app
+    proxyBackend: ProxyBackendName | ProxyBackendName[];
+    // Default engine for backend templates (default: builtin). Templates named
+    // *.njk always use nunjucks regardless of this setting.
+    templateEngine?: 'builtin' | 'nunjucks';
+    // Providers that feed hosts to the backends (default: [docker]). Each one
+    // reads its own config section below
+    providers?: ProviderName[];
     traefik?: {
         // Output file for Traefik dynamic configuration
         outputFile: string;
@@ -20,6 +50,91 @@ export type MagicProxyConfigFile = {
         // Services in compose files should reference these by filename
         templates?: string[];
     };
+    nginx?: {
+        // Output file for the generated nginx include (server blocks)
+        outputFile: string;
+        // Template files rendered into server blocks
+        // Services in compose files should reference these by filename
+        templates?: string[];
+    };
+    caddy?: {
+        // Output file for the generated Caddyfile snippet or JSON config
+        outputFile: string;
+        // Output format (default: caddyfile)
+        format?: 'caddyfile' | 'json';
+        // Listen addresses for the generated JSON server (default: [":443"])
+        listen?: string[];
+    };
+    haproxy?: {
+        // Output file for the generated haproxy.cfg fragment
+        outputFile: string;
+        // Shared frontend that routes to one backend section per app
+        frontend?: {
+            // Frontend section name (default: magic_proxy)
+            name?: string;
+            // Bind addresses (default: [":80"] in http mode, [":443"] in tcp mode)
+            bind?: string[];
+            // http: match the Host header; tcp: match TLS SNI and pass TLS through (default: http)
+            mode?: 'http' | 'tcp';
+        };
+    };
+    docker?: {
+        // How magic-proxy.* container labels combine with x-magic-proxy in
+        // compose files (default: fallback)
+        // fallback: use labels only when the compose service has no x-magic-proxy
+        // prefer: use labels when present, otherwise the compose file
+        // ignore: never read labels
+        labels?: 'fallback' | 'prefer' | 'ignore';
+        // Only route to containers that are running and, if they define a
+        // healthcheck, healthy; hosts are withdrawn while unhealthy (default: false)
+        healthAware?: boolean;
+        // Minimum interval between syncs in ms; changes within it are coalesced
+        // into one sync (default: 1000)
+        syncIntervalMs?: number;
+        // Interval between full resyncs in ms, which correct drift from missed
+        // events or file changes; 0 disables them (default: 300000)
+        reconcileIntervalMs?: number;
+        // Network used to fill in omitted or templated targets ({{ip}}); by
+        // default the container must be on exactly one network
+        network?: string;
+        // Name of the proxy container (e.g. traefik); targets use the first
+        // network the container shares with it, unless network is set
+        proxyContainer?: string;
+        // Engines to watch instead of the local Docker socket
+        engines?: DockerEngineConfig[];
+    };
+    podman?: {
+        // Podman API socket (default: $XDG_RUNTIME_DIR/podman/podman.sock for
+        // rootless Podman, otherwise /run/podman/podman.sock)
+        socketPath?: string;
+        // Same as docker.labels
+        labels?: 'fallback' | 'prefer' | 'ignore';
+        // Same as docker.healthAware
+        healthAware?: boolean;
+        // Same as docker.syncIntervalMs
+        syncIntervalMs?: number;
+        // Same as docker.reconcileIntervalMs
+        reconcileIntervalMs?: number;
+    };
+    swarm?: {
+        // Stack files keyed by stack name, read for x-magic-proxy on services
+        // deployed with `docker stack deploy`
+        stacks?: Record<string, string>;
+        // Same as docker.labels, applied to service labels
+        labels?: 'fallback' | 'prefer' | 'ignore';
+        // How targets naming the service are addressed: its DNS name
+        // (<stack>_<service>) or its virtual IP (default: dns)
+        target?: 'dns' | 'vip';
+        // Same as docker.syncIntervalMs
+        syncIntervalMs?: number;
+        // Same as docker.reconcileIntervalMs
+        reconcileIntervalMs?: number;
+    };
+    file?: {
+        // Host file, or a directory of *.yml/*.yaml/*.json host files, defining
+        // non-container upstreams. Relative paths are resolved against CONFIG_DIRECTORY
+        path: string;
+    };
     api?: APIConfig;
 
     // Allow additional properties on the config file object
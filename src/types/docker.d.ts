@@ -1,5 +1,45 @@
 import { XMagicProxyData } from './xmagic';
 
+/**
+ * A service in a Docker Compose file, with support for the custom x-magic-proxy extension.
+ */
+export type ComposeService = {
+    image?: string;
+    build?: string | { context?: string; dockerfile?: string; args?: Record<string, string> };
+    container_name?: string;
+    command?: string | string[];
+    entrypoint?: string | string[];
+    environment?: Record<string, string> | string[];
+    env_file?: string | Array<string | { path: string; required?: boolean }>;
+    ports?: Array<string | { target: number; published?: number; protocol?: 'tcp' | 'udp'; mode?: 'ingress' | 'host' }>;
+    volumes?: Array<string | { type?: 'volume' | 'bind' | 'tmpfs'; source?: string; target: string; read_only?: boolean }>;
+    depends_on?: string[] | Record<string, { condition?: 'service_started' | 'service_healthy' }>;
+    networks?: string[] | Record<string, { aliases?: string[] }>;
+    restart?: 'no' | 'always' | 'on-failure' | 'unless-stopped';
+    deploy?: {
+        replicas?: number;
+        resources?: {
+            limits?: { cpus?: string; memory?: string };
+            reservations?: { cpus?: string; memory?: string };
+        };
+        restart_policy?: { condition?: 'none' | 'on-failure' | 'any'; delay?: string; max_attempts?: number; window?: string };
+        placement?: { constraints?: string[] };
+        update_config?: { parallelism?: number; delay?: string; order?: 'start-first' | 'stop-first' };
+    };
+    extra_hosts?: string[];
+    logging?: { driver?: string; options?: Record<string, string> };
+    healthcheck?: {
+        test: string | string[];
+        interval?: string;
+        timeout?: string;
+        retries?: number;
+        start_period?: string;
+    };
+    // Base service to inherit from, in this file or another one
+    extends?: string | { service: string; file?: string };
+    'x-magic-proxy'?: XMagicProxyData;
+};
+
 /**
  * Docker Compose file structure with support for custom x-magic-proxy extension.
  * @see https://docs.docker.com/compose/compose-file/
@@ -7,43 +47,13 @@ import { XMagicProxyData } from './xmagic';
 export type ComposeFileData = {
     version?: string | number;
 
-    services?: Record<
-        string,
-        {
-            image?: string;
-            build?: string | { context?: string; dockerfile?: string; args?: Record<string, string> };
-            container_name?: string;
-            command?: string | string[];
-            entrypoint?: string | string[];
-            environment?: Record<string, string> | string[];
-            env_file?: string | string[];
-            ports?: Array<string | { target: number; published?: number; protocol?: 'tcp' | 'udp'; mode?: 'ingress' | 'host' }>;
-            volumes?: Array<string | { type?: 'volume' | 'bind' | 'tmpfs'; source?: string; target: string; read_only?: boolean }>;
-            depends_on?: string[] | Record<string, { condition?: 'service_started' | 'service_healthy' }>;
-            networks?: string[] | Record<string, { aliases?: string[] }>;
-            restart?: 'no' | 'always' | 'on-failure' | 'unless-stopped';
-            deploy?: {
-                replicas?: number;
-                resources?: {
-                    limits?: { cpus?: string; memory?: string };
-                    reservations?: { cpus?: string; memory?: string };
-                };
-                restart_policy?: { condition?: 'none' | 'on-failure' | 'any'; delay?: string; max_attempts?: number; window?: string };
-                placement?: { constraints?: string[] };
-                update_config?: { parallelism?: number; delay?: string; order?: 'start-first' | 'stop-first' };
-            };
-            extra_hosts?: string[];
-            logging?: { driver?: string; options?: Record<string, string> };
-            healthcheck?: {
-                test: string | string[];
-                interval?: string;
-                timeout?: string;
-                retries?: number;
-                start_period?: string;
-            };
-            'x-magic-proxy'?: XMagicProxyData;
-        }
-    >;
+    // Other compose files whose resources are added to this one
+    include?: Array<string | { path: string | string[]; project_directory?: string; env_file?: string | string[] }>;
+
+    services?: Record<string, ComposeService>;
+
+    // Defaults merged under every service's own x-magic-proxy block
+    'x-magic-proxy-defaults'?: Partial<XMagicProxyData>;
 
     volumes?: Record<
         string,
@@ -8,11 +8,27 @@ export type HostStateFlags = {
     [key: string]: boolean | undefined;
 };
 
+// Where a host entry was defined, independent of the provider type
+export type HostSource = {
+    provider: string;                 // provider that owns the entry: docker, podman, file, swarm
+    path?: string;                    // file the entry was read from (compose file, host file)
+};
+
+// One replica of a scaled compose service, grouped into a single host entry
+export type HostReplica = {
+    containerName: string;
+    target: string;                   // the replica's resolved target URL
+    isActive?: boolean;               // set with health-aware routing
+};
+
 export type HostEntry = {
-    containerName: string;            // Docker full container name
-    xMagicProxy: XMagicProxyData;         // extracted from compose file
-    composeFilePath: string;          // path to the compose file
-    composeData: ComposeFileData;     // parsed YAML for reference
+    containerName: string;            // container name, or host name for non-container providers
+    xMagicProxy: XMagicProxyData;         // extracted from compose file, labels or host file
+    source?: HostSource;              // owning provider (default: docker)
+    composeFilePath?: string;         // path to the compose file (container providers only)
+    composeData?: ComposeFileData;    // parsed YAML for reference (container providers only)
+    replicas?: HostReplica[];         // replicas of a scaled service, each an upstream of this entry
+    route?: string;                   // name of the additional route this entry serves (see xMagicProxy.routes)
     lastChanged: number;              // timestamp (ms)
     state: HostStateFlags;            // arbitrary bool flags
 };
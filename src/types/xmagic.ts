@@ -1,31 +1,89 @@
 import { z } from 'zod';
 
+// A DNS name: dot-separated labels of letters, digits and inner hyphens
+// (1-63 characters each), at most 253 characters, optionally ending in a dot
+const DNS_LABEL = /^[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?$/;
+const DnsNameSchema = z.string().refine((v) => {
+  const name = v.endsWith('.') ? v.slice(0, -1) : v;
+  return name.length > 0 && name.length <= 253 && name.split('.').every(label => DNS_LABEL.test(label));
+}, { message: 'hostname must be a valid DNS name' });
+
+// The base configuration to modify. A list of templates is rendered in order
+// and the fragments are merged into one config for the service:
+const TemplateSchema = z.union([z.string(), z.array(z.string()).min(1)]);
+
+// How the proxy should connect to the target service (must be a valid http(s) URL string)
+const TargetSchema = z.string().url().refine((v) => {
+  try {
+    const proto = new URL(v).protocol;
+    return proto === 'http:' || proto === 'https:';
+  } catch {
+    return false;
+  }
+}, { message: 'target must be a valid http or https URL' });
+
+// The public hostname(s) for the proxy to serve. The first entry of a list is
+// the primary hostname; every entry must be a valid DNS name:
+const HostnameSchema = z.union([DnsNameSchema, z.array(DnsNameSchema).min(1)]);
+
+// Optional additional user data. May contain multiple key-value pairs (e.g. `bar: foo`, `baz: zap`).
+// Keys are strings and values may be string, number, null, or a list of strings/numbers
+// (builtin templates must pass lists through the join or json filter). May be an empty object.
+const UserDataSchema = z.record(z.string(), z.union([
+  z.string(),
+  z.number(),
+  z.null(),
+  z.array(z.union([z.string(), z.number()])),
+]));
+
+// An additional named route of the same service (e.g. an admin API on another port).
+// Template and userData default to the service's own; route userData is merged over it.
+export const XMagicProxyRouteSchema = z.object({
+  template: TemplateSchema.optional(),
+  target: TargetSchema,
+  hostname: HostnameSchema,
+  userData: UserDataSchema.optional(),
+});
+
+// Route names become part of the registration key, so keep them simple
+const RouteNameSchema = z.string().regex(/^[a-zA-Z0-9_-]+$/, { message: 'route names may only contain letters, digits, - and _' });
+
 // The master schema for XMagic Proxy configuration
 // This object is embedded as x-magic-proxy-descriptor in the docker-compose.yml
 export const XMagicProxySchema = z.object({
+  template: TemplateSchema,
+  target: TargetSchema,
+  hostname: HostnameSchema,
+  userData: UserDataSchema.optional(),
 
-  // The base configuration to modify:
-  template: z.string(),
-
-  // How the proxy should connect to the target service (must be a valid http(s) URL string)
-  target: z.string().url().refine((v) => {
-    try {
-      const proto = new URL(v).protocol;
-      return proto === 'http:' || proto === 'https:';
-    } catch {
-      return false;
-    }
-  }, { message: 'target must be a valid http or https URL' }),
-
-  // The public hostname for the proxy to serve
-  hostname: z.string(),
-
-  // Optional additional user data. May contain multiple key-value pairs (e.g. `bar: foo`, `baz: zap`).
-  // Keys are strings and values may be string, number, or null. May be an empty object.
-  userData: z.record(z.string(), z.union([z.string(), z.number(), z.null()])).optional(),
+  // Optional additional routes keyed by route name. The fields above remain the
+  // service's primary route.
+  routes: z.record(RouteNameSchema, XMagicProxyRouteSchema).optional(),
 });
 
 export type XMagicProxyData = z.infer<typeof XMagicProxySchema>;
+export type XMagicProxyRoute = z.infer<typeof XMagicProxyRouteSchema>;
+
+// Get the hostnames of a service as a list; the first entry is the primary hostname
+export function getHostnames(data: XMagicProxyData): string[] {
+  return Array.isArray(data.hostname) ? data.hostname : [data.hostname];
+}
+
+// Get the template names of a service as a list, whether one or several were given
+export function getTemplateNames(data: XMagicProxyData): string[] {
+  return Array.isArray(data.template) ? data.template : [data.template];
+}
+
+// Resolve a service's additional routes into standalone proxy data keyed by route name.
+// Each route inherits the service's template, and its userData is merged over the service's.
+export function resolveRoutes(data: XMagicProxyData): [string, XMagicProxyData][] {
+  return Object.entries(data.routes ?? {}).map(([name, route]) => [name, {
+    template: route.template ?? data.template,
+    target: route.target,
+    hostname: route.hostname,
+    userData: (data.userData || route.userData) ? { ...data.userData, ...route.userData } : undefined,
+  }]);
+}
 
 // Validate arbitrary input against the XMagicProxy schema
 export type XMagicProxyValidationResult =
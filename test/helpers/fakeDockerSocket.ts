@@ -0,0 +1,49 @@
+import http from 'http';
+
+/**
+ * Minimal fake of the Docker Engine API (or Podman's Docker-compatible API)
+ * on a unix socket: serves the container, Swarm service and task lists and an
+ * event stream tests can push to.
+ */
+export class FakeDockerSocket {
+    containers: unknown[] = [];
+    services: unknown[] = [];
+    tasks: unknown[] = [];
+    private server = http.createServer((req, res) => this.handle(req, res));
+    private eventStreams: http.ServerResponse[] = [];
+
+    constructor(readonly socketPath: string) { }
+
+    async listen(): Promise<void> {
+        await new Promise<void>(resolve => this.server.listen(this.socketPath, resolve));
+    }
+
+    async close(): Promise<void> {
+        this.server.closeAllConnections();
+        await new Promise<void>(resolve => this.server.close(() => resolve()));
+    }
+
+    emitEvent(event: object): void {
+        for (const res of this.eventStreams) {
+            res.write(JSON.stringify(event) + '\n');
+        }
+    }
+
+    private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+        const url = new URL(req.url ?? '/', 'http://docker');
+        if (url.pathname.endsWith('/containers/json')) {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(this.containers));
+        } else if (url.pathname.endsWith('/services') || url.pathname.endsWith('/tasks')) {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(url.pathname.endsWith('/services') ? this.services : this.tasks));
+        } else if (url.pathname.endsWith('/events')) {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.flushHeaders();
+            this.eventStreams.push(res);
+        } else {
+            res.writeHead(404);
+            res.end();
+        }
+    }
+}
@@ -6,6 +6,7 @@
 import { vi } from 'vitest';
 import fs from 'fs';
 import path from 'path';
+import Docker from 'dockerode';
 import { MagicProxyConfigFile } from '../../src/types/config';
 import { XMagicProxyData } from '../../src/types/xmagic';
 import { HostEntry } from '../../src/types/host';
@@ -79,6 +80,24 @@ export function createMockHostEntry(overrides?: Partial<HostEntry>): HostEntry {
     };
 }
 
+/**
+ * Create a mock container, as listed by docker.listContainers
+ */
+export function createMockContainer(
+    name: string,
+    labels: Record<string, string> = {},
+    overrides?: Partial<Docker.ContainerInfo>
+): Docker.ContainerInfo {
+    return {
+        Id: name,
+        Names: [`/${name}`],
+        Labels: labels,
+        State: 'running',
+        Status: 'Up 1 minute',
+        ...overrides,
+    } as Docker.ContainerInfo;
+}
+
 /**
  * Create a mock config file
  */
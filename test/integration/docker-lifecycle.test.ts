@@ -93,7 +93,8 @@ describe('Docker Integration - Container Lifecycle', () => {
 
             vi.spyOn(manifestModule, 'buildContainerManifest').mockResolvedValue({
                 manifest,
-                results: {}
+                results: {},
+                dependencies: {}
             });
 
             vi.spyOn(composeModule, 'groupContainersByComposeFile').mockReturnValue([]);
@@ -129,7 +130,8 @@ describe('Docker Integration - Container Lifecycle', () => {
             // Start provider with empty manifest (container removed)
             vi.spyOn(manifestModule, 'buildContainerManifest').mockResolvedValue({
                 manifest: [],
-                results: {}
+                results: {},
+                dependencies: {}
             });
 
             vi.spyOn(composeModule, 'groupContainersByComposeFile').mockReturnValue([]);
@@ -162,7 +164,8 @@ describe('Docker Integration - Container Lifecycle', () => {
             // Start with empty manifest
             vi.spyOn(manifestModule, 'buildContainerManifest').mockResolvedValue({
                 manifest: [],
-                results: {}
+                results: {},
+                dependencies: {}
             });
 
             vi.spyOn(composeModule, 'groupContainersByComposeFile').mockReturnValue([]);
@@ -210,7 +213,8 @@ describe('Docker Integration - Container Lifecycle', () => {
             // Sync with empty manifest
             vi.spyOn(manifestModule, 'buildContainerManifest').mockResolvedValue({
                 manifest: [],
-                results: {}
+                results: {},
+                dependencies: {}
             });
 
             vi.spyOn(composeModule, 'groupContainersByComposeFile').mockReturnValue([]);
@@ -245,7 +249,8 @@ describe('Docker Integration - Container Lifecycle', () => {
                     lastChanged: Date.now(),
                     state: {}
                 }],
-                results: {}
+                results: {},
+                dependencies: {}
             });
 
             vi.spyOn(composeModule, 'groupContainersByComposeFile').mockReturnValue([]);
@@ -275,7 +280,8 @@ describe('Docker Integration - Container Lifecycle', () => {
 
             vi.spyOn(manifestModule, 'buildContainerManifest').mockResolvedValue({
                 manifest,
-                results: {}
+                results: {},
+                dependencies: {}
             });
 
             vi.spyOn(composeModule, 'groupContainersByComposeFile').mockReturnValue([]);
@@ -327,7 +333,8 @@ describe('Docker Integration - Container Lifecycle', () => {
                     lastChanged: Date.now(),
                     state: {}
                 }],
-                results: {}
+                results: {},
+                dependencies: {}
             });
 
             vi.spyOn(composeModule, 'groupContainersByComposeFile').mockReturnValue([]);
@@ -373,7 +380,8 @@ describe('Docker Integration - Container Lifecycle', () => {
 
             vi.spyOn(manifestModule, 'buildContainerManifest').mockResolvedValue({
                 manifest,
-                results: {}
+                results: {},
+                dependencies: {}
             });
 
             vi.spyOn(composeModule, 'groupContainersByComposeFile').mockReturnValue([]);
@@ -416,7 +424,8 @@ describe('Docker Integration - Container Lifecycle', () => {
                     lastChanged: Date.now(),
                     state: {}
                 }],
-                results: {}
+                results: {},
+                dependencies: {}
             });
 
             vi.spyOn(composeModule, 'groupContainersByComposeFile').mockReturnValue([]);
@@ -449,7 +458,8 @@ describe('Docker Integration - Container Lifecycle', () => {
             // Same configuration
             vi.spyOn(manifestModule, 'buildContainerManifest').mockResolvedValue({
                 manifest: [{ ...config, lastChanged: Date.now() }],
-                results: {}
+                results: {},
+                dependencies: {}
             });
 
             vi.spyOn(composeModule, 'groupContainersByComposeFile').mockReturnValue([]);
@@ -511,7 +521,8 @@ describe('Docker Integration - Container Lifecycle', () => {
                         state: {}
                     }
                 ],
-                results: {}
+                results: {},
+                dependencies: {}
             });
 
             vi.spyOn(composeModule, 'groupContainersByComposeFile').mockReturnValue([]);
@@ -546,7 +557,8 @@ describe('Docker Integration - Container Lifecycle', () => {
                     { containerName: 'app-2', xMagicProxy: { hostname: 'app2.test', target: 'http://localhost:3002', template: 'default' }, composeFilePath: '/test/compose.yml', composeData: {}, lastChanged: Date.now(), state: {} },
                     { containerName: 'app-3', xMagicProxy: { hostname: 'app3.test', target: 'http://localhost:3003', template: 'default' }, composeFilePath: '/test/compose.yml', composeData: {}, lastChanged: Date.now(), state: {} }
                 ],
-                results: {}
+                results: {},
+                dependencies: {}
             });
 
             provider = new DockerProvider(hostDb, undefined, mockDocker);
@@ -563,7 +575,8 @@ describe('Docker Integration - Container Lifecycle', () => {
                     { containerName: 'app-2', xMagicProxy: { hostname: 'app2.test', target: 'http://localhost:3002', template: 'default' }, composeFilePath: '/test/compose.yml', composeData: {}, lastChanged: Date.now(), state: {} },
                     { containerName: 'app-4', xMagicProxy: { hostname: 'app4.test', target: 'http://localhost:3004', template: 'default' }, composeFilePath: '/test/compose.yml', composeData: {}, lastChanged: Date.now(), state: {} }
                 ],
-                results: {}
+                results: {},
+                dependencies: {}
             });
 
             const provider2 = new DockerProvider(hostDb, undefined, mockDocker);
@@ -578,7 +591,8 @@ describe('Docker Integration - Container Lifecycle', () => {
 
             vi.mocked(manifestModule.buildContainerManifest).mockResolvedValue({
                 manifest: [],
-                results: {}
+                results: {},
+                dependencies: {}
             });
 
             const provider3 = new DockerProvider(hostDb, undefined, mockDocker);
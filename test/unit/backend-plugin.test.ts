@@ -0,0 +1,228 @@
+import { describe, it, beforeEach, afterEach, expect, vi } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import yaml from 'js-yaml';
+import * as backendPlugin from '../../src/backends/backendPlugin';
+import * as caddy from '../../src/backends/caddy/caddy';
+import * as haproxy from '../../src/backends/haproxy/haproxy';
+import * as traefik from '../../src/backends/traefik/traefik';
+import { validateConfig } from '../../src/config';
+import { MagicProxyConfigFile } from '../../src/types/config';
+import { createMockHostEntry, createMockXMagicProxyData } from '../helpers/mockHelpers';
+
+function entry(containerName: string, hostname: string, target: string) {
+    return createMockHostEntry({
+        containerName,
+        xMagicProxy: createMockXMagicProxyData({ hostname, target }),
+    });
+}
+
+describe('validateConfig proxyBackend', () => {
+    it('accepts a single backend or a list of backends', () => {
+        expect(validateConfig({ proxyBackend: 'caddy' })).toBe(true);
+        expect(validateConfig({ proxyBackend: ['traefik', 'nginx'] })).toBe(true);
+    });
+
+    it('rejects empty lists and unknown backends', () => {
+        expect(() => validateConfig({ proxyBackend: [] })).toThrow('Invalid proxyBackend');
+        expect(() => validateConfig({ proxyBackend: ['caddy', 'apache' as any] })).toThrow('Invalid proxyBackend');
+    });
+
+    it('rejects a backend listed twice', () => {
+        expect(() => validateConfig({ proxyBackend: ['caddy', 'caddy'] })).toThrow("Duplicate proxyBackend in config file: 'caddy'");
+    });
+});
+
+describe('Backend Plugin - multiple backends', () => {
+    let testDir: string;
+    let config: MagicProxyConfigFile;
+
+    beforeEach(async () => {
+        testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'backend-plugin-test-'));
+        backendPlugin._resetForTesting();
+        caddy._resetForTesting();
+        haproxy._resetForTesting();
+        config = {
+            proxyBackend: ['caddy', 'haproxy'],
+            caddy: { outputFile: path.join(testDir, 'Caddyfile.magic') },
+            haproxy: { outputFile: path.join(testDir, 'haproxy-magic.cfg') },
+        };
+    });
+
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    it('fans out adds and removes to every backend', async () => {
+        await backendPlugin.initialize(config);
+        await backendPlugin.addProxiedApp(entry('web', 'web.example.com', 'http://web:8000'));
+
+        expect(await fs.readFile(path.join(testDir, 'Caddyfile.magic'), 'utf-8')).toContain('reverse_proxy http://web:8000');
+        expect(await fs.readFile(path.join(testDir, 'haproxy-magic.cfg'), 'utf-8')).toContain('server web web:8000');
+
+        await backendPlugin.removeProxiedApp('web');
+
+        expect(await fs.readFile(path.join(testDir, 'Caddyfile.magic'), 'utf-8')).not.toContain('web.example.com');
+        expect(await fs.readFile(path.join(testDir, 'haproxy-magic.cfg'), 'utf-8')).not.toContain('be_web');
+    });
+
+    it('reports status per backend', async () => {
+        await backendPlugin.initialize(config);
+        await backendPlugin.addProxiedApp(entry('web', 'web.example.com', 'http://web:8000'));
+
+        const status = await backendPlugin.getStatus();
+        expect(status.registered).toEqual(['web']);
+        expect(Object.keys(status.backends)).toEqual(['caddy', 'haproxy']);
+        expect(status.backends.caddy).toMatchObject({ registered: ['web'], format: 'caddyfile' });
+        expect(status.backends.haproxy).toMatchObject({ registered: ['web'], mode: 'http' });
+    });
+
+    it('keeps updating other backends when one fails', async () => {
+        vi.spyOn(caddy, 'addProxiedApp').mockRejectedValue(new Error('disk full'));
+        await backendPlugin.initialize(config);
+
+        await expect(backendPlugin.addProxiedApp(entry('web', 'web.example.com', 'http://web:8000')))
+            .rejects.toThrow('Failed to add proxied app in 1 of 2 backend(s): caddy: disk full');
+
+        const status = await backendPlugin.getStatus();
+        expect(status.backends.caddy.registered).toEqual([]);
+        expect(status.backends.haproxy.registered).toEqual(['web']);
+    });
+
+    it('reports a failing status call without hiding the other backends', async () => {
+        vi.spyOn(haproxy, 'getStatus').mockRejectedValue(new Error('boom'));
+        await backendPlugin.initialize(config);
+
+        const status = await backendPlugin.getStatus();
+        expect(status.backends.haproxy).toEqual({ error: 'boom' });
+        expect(status.backends.caddy.registered).toEqual([]);
+    });
+
+    it('drops backends removed from the config on re-initialize', async () => {
+        await backendPlugin.initialize(config);
+        await backendPlugin.initialize({ ...config, proxyBackend: 'haproxy' });
+
+        const status = await backendPlugin.getStatus();
+        expect(Object.keys(status.backends)).toEqual(['haproxy']);
+    });
+});
+
+describe('Backend Plugin - routes', () => {
+    let testDir: string;
+
+    function routedEntry(routes: Record<string, unknown> | undefined) {
+        return createMockHostEntry({
+            containerName: 'app',
+            xMagicProxy: createMockXMagicProxyData({ hostname: 'app.example.com', target: 'http://app:8080', routes } as any),
+        });
+    }
+
+    beforeEach(async () => {
+        testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'backend-plugin-routes-'));
+        backendPlugin._resetForTesting();
+        caddy._resetForTesting();
+        await backendPlugin.initialize({ proxyBackend: 'caddy', caddy: { outputFile: path.join(testDir, 'Caddyfile.magic') } });
+    });
+
+    afterEach(async () => {
+        await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    it('registers each route under the container and route name', async () => {
+        await backendPlugin.addProxiedApp(routedEntry({
+            admin: { hostname: 'admin.example.com', target: 'http://app:9000' },
+        }));
+
+        expect((await backendPlugin.getStatus()).registered).toEqual(['app', 'app/admin']);
+        const written = await fs.readFile(path.join(testDir, 'Caddyfile.magic'), 'utf-8');
+        expect(written).toContain('# app: app\napp.example.com {\n\treverse_proxy http://app:8080\n}');
+        expect(written).toContain('# app: app/admin\nadmin.example.com {\n\treverse_proxy http://app:9000\n}');
+    });
+
+    it('keeps routes apart from containers named like them', async () => {
+        await backendPlugin.addProxiedApp(routedEntry({
+            admin: { hostname: 'admin.example.com', target: 'http://app:9000' },
+        }));
+        await backendPlugin.addProxiedApp(createMockHostEntry({
+            containerName: 'app-admin',
+            xMagicProxy: createMockXMagicProxyData({ hostname: 'other.example.com', target: 'http://app-admin:80' }),
+        }));
+
+        expect((await backendPlugin.getStatus()).registered.sort()).toEqual(['app', 'app-admin', 'app/admin']);
+        const written = await fs.readFile(path.join(testDir, 'Caddyfile.magic'), 'utf-8');
+        expect(written).toContain('admin.example.com {');
+        expect(written).toContain('other.example.com {');
+    });
+
+    it.each(['example.yml', 'oidc.yml'])('renders the shipped %s for each route with a DNS-safe app_name', async (template) => {
+        traefik._resetForTesting();
+        await backendPlugin.initialize({
+            proxyBackend: 'traefik',
+            traefik: { outputFile: path.join(testDir, 'traefik.yml'), templates: [path.resolve('config/template', template)] },
+        });
+        await backendPlugin.addProxiedApp(createMockHostEntry({
+            containerName: 'app',
+            xMagicProxy: createMockXMagicProxyData({
+                template,
+                hostname: 'example.com',
+                target: 'http://app:8080',
+                routes: { admin: { hostname: 'admin.example.com', target: 'http://app:9000' } },
+            }),
+        }));
+
+        const config = yaml.load(await traefik.getConfig()) as any;
+        expect(config.http.routers['magic-proxy-app-admin'].rule).toBe('Host(`app-admin.admin.example.com`)');
+        expect(config.http.services['magic-proxy-app-admin'].loadBalancer.servers).toEqual([{ url: 'http://app:9000' }]);
+        expect(config.http.routers['magic-proxy-app'].rule).toBe('Host(`app.example.com`)');
+    });
+
+    it('exposes the route name to templates', async () => {
+        traefik._resetForTesting();
+        await backendPlugin.initialize({
+            proxyBackend: 'traefik',
+            traefik: { outputFile: path.join(testDir, 'traefik.yml'), templates: [path.resolve('config/template/example.yml')] },
+        });
+        traefik._setTemplateForTesting('route.yml', 'http:\n  routers:\n    r-{{ app_name }}:\n      rule: "{{ route | default: primary }}"\n');
+        await backendPlugin.addProxiedApp(createMockHostEntry({
+            containerName: 'app',
+            xMagicProxy: createMockXMagicProxyData({
+                template: 'route.yml',
+                routes: { admin: { hostname: 'admin.example.com', target: 'http://app:9000' } },
+            }),
+        }));
+
+        const config = yaml.load(await traefik.getConfig()) as any;
+        expect(config.http.routers['r-app'].rule).toBe('primary');
+        expect(config.http.routers['r-app-admin'].rule).toBe('admin');
+    });
+
+    it('unregisters routes dropped from the service on update', async () => {
+        await backendPlugin.addProxiedApp(routedEntry({
+            admin: { hostname: 'admin.example.com', target: 'http://app:9000' },
+            metrics: { hostname: 'metrics.example.com', target: 'http://app:9100' },
+        }));
+        await backendPlugin.addProxiedApp(routedEntry({
+            admin: { hostname: 'admin.example.com', target: 'http://app:9000' },
+        }));
+
+        expect((await backendPlugin.getStatus()).registered).toEqual(['app', 'app/admin']);
+    });
+
+    it('removes every route together with the container', async () => {
+        await backendPlugin.addProxiedApp(routedEntry({
+            admin: { hostname: 'admin.example.com', target: 'http://app:9000' },
+        }));
+        await backendPlugin.removeProxiedApp('app');
+
+        expect((await backendPlugin.getStatus()).registered).toEqual([]);
+        expect(await fs.readFile(path.join(testDir, 'Caddyfile.magic'), 'utf-8')).not.toContain('example.com');
+    });
+
+    it('removes containers it never saw routes for by name', async () => {
+        await caddy.addProxiedApp(routedEntry(undefined));
+        await backendPlugin.removeProxiedApp('app');
+        expect((await backendPlugin.getStatus()).registered).toEqual([]);
+    });
+});
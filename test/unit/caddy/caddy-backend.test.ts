@@ -0,0 +1,160 @@
+import { describe, it, beforeEach, afterEach, expect } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import * as caddy from '../../../src/backends/caddy/caddy';
+import * as backendPlugin from '../../../src/backends/backendPlugin';
+import { createMockHostEntry, createMockXMagicProxyData } from '../../helpers/mockHelpers';
+
+function entry(containerName: string, hostname: string | string[], target: string) {
+    return createMockHostEntry({
+        containerName,
+        xMagicProxy: createMockXMagicProxyData({ hostname, target }),
+    });
+}
+
+describe('Caddy Backend', () => {
+    beforeEach(() => {
+        caddy._resetForTesting();
+    });
+
+    describe('Caddyfile output', () => {
+        beforeEach(async () => {
+            await caddy.initialize({ proxyBackend: 'caddy', caddy: { outputFile: '' } });
+        });
+
+        it('starts with no registered apps', async () => {
+            const status = await caddy.getStatus();
+            expect(status.registered).toEqual([]);
+            expect(status.format).toBe('caddyfile');
+        });
+
+        it('generates a site block per app', async () => {
+            await caddy.addProxiedApp(entry('web', 'web.example.com', 'http://web:8000'));
+            await caddy.addProxiedApp(entry('api', 'api.example.com', 'https://api:8443'));
+
+            const config = await caddy.getConfig();
+            expect(config).toContain('# app: web\nweb.example.com {\n\treverse_proxy http://web:8000\n}');
+            expect(config).toContain('api.example.com {\n\treverse_proxy https://api:8443\n}');
+            expect((await caddy.getStatus()).registered).toEqual(['web', 'api']);
+        });
+
+        it('serves every hostname of an app from one site block', async () => {
+            await caddy.addProxiedApp(entry('web', ['example.com', 'www.example.com'], 'http://web:8000'));
+            expect(await caddy.getConfig()).toContain('example.com, www.example.com {\n\treverse_proxy http://web:8000\n}');
+        });
+
+        it('proxies scaled services to every replica', async () => {
+            await caddy.addProxiedApp(createMockHostEntry({
+                containerName: 'web',
+                xMagicProxy: createMockXMagicProxyData({ hostname: 'web.example.com', target: 'http://web-1:8000' }),
+                replicas: [
+                    { containerName: 'web-1', target: 'http://web-1:8000' },
+                    { containerName: 'web-2', target: 'http://web-2:8000' },
+                ],
+            }));
+
+            expect(await caddy.getConfig()).toContain('web.example.com {\n\treverse_proxy http://web-1:8000 http://web-2:8000\n}');
+        });
+
+        it('removes an app', async () => {
+            await caddy.addProxiedApp(entry('web', 'web.example.com', 'http://web:8000'));
+            await caddy.removeProxiedApp('web');
+
+            expect(await caddy.getConfig()).not.toContain('web.example.com');
+            expect((await caddy.getStatus()).registered).toEqual([]);
+        });
+
+        it('skips sites with invalid hostnames', async () => {
+            await caddy.addProxiedApp(entry('bad', 'bad host {', 'http://bad:80'));
+            expect((await caddy.getStatus()).registered).toEqual([]);
+        });
+
+        it('skips targets with a path, which Caddy upstreams cannot express', async () => {
+            await caddy.addProxiedApp(entry('pathy', 'pathy.example.com', 'http://pathy:80/sub'));
+            expect((await caddy.getStatus()).registered).toEqual([]);
+        });
+
+        it('rejects a hostname already claimed by another app and keeps the original', async () => {
+            await caddy.addProxiedApp(entry('first', 'shared.example.com', 'http://first:80'));
+            await caddy.addProxiedApp(entry('second', 'Shared.example.com', 'http://second:80'));
+
+            expect((await caddy.getStatus()).registered).toEqual(['first']);
+            expect(await caddy.getConfig()).toContain('reverse_proxy http://first:80');
+        });
+    });
+
+    describe('JSON output', () => {
+        it('generates a route per app on a single server', async () => {
+            await caddy.initialize({ proxyBackend: 'caddy', caddy: { outputFile: '', format: 'json' } });
+            await caddy.addProxiedApp(entry('web', 'web.example.com', 'http://web:8000'));
+            await caddy.addProxiedApp(entry('secure', 'secure.example.com', 'https://secure'));
+
+            const config = JSON.parse(await caddy.getConfig());
+            const server = config.apps.http.servers.magic_proxy;
+            expect(server.listen).toEqual([':443']);
+            expect(server.routes).toEqual([
+                {
+                    '@id': 'magic-proxy-web',
+                    match: [{ host: ['web.example.com'] }],
+                    handle: [{ handler: 'reverse_proxy', upstreams: [{ dial: 'web:8000' }] }],
+                    terminal: true,
+                },
+                {
+                    '@id': 'magic-proxy-secure',
+                    match: [{ host: ['secure.example.com'] }],
+                    handle: [{
+                        handler: 'reverse_proxy',
+                        upstreams: [{ dial: 'secure:443' }],
+                        transport: { protocol: 'http', tls: {} },
+                    }],
+                    terminal: true,
+                },
+            ]);
+        });
+
+        it('honors configured listen addresses', async () => {
+            await caddy.initialize({ proxyBackend: 'caddy', caddy: { outputFile: '', format: 'json', listen: [':80'] } });
+            const config = JSON.parse(await caddy.getConfig());
+            expect(config.apps.http.servers.magic_proxy.listen).toEqual([':80']);
+        });
+    });
+
+    it('rejects an unknown output format', async () => {
+        await expect(caddy.initialize({ proxyBackend: 'caddy', caddy: { outputFile: '', format: 'xml' as any } }))
+            .rejects.toThrow("Invalid config.caddy.format 'xml'");
+    });
+
+    it('requires a configuration object', async () => {
+        await expect(caddy.initialize()).rejects.toThrow('Caddy backend requires a configuration object');
+    });
+});
+
+describe('Caddy Backend - output file', () => {
+    let testDir: string;
+
+    beforeEach(async () => {
+        testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'caddy-test-'));
+        caddy._resetForTesting();
+    });
+
+    afterEach(async () => {
+        await fs.rm(testDir, { recursive: true, force: true });
+        caddy._resetForTesting();
+    });
+
+    it('writes the config atomically through backendPlugin and cleans stale temp files', async () => {
+        const outputFile = path.join(testDir, 'Caddyfile.magic');
+        await fs.writeFile(`${outputFile}.1-1.tmp`, 'stale', 'utf-8');
+
+        await backendPlugin.initialize({ proxyBackend: 'caddy', caddy: { outputFile } });
+        await backendPlugin.addProxiedApp(entry('svc', 'svc.example.org', 'http://svc:7000'));
+
+        const status = await backendPlugin.getStatus();
+        expect(status.registered).toEqual(['svc']);
+        expect(status.backends.caddy.outputFile).toBe(outputFile);
+
+        expect(await fs.readdir(testDir)).toEqual(['Caddyfile.magic']);
+        expect(await fs.readFile(outputFile, 'utf-8')).toContain('svc.example.org {');
+    });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { validateSite, validateSites } from '../../../src/backends/caddy/validators';
+
+describe('Caddy Validators', () => {
+    describe('validateSite', () => {
+        it('accepts hostnames with http and https upstreams', () => {
+            expect(validateSite({ hosts: ['a.example.com'], upstreams: ['http://a:8080'] }).valid).toBe(true);
+            expect(validateSite({ hosts: ['a', 'b.example.com'], upstreams: ['https://a:8443/', 'http://[::1]:80'] }).valid).toBe(true);
+        });
+
+        it('rejects sites without hostnames or upstreams', () => {
+            expect(validateSite({ hosts: [], upstreams: ['http://a:80'] })).toEqual({ valid: false, error: 'Site has no hostnames' });
+            expect(validateSite({ hosts: ['a'], upstreams: [] })).toEqual({ valid: false, error: 'Site has no upstreams' });
+        });
+
+        it('rejects hostnames that would break the site address', () => {
+            for (const host of ['', 'a b', 'a{', 'a#b', 'a,b', 'a"b']) {
+                expect(validateSite({ hosts: [host], upstreams: ['http://a:80'] }))
+                    .toEqual({ valid: false, error: `Invalid site address: '${host}'` });
+            }
+        });
+
+        it('rejects upstreams that are not plain http(s) URLs', () => {
+            const error = (upstream: string) => {
+                const result = validateSite({ hosts: ['a'], upstreams: [upstream] });
+                return result.valid === false && result.error;
+            };
+
+            expect(error('a:80')).toBe("Upstream must use http or https: 'a:80'");
+            expect(error('not a url')).toBe("Invalid upstream URL: 'not a url'");
+            expect(error('ftp://a:21')).toBe("Upstream must use http or https: 'ftp://a:21'");
+            expect(error('http://a:80/api')).toBe("Upstream must not contain a path or query: 'http://a:80/api'");
+            expect(error('http://a:80?x=1')).toBe("Upstream must not contain a path or query: 'http://a:80?x=1'");
+            expect(error('http://user:pass@a:80')).toBe("Upstream must not contain credentials: 'http://user:pass@a:80'");
+        });
+    });
+
+    describe('validateSites', () => {
+        it('accepts sites with distinct hostnames', () => {
+            const sites = new Map([
+                ['a', { hosts: ['a.example.com'], upstreams: ['http://a:80'] }],
+                ['b', { hosts: ['b.example.com'], upstreams: ['http://b:80'] }],
+            ]);
+            expect(validateSites(sites).valid).toBe(true);
+        });
+
+        it('prefixes site errors with the app name', () => {
+            const sites = new Map([['a', { hosts: ['a b'], upstreams: ['http://a:80'] }]]);
+            expect(validateSites(sites)).toEqual({ valid: false, error: "a: Invalid site address: 'a b'" });
+        });
+
+        it('rejects a hostname claimed by two apps, ignoring case', () => {
+            const sites = new Map([
+                ['a', { hosts: ['shared.example.com'], upstreams: ['http://a:80'] }],
+                ['b', { hosts: ['Shared.Example.com'], upstreams: ['http://b:80'] }],
+            ]);
+            expect(validateSites(sites)).toEqual({
+                valid: false,
+                error: "Hostname 'Shared.Example.com' is claimed by both 'a' and 'b'",
+            });
+        });
+    });
+});
@@ -0,0 +1,263 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import {
+    parseEnvFile,
+    interpolateString,
+    loadComposeProject
+} from '../../../src/providers/docker';
+import { baseLogger } from '../../../src/logging/logger';
+
+// Mock is-docker so compose file paths are read as-is instead of under /host
+vi.mock('is-docker', () => ({
+    default: () => false,
+}));
+
+describe('Compose interpolation - interpolateString', () => {
+    const variables = { DOMAIN: 'example.com', PORT: '8080', EMPTY: '' };
+
+    it('substitutes braced and unbraced variables', () => {
+        expect(interpolateString('http://app.${DOMAIN}:$PORT/', variables)).toBe('http://app.example.com:8080/');
+    });
+
+    it('substitutes unset variables with an empty string', () => {
+        expect(interpolateString('a${MISSING}b$MISSING', variables)).toBe('ab');
+    });
+
+    it('applies defaults with and without a colon', () => {
+        expect(interpolateString('${MISSING:-9000}', variables)).toBe('9000');
+        expect(interpolateString('${EMPTY:-fallback}', variables)).toBe('fallback');
+        expect(interpolateString('${EMPTY-fallback}', variables)).toBe('');
+        expect(interpolateString('${PORT:-9000}', variables)).toBe('8080');
+    });
+
+    it('supports nested defaults and alternatives', () => {
+        expect(interpolateString('${MISSING:-${DOMAIN}}', variables)).toBe('example.com');
+        expect(interpolateString('${PORT:+:${PORT}}', variables)).toBe(':8080');
+        expect(interpolateString('${MISSING:+set}', variables)).toBe('');
+    });
+
+    it('keeps $$ as a literal dollar sign', () => {
+        expect(interpolateString('$${DOMAIN} costs $$5', variables)).toBe('${DOMAIN} costs $5');
+    });
+
+    it('throws for required variables without a value', () => {
+        expect(() => interpolateString('${TOKEN:?TOKEN must be set}', variables))
+            .toThrow('Required variable TOKEN is missing a value: TOKEN must be set');
+        expect(() => interpolateString('${EMPTY:?}', variables)).toThrow('Required variable EMPTY is missing a value');
+        expect(interpolateString('${EMPTY?}', variables)).toBe('');
+    });
+
+    it('throws for malformed expressions', () => {
+        expect(() => interpolateString('${DOMAIN', variables)).toThrow("unterminated '${'");
+        expect(() => interpolateString('${DOMAIN:x}', variables)).toThrow('Invalid interpolation format');
+    });
+});
+
+describe('Compose interpolation - parseEnvFile', () => {
+    it('parses assignments, quotes, comments and export prefixes', () => {
+        expect(parseEnvFile([
+            '# comment',
+            'DOMAIN=example.com',
+            'export PORT=8080',
+            'QUOTED="a \\"b\\"\\nc"',
+            "LITERAL='${NOT_EXPANDED}'",
+            'TRAILING=value # comment',
+            'NO_VALUE',
+            '',
+        ].join('\n'))).toEqual({
+            DOMAIN: 'example.com',
+            PORT: '8080',
+            QUOTED: 'a "b"\nc',
+            LITERAL: '${NOT_EXPANDED}',
+            TRAILING: 'value',
+        });
+    });
+});
+
+describe('Compose interpolation - loadComposeProject', () => {
+    let testDir: string;
+    let composePath: string;
+
+    beforeEach(async () => {
+        vi.restoreAllMocks();
+        vi.spyOn(baseLogger, 'error').mockImplementation(() => { });
+        testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'compose-interpolation-'));
+        composePath = path.join(testDir, 'docker-compose.yml');
+    });
+
+    afterEach(async () => {
+        await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    it('interpolates x-magic-proxy with the project .env file', async () => {
+        await fs.writeFile(path.join(testDir, '.env'), 'DOMAIN=example.com\n', 'utf-8');
+        await fs.writeFile(composePath, `
+services:
+  web:
+    image: nginx:\${TAG:-latest}
+    x-magic-proxy:
+      template: example.yml
+      hostname: web.\${DOMAIN}
+      target: http://web:\${PORT:-8080}
+`, 'utf-8');
+
+        const data = await loadComposeProject([composePath]);
+
+        expect(data?.services?.web.image).toBe('nginx:latest');
+        expect(data?.services?.web['x-magic-proxy']).toMatchObject({
+            hostname: 'web.example.com',
+            target: 'http://web:8080',
+        });
+    });
+
+    it('lets x-magic-proxy use the service environment and env_file', async () => {
+        await fs.writeFile(path.join(testDir, '.env'), 'PORT=1000\nTEAM=ops\n', 'utf-8');
+        await fs.writeFile(path.join(testDir, 'web.env'), 'PORT=2000\nGROUP=admins\n', 'utf-8');
+        await fs.writeFile(composePath, `
+services:
+  web:
+    image: nginx
+    env_file: web.env
+    environment:
+      - PORT=3000
+    x-magic-proxy:
+      template: example.yml
+      hostname: web.example.com
+      target: http://web:\${PORT}
+      userData:
+        group: \${GROUP}
+        team: \${TEAM}
+  other:
+    image: nginx
+    x-magic-proxy:
+      template: example.yml
+      hostname: other.example.com
+      target: http://other:\${PORT}
+`, 'utf-8');
+
+        const data = await loadComposeProject([composePath]);
+
+        expect(data?.services?.web['x-magic-proxy']).toMatchObject({
+            target: 'http://web:3000',
+            userData: { group: 'admins', team: 'ops' },
+        });
+        expect(data?.services?.other['x-magic-proxy']?.target).toBe('http://other:1000');
+    });
+
+    it('drops only the x-magic-proxy block of a service missing a required variable', async () => {
+        await fs.writeFile(composePath, `
+services:
+  web:
+    x-magic-proxy:
+      template: example.yml
+      hostname: \${DOMAIN:?DOMAIN must be set}
+      target: http://web
+  api:
+    x-magic-proxy:
+      template: example.yml
+      hostname: api.example.com
+      target: http://api
+`, 'utf-8');
+
+        const data = await loadComposeProject([composePath]);
+
+        expect(data?.services?.web['x-magic-proxy']).toBeUndefined();
+        expect(data?.services?.api['x-magic-proxy']?.hostname).toBe('api.example.com');
+        expect(baseLogger.error).toHaveBeenCalledWith(
+            'Failed to interpolate x-magic-proxy',
+            expect.objectContaining({
+                data: {
+                    path: composePath,
+                    service: 'web',
+                    error: 'services.web.x-magic-proxy.hostname: Required variable DOMAIN is missing a value: DOMAIN must be set',
+                },
+            })
+        );
+    });
+
+    it('leaves values outside x-magic-proxy that cannot be interpolated as written', async () => {
+        await fs.writeFile(composePath, `
+services:
+  db:
+    image: postgres:\${PG_TAG:?set it}
+  web:
+    x-magic-proxy:
+      template: example.yml
+      hostname: web.example.com
+      target: http://web
+`, 'utf-8');
+
+        const data = await loadComposeProject([composePath]);
+
+        expect(data?.services?.db.image).toBe('postgres:${PG_TAG:?set it}');
+        expect(data?.services?.web['x-magic-proxy']?.hostname).toBe('web.example.com');
+        expect(baseLogger.error).not.toHaveBeenCalled();
+    });
+
+    it('drops the x-magic-proxy block of a service whose env_file is missing', async () => {
+        await fs.writeFile(composePath, `
+services:
+  web:
+    env_file: missing.env
+    x-magic-proxy:
+      template: example.yml
+      hostname: web.example.com
+      target: http://web
+`, 'utf-8');
+
+        const data = await loadComposeProject([composePath]);
+
+        expect(data?.services?.web).toBeDefined();
+        expect(data?.services?.web['x-magic-proxy']).toBeUndefined();
+        expect(baseLogger.error).toHaveBeenCalledWith(
+            'Failed to interpolate x-magic-proxy',
+            expect.objectContaining({
+                data: expect.objectContaining({ error: `env_file ${path.join(testDir, 'missing.env')} not found` }),
+            })
+        );
+    });
+
+    it('accepts the long env_file form and skips missing optional files', async () => {
+        await fs.writeFile(path.join(testDir, 'web.env'), 'PORT=2000\n', 'utf-8');
+        await fs.writeFile(composePath, `
+services:
+  web:
+    env_file:
+      - path: ./web.env
+      - path: ./local.env
+        required: false
+    x-magic-proxy:
+      template: example.yml
+      hostname: web.example.com
+      target: http://web:\${PORT}
+`, 'utf-8');
+
+        const data = await loadComposeProject([composePath]);
+
+        expect(data?.services?.web['x-magic-proxy']?.target).toBe('http://web:2000');
+        expect(baseLogger.error).not.toHaveBeenCalled();
+    });
+
+    it('reports every file the project was read from', async () => {
+        await fs.writeFile(path.join(testDir, '.env'), 'PORT=1000\n', 'utf-8');
+        await fs.writeFile(path.join(testDir, 'web.env'), 'GROUP=admins\n', 'utf-8');
+        await fs.writeFile(composePath, `
+services:
+  web:
+    env_file: web.env
+    x-magic-proxy:
+      template: example.yml
+      hostname: web.example.com
+      target: http://web:\${PORT}
+`, 'utf-8');
+        const readFiles = new Set<string>();
+
+        await loadComposeProject([composePath], undefined, undefined, readFiles);
+
+        expect(Array.from(readFiles).sort()).toEqual(
+            [composePath, path.join(testDir, '.env'), path.join(testDir, 'web.env')].sort()
+        );
+    });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import Docker from 'dockerode';
+import {
+    DockerProvider,
+    splitComposeFiles,
+    groupContainersByComposeFile,
+    buildContainerManifest,
+    mergeComposeData,
+    COMPOSE_CONFIG_LABEL,
+    COMPOSE_SERVICE_LABEL
+} from '../../../src/providers/docker';
+import { HostDB } from '../../../src/hostDb';
+import { baseLogger } from '../../../src/logging/logger';
+import { createMockContainer } from '../../helpers/mockHelpers';
+import { FakeDockerSocket } from '../../helpers/fakeDockerSocket';
+
+// Mock is-docker so compose file paths are read as-is instead of under /host
+vi.mock('is-docker', () => ({
+    default: () => false,
+}));
+
+const BASE_FILE = `
+services:
+  web:
+    image: nginx
+    ports: ["80:80"]
+    environment:
+      - MODE=base
+      - LOG=info
+    x-magic-proxy:
+      template: example.yml
+      hostname: web.example.com
+      target: http://web:80
+      userData:
+        team: web
+`;
+
+const OVERRIDE_FILE = `
+services:
+  web:
+    ports: ["443:443"]
+    environment:
+      MODE: override
+    x-magic-proxy:
+      hostname: staging.example.com
+      userData:
+        stage: staging
+`;
+
+function composeLabels(configFiles: string) {
+    return { [COMPOSE_CONFIG_LABEL]: configFiles, [COMPOSE_SERVICE_LABEL]: 'web' };
+}
+
+describe('Docker Compose overrides - grouping', () => {
+    it('splits comma-separated config_files labels', () => {
+        expect(splitComposeFiles('/srv/a.yml, /srv/b.yml,')).toEqual(['/srv/a.yml', '/srv/b.yml']);
+        expect(splitComposeFiles('/srv/a.yml')).toEqual(['/srv/a.yml']);
+    });
+
+    it('groups containers by their full list of files', () => {
+        const refs = groupContainersByComposeFile([
+            createMockContainer('one', composeLabels('/srv/a.yml,/srv/b.yml')),
+            createMockContainer('two', composeLabels('/srv/a.yml, /srv/b.yml')),
+            createMockContainer('three', composeLabels('/srv/a.yml')),
+        ]);
+
+        expect(refs).toHaveLength(2);
+        expect(refs[0]).toMatchObject({ path: '/srv/a.yml', files: ['/srv/a.yml', '/srv/b.yml'] });
+        expect(refs[0].containers).toHaveLength(2);
+        expect(refs[1]).toMatchObject({ path: '/srv/a.yml', files: ['/srv/a.yml'] });
+    });
+});
+
+describe('Docker Compose overrides - mergeComposeData', () => {
+    it('merges services with compose override semantics', () => {
+        const merged = mergeComposeData([
+            { services: { web: { image: 'nginx', ports: ['80:80'], command: ['a', 'b'], environment: ['MODE=base', 'LOG=info'] } } },
+            { services: { web: { ports: ['443:443', '80:80'], command: ['c'], environment: { MODE: 'override' } }, db: { image: 'postgres' } } },
+        ]);
+
+        expect(merged.services?.web).toEqual({
+            image: 'nginx',
+            ports: ['80:80', '443:443'],
+            command: ['c'],
+            environment: { MODE: 'override', LOG: 'info' },
+        });
+        expect(merged.services?.db).toEqual({ image: 'postgres' });
+    });
+
+    it('merges x-magic-proxy blocks key by key', () => {
+        const merged = mergeComposeData([
+            { services: { web: { 'x-magic-proxy': { template: 'a.yml', hostname: ['a.example.com', 'b.example.com'], target: 'http://web', userData: { team: 'web' } } } } },
+            { services: { web: { 'x-magic-proxy': { hostname: ['c.example.com'], userData: { stage: 'staging' } } as any } } },
+        ]);
+
+        expect(merged.services?.web['x-magic-proxy']).toEqual({
+            template: 'a.yml',
+            hostname: ['c.example.com'],
+            target: 'http://web',
+            userData: { team: 'web', stage: 'staging' },
+        });
+    });
+});
+
+describe('Docker Compose overrides - provider', () => {
+    let testDir: string;
+    let basePath: string;
+    let overridePath: string;
+
+    beforeEach(async () => {
+        vi.restoreAllMocks();
+        vi.spyOn(baseLogger, 'warn').mockImplementation(() => { });
+        vi.spyOn(baseLogger, 'error').mockImplementation(() => { });
+        testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'compose-override-'));
+        basePath = path.join(testDir, 'docker-compose.yml');
+        overridePath = path.join(testDir, 'docker-compose.override.yml');
+        await fs.writeFile(basePath, BASE_FILE, 'utf-8');
+        await fs.writeFile(overridePath, OVERRIDE_FILE, 'utf-8');
+    });
+
+    afterEach(async () => {
+        await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    it('builds entries from the merged project files', async () => {
+        const docker = { listContainers: vi.fn() } as any;
+        const { manifest, results } = await buildContainerManifest(docker, {
+            containers: [createMockContainer('web', composeLabels(`${basePath},${overridePath}`))],
+        });
+
+        expect(manifest[0]).toMatchObject({
+            composeFilePath: basePath,
+            xMagicProxy: {
+                template: 'example.yml',
+                hostname: 'staging.example.com',
+                target: 'http://web:80',
+                userData: { team: 'web', stage: 'staging' },
+            },
+        });
+        expect(results[basePath]).toEqual({ web: 'ok' });
+    });
+
+    it('fails the project when one of its files cannot be read', async () => {
+        const docker = { listContainers: vi.fn() } as any;
+        const { manifest, results } = await buildContainerManifest(docker, {
+            containers: [createMockContainer('web', composeLabels(`${basePath},${path.join(testDir, 'missing.yml')}`))],
+        });
+
+        expect(manifest).toEqual([]);
+        expect(results[basePath]).toEqual({ web: 'Failed to load compose file' });
+    });
+
+    it('watches every file of the project', async () => {
+        const socket = new FakeDockerSocket(path.join(testDir, 'docker.sock'));
+        await socket.listen();
+        socket.containers = [createMockContainer('web', composeLabels(`${basePath},${overridePath}`))];
+        const hostDb = new HostDB();
+        const provider = new DockerProvider(hostDb, { syncIntervalMs: 0 }, new Docker({ socketPath: socket.socketPath }));
+
+        try {
+            await provider.start();
+            expect(hostDb.get('web')?.xMagicProxy.hostname).toBe('staging.example.com');
+
+            await fs.writeFile(overridePath, OVERRIDE_FILE.replace('staging.example.com', 'preview.example.com'), 'utf-8');
+            await vi.waitFor(() => {
+                expect(hostDb.get('web')?.xMagicProxy.hostname).toBe('preview.example.com');
+            }, { timeout: 3000 });
+        } finally {
+            provider.stop();
+            await socket.close();
+        }
+    });
+});
@@ -0,0 +1,288 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import Docker from 'dockerode';
+import {
+    loadComposeFile,
+    loadComposeProject,
+    buildContainerManifest,
+    COMPOSE_CONFIG_LABEL,
+    COMPOSE_SERVICE_LABEL
+} from '../../../src/providers/docker';
+import { baseLogger } from '../../../src/logging/logger';
+
+// Mock is-docker so compose file paths are read as-is instead of under /host
+vi.mock('is-docker', () => ({
+    default: () => false,
+}));
+
+describe('Compose include and extends', () => {
+    let testDir: string;
+
+    async function write(file: string, content: string): Promise<string> {
+        const filePath = path.join(testDir, file);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, content, 'utf-8');
+        return filePath;
+    }
+
+    beforeEach(async () => {
+        vi.restoreAllMocks();
+        vi.spyOn(baseLogger, 'warn').mockImplementation(() => { });
+        vi.spyOn(baseLogger, 'error').mockImplementation(() => { });
+        testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'compose-resolve-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    it('adds services from included files, relative to the including file', async () => {
+        await write('stacks/db/compose.yml', `
+services:
+  db:
+    image: postgres
+networks:
+  backend: {}
+`);
+        const main = await write('compose.yml', `
+include:
+  - stacks/db/compose.yml
+services:
+  web:
+    image: nginx
+`);
+
+        const data = await loadComposeFile(main);
+
+        expect(Object.keys(data?.services ?? {})).toEqual(['web', 'db']);
+        expect(data?.networks).toEqual({ backend: {} });
+        expect(data).not.toHaveProperty('include');
+    });
+
+    it('resolves nested includes and the long include syntax', async () => {
+        await write('inner.yml', 'services:\n  inner:\n    image: busybox\n');
+        await write('a/outer.yml', 'include:\n  - ../inner.yml\nservices:\n  outer:\n    image: busybox\n');
+        const main = await write('compose.yml', 'include:\n  - path: [a/outer.yml]\n');
+
+        const data = await loadComposeFile(main);
+
+        expect(Object.keys(data?.services ?? {}).sort()).toEqual(['inner', 'outer']);
+    });
+
+    it('inherits x-magic-proxy through extends in the same file', async () => {
+        const main = await write('compose.yml', `
+services:
+  base:
+    image: nginx
+    x-magic-proxy:
+      template: example.yml
+      hostname: base.example.com
+      target: http://web:80
+  web:
+    extends: base
+    x-magic-proxy:
+      hostname: web.example.com
+`);
+
+        const data = await loadComposeFile(main);
+
+        expect(data?.services?.web).toEqual({
+            image: 'nginx',
+            'x-magic-proxy': { template: 'example.yml', hostname: 'web.example.com', target: 'http://web:80' },
+        });
+    });
+
+    it('resolves extends from another file relative to the extending file', async () => {
+        await write('common/base.yml', `
+services:
+  proxied:
+    x-magic-proxy:
+      template: example.yml
+      hostname: app.example.com
+      target: http://app:8080
+  root:
+    extends:
+      service: proxied
+    image: nginx
+`);
+        const main = await write('app/compose.yml', `
+services:
+  app:
+    extends:
+      file: ../common/base.yml
+      service: root
+`);
+
+        const data = await loadComposeFile(main);
+
+        expect(data?.services?.app).toMatchObject({
+            image: 'nginx',
+            'x-magic-proxy': { hostname: 'app.example.com' },
+        });
+    });
+
+    it('honors an inherited x-magic-proxy block when building the manifest', async () => {
+        await write('base.yml', `
+services:
+  proxied:
+    x-magic-proxy:
+      template: example.yml
+      hostname: app.example.com
+      target: http://app:8080
+`);
+        const main = await write('compose.yml', `
+services:
+  app:
+    image: nginx
+    extends:
+      file: base.yml
+      service: proxied
+`);
+
+        const { manifest } = await buildContainerManifest({} as any, {
+            containers: [{
+                Id: 'app',
+                Names: ['/app'],
+                Labels: { [COMPOSE_CONFIG_LABEL]: main, [COMPOSE_SERVICE_LABEL]: 'app' },
+            } as unknown as Docker.ContainerInfo],
+        });
+
+        expect(manifest[0]).toMatchObject({ containerName: 'app', xMagicProxy: { hostname: 'app.example.com' } });
+    });
+
+    it('rejects circular includes', async () => {
+        await write('b.yml', 'include:\n  - a.yml\n');
+        const main = await write('a.yml', 'include:\n  - b.yml\n');
+
+        expect(await loadComposeFile(main)).toBeUndefined();
+        expect(baseLogger.error).toHaveBeenCalledWith(
+            'Failed to resolve compose include/extends',
+            expect.objectContaining({
+                data: { path: main, error: `Circular include: ${main} -> ${path.join(testDir, 'b.yml')} -> ${main}` },
+            })
+        );
+    });
+
+    it('rejects circular extends', async () => {
+        const main = await write('compose.yml', `
+services:
+  a:
+    extends: b
+  b:
+    extends: a
+`);
+
+        expect(await loadComposeFile(main)).toBeUndefined();
+        expect(baseLogger.error).toHaveBeenCalledWith(
+            'Failed to resolve compose include/extends',
+            expect.objectContaining({
+                data: { path: main, error: `Circular extends: ${main}:a -> ${main}:b -> ${main}:a` },
+            })
+        );
+    });
+
+    it('rejects services that conflict with included ones', async () => {
+        await write('other.yml', 'services:\n  web:\n    image: busybox\n');
+        const main = await write('compose.yml', 'include:\n  - other.yml\nservices:\n  web:\n    image: nginx\n');
+
+        expect(await loadComposeFile(main)).toBeUndefined();
+    });
+
+    it('rejects extends of an unknown service', async () => {
+        const main = await write('compose.yml', 'services:\n  web:\n    extends: missing\n');
+
+        expect(await loadComposeFile(main)).toBeUndefined();
+        expect(baseLogger.error).toHaveBeenCalledWith(
+            'Failed to resolve compose include/extends',
+            expect.objectContaining({ data: { path: main, error: `Service 'missing' not found in ${main}` } })
+        );
+    });
+
+    it('resolves extends after merging, so override files may extend services of other files', async () => {
+        const main = await write('compose.yml', `
+services:
+  proxied:
+    image: nginx
+    x-magic-proxy:
+      template: example.yml
+      hostname: base.example.com
+      target: http://app:8080
+`);
+        const override = await write('compose.override.yml', `
+services:
+  app:
+    extends: proxied
+    x-magic-proxy:
+      hostname: app.example.com
+`);
+
+        const data = await loadComposeProject([main, override]);
+
+        expect(data?.services?.app).toEqual({
+            image: 'nginx',
+            'x-magic-proxy': { template: 'example.yml', hostname: 'app.example.com', target: 'http://app:8080' },
+        });
+    });
+
+    it('interpolates included files with their env_file or project_directory', async () => {
+        await write('.env', 'DOMAIN=main.example.com\n');
+        await write('db/db.env', 'DOMAIN=db.example.com\n');
+        await write('cache/.env', 'DOMAIN=cache.example.com\n');
+        await write('stacks/db.yml', `
+services:
+  db:
+    x-magic-proxy:
+      template: example.yml
+      hostname: \${DOMAIN}
+      target: http://db
+`);
+        await write('stacks/cache.yml', `
+services:
+  cache:
+    x-magic-proxy:
+      template: example.yml
+      hostname: \${DOMAIN}
+      target: http://cache
+`);
+        const main = await write('compose.yml', `
+include:
+  - path: stacks/db.yml
+    env_file: db/db.env
+  - path: stacks/cache.yml
+    project_directory: cache
+services:
+  web:
+    x-magic-proxy:
+      template: example.yml
+      hostname: \${DOMAIN}
+      target: http://web
+`);
+
+        const data = await loadComposeProject([main]);
+
+        expect(data?.services?.web['x-magic-proxy']?.hostname).toBe('main.example.com');
+        expect(data?.services?.db['x-magic-proxy']?.hostname).toBe('db.example.com');
+        expect(data?.services?.cache['x-magic-proxy']?.hostname).toBe('cache.example.com');
+    });
+
+    it('reports included and extended files as read, so they are watched', async () => {
+        const included = await write('stacks/db.yml', 'services:\n  db:\n    image: postgres\n');
+        const base = await write('base.yml', 'services:\n  proxied:\n    image: nginx\n');
+        const main = await write('compose.yml', `
+include:
+  - stacks/db.yml
+services:
+  app:
+    extends:
+      file: base.yml
+      service: proxied
+`);
+        const readFiles = new Set<string>();
+
+        await loadComposeProject([main], undefined, undefined, readFiles);
+
+        expect(Array.from(readFiles).sort()).toEqual([base, main, included].sort());
+    });
+});
@@ -328,6 +328,55 @@ describe('Docker Provider - extractXMagicProxy', () => {
         const result = extractXMagicProxy(composeData, 'web');
         expect(result).toBeUndefined();
     });
+
+    it('should merge x-magic-proxy-defaults under the service block', () => {
+        const composeData: ComposeFileData = {
+            'x-magic-proxy-defaults': {
+                template: 'example.yml',
+                userData: { oidc_group: 'admins', rateLimit: 10 }
+            },
+            services: {
+                web: {
+                    image: 'nginx',
+                    'x-magic-proxy': {
+                        hostname: 'web.example.com',
+                        target: 'http://web:80',
+                        userData: { rateLimit: 50 }
+                    } as XMagicProxyData
+                },
+                api: {
+                    image: 'node',
+                    'x-magic-proxy': {
+                        template: 'api.yml',
+                        hostname: 'api.example.com',
+                        target: 'http://api:8080'
+                    }
+                }
+            }
+        };
+
+        const web = extractXMagicProxy(composeData, 'web');
+        expect(web).toEqual({
+            template: 'example.yml',
+            hostname: 'web.example.com',
+            target: 'http://web:80',
+            userData: { oidc_group: 'admins', rateLimit: 50 }
+        });
+        expect(validateXMagicProxy(web, 'web')).toBe(true);
+        expect(extractXMagicProxy(composeData, 'api')).toMatchObject({ template: 'api.yml' });
+    });
+
+    it('should not apply x-magic-proxy-defaults to services without x-magic-proxy', () => {
+        const composeData: ComposeFileData = {
+            'x-magic-proxy-defaults': { template: 'example.yml' },
+            services: {
+                db: { image: 'postgres' }
+            }
+        };
+
+        expect(extractXMagicProxy(composeData, 'db')).toBeUndefined();
+        expect(extractXMagicProxy(composeData)).toBeUndefined();
+    });
 });
 
 describe('Docker Provider - groupContainersByComposeFile', () => {
@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import {
+    getEngineOptions,
+    createPathResolver,
+    DockerEngineGroup,
+    COMPOSE_CONFIG_LABEL,
+    COMPOSE_SERVICE_LABEL
+} from '../../../src/providers/docker';
+import { HostDB } from '../../../src/hostDb';
+import { validateConfig } from '../../../src/config';
+import { baseLogger } from '../../../src/logging/logger';
+import { FakeDockerSocket } from '../../helpers/fakeDockerSocket';
+
+// Mock is-docker so compose file paths are read as-is instead of under /host
+vi.mock('is-docker', () => ({
+    default: () => false,
+}));
+
+const COMPOSE_FILE = `
+services:
+  web:
+    image: nginx
+    x-magic-proxy:
+      template: example.yml
+      hostname: remote.example.com
+      target: http://web:80
+`;
+
+describe('Docker Engines - getEngineOptions', () => {
+    let testDir: string;
+
+    beforeEach(async () => {
+        testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'docker-engines-'));
+        for (const name of ['ca.pem', 'cert.pem', 'key.pem', 'id_ed25519']) {
+            await fs.writeFile(path.join(testDir, name), `${name}-content`, 'utf-8');
+        }
+    });
+
+    afterEach(async () => {
+        await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    it('connects to tcp engines with TLS client certificates', () => {
+        const options = getEngineOptions({
+            name: 'nas',
+            host: 'tcp://nas.lan:2376',
+            tls: {
+                ca: path.join(testDir, 'ca.pem'),
+                cert: path.join(testDir, 'cert.pem'),
+                key: path.join(testDir, 'key.pem'),
+            },
+        });
+
+        expect(options).toMatchObject({ host: 'nas.lan', port: '2376', protocol: 'https' });
+        expect(options.ca?.toString()).toBe('ca.pem-content');
+        expect(options.cert?.toString()).toBe('cert.pem-content');
+        expect(options.key?.toString()).toBe('key.pem-content');
+    });
+
+    it('connects to tcp engines without TLS over plain http', () => {
+        expect(getEngineOptions({ name: 'lab', host: 'tcp://10.0.0.5' })).toMatchObject({
+            host: '10.0.0.5',
+            port: 2375,
+            protocol: 'http',
+        });
+    });
+
+    it('connects to ssh engines with an identity file or the agent', () => {
+        const withKey = getEngineOptions({
+            name: 'vps',
+            host: 'ssh://deploy@vps.example.com:2222',
+            identityFile: path.join(testDir, 'id_ed25519'),
+        });
+        expect(withKey).toMatchObject({ host: 'vps.example.com', port: '2222', protocol: 'ssh', username: 'deploy' });
+        expect(withKey.sshOptions?.privateKey?.toString()).toBe('id_ed25519-content');
+
+        vi.stubEnv('SSH_AUTH_SOCK', '/tmp/agent.sock');
+        expect(getEngineOptions({ name: 'vps', host: 'ssh://deploy@vps.example.com' }).sshOptions)
+            .toEqual({ agent: '/tmp/agent.sock' });
+        vi.unstubAllEnvs();
+    });
+
+    it('connects to unix sockets', () => {
+        expect(getEngineOptions({ name: 'local', host: 'unix:///var/run/docker.sock' }))
+            .toEqual({ socketPath: '/var/run/docker.sock' });
+    });
+
+    it('rejects unsupported addresses and missing credentials', () => {
+        expect(() => getEngineOptions({ name: 'x', host: 'npipe:////./pipe/docker_engine' }))
+            .toThrow("Unsupported protocol 'npipe:' for Docker engine 'x'");
+        expect(() => getEngineOptions({ name: 'x', host: 'tcp://h:2376', tls: { ca: path.join(testDir, 'missing.pem') } }))
+            .toThrow("Failed to read credentials for Docker engine 'x'");
+    });
+});
+
+describe('Docker Engines - createPathResolver', () => {
+    it('maps the longest matching directory prefix', () => {
+        const resolve = createPathResolver({
+            name: 'nas',
+            host: 'tcp://nas:2375',
+            paths: { '/srv': '/mnt/nas', '/srv/stacks/': '/mnt/stacks' },
+        });
+
+        expect(resolve('/srv/stacks/app/docker-compose.yml')).toBe('/mnt/stacks/app/docker-compose.yml');
+        expect(resolve('/srv/other/docker-compose.yml')).toBe('/mnt/nas/other/docker-compose.yml');
+        expect(resolve('/srvx/docker-compose.yml')).toBe('/srvx/docker-compose.yml');
+    });
+
+    it('uses the local /host rules without a mapping', () => {
+        const resolve = createPathResolver({ name: 'local', host: 'unix:///var/run/docker.sock' });
+        expect(resolve('/srv/docker-compose.yml')).toBe('/srv/docker-compose.yml');
+    });
+});
+
+describe('Docker Engines - DockerEngineGroup', () => {
+    let testDir: string;
+    let sockets: FakeDockerSocket[];
+    let hostDb: HostDB;
+    let group: DockerEngineGroup | undefined;
+
+    function webContainer(labels: Record<string, string>) {
+        return { Id: 'web', Names: ['/web'], Labels: labels };
+    }
+
+    beforeEach(async () => {
+        vi.spyOn(baseLogger, 'warn').mockImplementation(() => { });
+        vi.spyOn(baseLogger, 'error').mockImplementation(() => { });
+        testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'docker-engines-'));
+        await fs.writeFile(path.join(testDir, 'docker-compose.yml'), COMPOSE_FILE, 'utf-8');
+        sockets = [new FakeDockerSocket(path.join(testDir, 'a.sock')), new FakeDockerSocket(path.join(testDir, 'b.sock'))];
+        await Promise.all(sockets.map(s => s.listen()));
+        hostDb = new HostDB();
+    });
+
+    afterEach(async () => {
+        group?.stop();
+        group = undefined;
+        await Promise.all(sockets.map(s => s.close()));
+        await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    it('namespaces containers by engine and reads compose files through the path mapping', async () => {
+        // Engine "a" reports compose paths on its own host, mapped to testDir here
+        sockets[0].containers = [webContainer({
+            [COMPOSE_CONFIG_LABEL]: '/remote/stack/docker-compose.yml',
+            [COMPOSE_SERVICE_LABEL]: 'web',
+        })];
+        sockets[1].containers = [webContainer({
+            'magic-proxy.template': 'example.yml',
+            'magic-proxy.hostname': 'b.example.com',
+            'magic-proxy.target': 'http://web:80',
+        })];
+
+        group = new DockerEngineGroup(hostDb, [
+            { name: 'a', host: `unix://${sockets[0].socketPath}`, paths: { '/remote/stack': testDir } },
+            { name: 'b', host: `unix://${sockets[1].socketPath}` },
+        ]);
+        await group.start();
+
+        expect(hostDb.get('a/web')).toMatchObject({
+            source: { provider: 'docker:a', path: '/remote/stack/docker-compose.yml' },
+            xMagicProxy: { hostname: 'remote.example.com' },
+        });
+        expect(hostDb.get('b/web')).toMatchObject({
+            source: { provider: 'docker:b' },
+            xMagicProxy: { hostname: 'b.example.com' },
+        });
+        expect(hostDb.get('web')).toBeUndefined();
+        expect(group.getStatus()).toMatchObject({ active: true, hosts: 2, engines: { a: { hosts: 1 }, b: { hosts: 1 } } });
+    });
+
+    it('only removes hosts of the engine whose container went away', async () => {
+        const labels = {
+            'magic-proxy.template': 'example.yml',
+            'magic-proxy.hostname': 'web.example.com',
+            'magic-proxy.target': 'http://web:80',
+        };
+        sockets[0].containers = [webContainer(labels)];
+        sockets[1].containers = [webContainer(labels)];
+
+        group = new DockerEngineGroup(hostDb, [
+            { name: 'a', host: `unix://${sockets[0].socketPath}` },
+            { name: 'b', host: `unix://${sockets[1].socketPath}` },
+        ], { syncIntervalMs: 0 });
+        await group.start();
+
+        sockets[1].containers = [];
+        await vi.waitFor(() => {
+            sockets[1].emitEvent({ Type: 'container', Action: 'die', Actor: { Attributes: { name: 'web' } } });
+            expect(hostDb.get('b/web')).toBeUndefined();
+        });
+        expect(hostDb.get('a/web')).toBeDefined();
+    });
+});
+
+describe('Docker Engines - config validation', () => {
+    it('accepts tcp, ssh and unix engines', () => {
+        expect(validateConfig({
+            proxyBackend: 'traefik',
+            docker: {
+                engines: [
+                    { name: 'nas', host: 'tcp://nas:2376', tls: { ca: 'ca.pem' } },
+                    { name: 'vps', host: 'ssh://root@vps' },
+                    { name: 'local', host: 'unix:///var/run/docker.sock' },
+                ],
+            },
+        })).toBe(true);
+    });
+
+    it('rejects invalid engines', () => {
+        const config = (engines: unknown) => ({ proxyBackend: 'traefik' as const, docker: { engines: engines as any } });
+
+        expect(() => validateConfig(config([{ name: 'a b', host: 'tcp://x' }])))
+            .toThrow('Invalid docker.engines entry: name may only contain letters, digits, - and _');
+        expect(() => validateConfig(config([{ name: 'a', host: 'tcp://x' }, { name: 'a', host: 'tcp://y' }])))
+            .toThrow("Duplicate docker engine name in config file: 'a'");
+        expect(() => validateConfig(config([{ name: 'a', host: 'http://x' }])))
+            .toThrow("Invalid host for docker engine 'a'. Must start with one of: tcp://, ssh://, unix://");
+        expect(() => validateConfig(config([{ name: 'a', host: 'ssh://x', tls: {} }])))
+            .toThrow("Docker engine 'a' sets tls but is not a tcp:// engine");
+    });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import Docker from 'dockerode';
+import { DockerProvider, buildContainerManifest, isContainerActive } from '../../../src/providers/docker';
+import { HostDB } from '../../../src/hostDb';
+import { attachHostDbToBackend } from '../../../src/hostDispatcher';
+import * as backendPlugin from '../../../src/backends/backendPlugin';
+import { validateConfig } from '../../../src/config';
+import { baseLogger } from '../../../src/logging/logger';
+import { createMockContainer, createMockHostEntry } from '../../helpers/mockHelpers';
+import { FakeDockerSocket } from '../../helpers/fakeDockerSocket';
+
+const labelled = {
+    'magic-proxy.template': 'example.yml',
+    'magic-proxy.hostname': 'app.example.com',
+    'magic-proxy.target': 'http://app:8080',
+};
+
+describe('Health-aware routing - isContainerActive', () => {
+    it('is active for running containers without a healthcheck', () => {
+        expect(isContainerActive(createMockContainer('app', labelled, { Status: 'Up 5 minutes' }))).toBe(true);
+    });
+
+    it('follows the healthcheck of running containers', () => {
+        expect(isContainerActive(createMockContainer('app', labelled, { Status: 'Up 5 minutes (healthy)' }))).toBe(true);
+        expect(isContainerActive(createMockContainer('app', labelled, { Status: 'Up 5 minutes (unhealthy)' }))).toBe(false);
+        expect(isContainerActive(createMockContainer('app', labelled, { Status: 'Up 2 seconds (health: starting)' }))).toBe(false);
+    });
+
+    it('is inactive for containers that are not running', () => {
+        expect(isContainerActive(createMockContainer('app', labelled, { State: 'exited', Status: 'Exited (0) 1 minute ago' }))).toBe(false);
+        expect(isContainerActive(createMockContainer('app', labelled, { State: 'paused', Status: 'Up 5 minutes (Paused)' }))).toBe(false);
+    });
+});
+
+describe('Health-aware routing - buildContainerManifest', () => {
+    const docker = { listContainers: vi.fn() } as any;
+
+    it('sets state.isActive when health-aware', async () => {
+        const { manifest } = await buildContainerManifest(docker, {
+            containers: [
+                createMockContainer('up', labelled, { Status: 'Up 1 minute (healthy)' }),
+                createMockContainer('sick', labelled, { Status: 'Up 1 minute (unhealthy)' }),
+                createMockContainer('down', labelled, { State: 'exited', Status: 'Exited (1) 1 minute ago' }),
+            ] as any,
+            healthAware: true,
+        });
+
+        expect(Object.fromEntries(manifest.map(e => [e.containerName, e.state]))).toEqual({
+            up: { isActive: true },
+            sick: { isActive: false },
+            down: { isActive: false },
+        });
+    });
+
+    it('leaves state empty by default', async () => {
+        const { manifest } = await buildContainerManifest(docker, {
+            containers: [createMockContainer('sick', labelled, { Status: 'Up 1 minute (unhealthy)' })] as any,
+        });
+
+        expect(manifest[0].state).toEqual({});
+    });
+});
+
+describe('Health-aware routing - dispatcher', () => {
+    beforeEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('registers active hosts and withdraws them when they become inactive', () => {
+        const addSpy = vi.spyOn(backendPlugin, 'addProxiedApp').mockResolvedValue(undefined);
+        const removeSpy = vi.spyOn(backendPlugin, 'removeProxiedApp').mockResolvedValue(undefined);
+        const hostDb = new HostDB();
+        attachHostDbToBackend(hostDb);
+
+        hostDb.upsert(createMockHostEntry({ containerName: 'app', state: { isActive: false } }));
+        expect(addSpy).not.toHaveBeenCalled();
+
+        hostDb.upsert(createMockHostEntry({ containerName: 'app', state: { isActive: true } }));
+        expect(addSpy).toHaveBeenCalledTimes(1);
+
+        hostDb.upsert(createMockHostEntry({ containerName: 'app', state: { isActive: false } }));
+        expect(removeSpy).toHaveBeenCalledWith('app');
+        expect(addSpy).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('Health-aware routing - provider', () => {
+    let testDir: string;
+    let socket: FakeDockerSocket;
+    let provider: DockerProvider | undefined;
+
+    beforeEach(async () => {
+        vi.spyOn(baseLogger, 'warn').mockImplementation(() => { });
+        vi.spyOn(baseLogger, 'error').mockImplementation(() => { });
+        testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'docker-health-'));
+        socket = new FakeDockerSocket(path.join(testDir, 'docker.sock'));
+        await socket.listen();
+    });
+
+    afterEach(async () => {
+        provider?.stop();
+        provider = undefined;
+        await socket.close();
+        await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    it('resyncs on health_status events', async () => {
+        const hostDb = new HostDB();
+        socket.containers = [createMockContainer('app', labelled, { Status: 'Up 1 minute (healthy)' })];
+        provider = new DockerProvider(hostDb, { healthAware: true, syncIntervalMs: 0 }, new Docker({ socketPath: socket.socketPath }));
+        await provider.start();
+        expect(hostDb.get('app')?.state).toEqual({ isActive: true });
+
+        socket.containers = [createMockContainer('app', labelled, { Status: 'Up 2 minutes (unhealthy)' })];
+        // Give the event stream a moment to connect before emitting
+        await vi.waitFor(() => {
+            socket.emitEvent({ Type: 'container', Action: 'health_status: unhealthy', Actor: { Attributes: { name: 'app' } } });
+            expect(hostDb.get('app')?.state).toEqual({ isActive: false });
+        });
+    });
+});
+
+describe('Health-aware routing - config validation', () => {
+    it('accepts a boolean healthAware', () => {
+        expect(validateConfig({ proxyBackend: 'traefik', docker: { healthAware: true }, podman: { healthAware: false } })).toBe(true);
+    });
+
+    it('rejects a non-boolean healthAware', () => {
+        expect(() => validateConfig({ proxyBackend: 'traefik', docker: { healthAware: 'yes' as any } }))
+            .toThrow('Invalid docker.healthAware in config file. Must be true or false');
+    });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import {
+    extractLabelConfig,
+    hasMagicProxyLabels,
+    buildContainerManifest,
+    groupContainersByComposeFile,
+    COMPOSE_CONFIG_LABEL,
+    COMPOSE_SERVICE_LABEL
+} from '../../../src/providers/docker';
+import { validateConfig } from '../../../src/config';
+import { baseLogger } from '../../../src/logging/logger';
+import { createMockContainer } from '../../helpers/mockHelpers';
+
+// Mock is-docker so compose file paths are read as-is instead of under /host
+vi.mock('is-docker', () => ({
+    default: () => false,
+}));
+
+const COMPOSE_FILE = `
+services:
+  web:
+    image: nginx
+    x-magic-proxy:
+      template: compose.yml
+      hostname: compose.example.com
+      target: http://web:80
+  plain:
+    image: nginx
+`;
+
+describe('Docker Labels - extractLabelConfig', () => {
+    beforeEach(() => {
+        vi.spyOn(baseLogger, 'warn').mockImplementation(() => { });
+    });
+
+    it('returns undefined without magic-proxy labels', () => {
+        expect(extractLabelConfig({ 'com.example': 'x' }, 'app')).toBeUndefined();
+        expect(extractLabelConfig(undefined, 'app')).toBeUndefined();
+    });
+
+    it('reads core fields and userData', () => {
+        const config = extractLabelConfig({
+            'magic-proxy.template': 'example.yml',
+            'magic-proxy.hostname': 'app.example.com',
+            'magic-proxy.target': 'http://app:8080',
+            'magic-proxy.userData.oidc_group': 'admins',
+        }, 'app');
+
+        expect(config).toEqual({
+            template: 'example.yml',
+            hostname: 'app.example.com',
+            target: 'http://app:8080',
+            userData: { oidc_group: 'admins' },
+        });
+    });
+
+    it('splits comma-separated hostnames and templates into lists', () => {
+        const config = extractLabelConfig({
+            'magic-proxy.template': 'a.yml, b.yml',
+            'magic-proxy.hostname': 'example.com,www.example.com',
+        }, 'app');
+
+        expect(config?.template).toEqual(['a.yml', 'b.yml']);
+        expect(config?.hostname).toEqual(['example.com', 'www.example.com']);
+    });
+
+    it('reads named routes', () => {
+        const config = extractLabelConfig({
+            'magic-proxy.routes.admin.hostname': 'admin.example.com',
+            'magic-proxy.routes.admin.target': 'http://app:9000',
+        }, 'app');
+
+        expect(config?.routes).toEqual({ admin: { hostname: 'admin.example.com', target: 'http://app:9000' } });
+    });
+
+    it('warns about unknown labels', () => {
+        extractLabelConfig({ 'magic-proxy.hostnme': 'typo.example.com' }, 'app');
+
+        expect(baseLogger.warn).toHaveBeenCalledWith(
+            'Ignoring unknown magic-proxy label',
+            expect.objectContaining({ data: { containerName: 'app', label: 'magic-proxy.hostnme' } })
+        );
+    });
+
+    it('detects magic-proxy labels', () => {
+        expect(hasMagicProxyLabels({ 'magic-proxy.target': 'http://x' })).toBe(true);
+        expect(hasMagicProxyLabels({ 'traefik.enable': 'true' })).toBe(false);
+    });
+});
+
+describe('Docker Labels - buildContainerManifest', () => {
+    let testDir: string;
+    let composePath: string;
+
+    const labelled = {
+        'magic-proxy.template': 'labels.yml',
+        'magic-proxy.hostname': 'labels.example.com',
+        'magic-proxy.target': 'http://web:80',
+    };
+
+    function mockDocker(containers: unknown[]) {
+        return { listContainers: vi.fn().mockResolvedValue(containers) } as any;
+    }
+
+    function composeContainer(name: string, service: string, labels: Record<string, string> = {}) {
+        return createMockContainer(name, { [COMPOSE_CONFIG_LABEL]: composePath, [COMPOSE_SERVICE_LABEL]: service, ...labels });
+    }
+
+    beforeEach(async () => {
+        vi.spyOn(baseLogger, 'warn').mockImplementation(() => { });
+        vi.spyOn(baseLogger, 'error').mockImplementation(() => { });
+        testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'docker-labels-'));
+        composePath = path.join(testDir, 'docker-compose.yml');
+        await fs.writeFile(composePath, COMPOSE_FILE, 'utf-8');
+    });
+
+    afterEach(async () => {
+        await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    it('includes plain docker run containers configured through labels', async () => {
+        const { manifest, results } = await buildContainerManifest(mockDocker([createMockContainer('standalone', labelled)]));
+
+        expect(manifest).toHaveLength(1);
+        expect(manifest[0]).toMatchObject({
+            containerName: 'standalone',
+            composeFilePath: '',
+            composeData: {},
+            xMagicProxy: { hostname: 'labels.example.com' },
+        });
+        expect(results['(labels)']).toEqual({ standalone: 'ok' });
+    });
+
+    it('falls back to labels only when the compose service has no x-magic-proxy', async () => {
+        const { manifest } = await buildContainerManifest(mockDocker([
+            composeContainer('web', 'web', labelled),
+            composeContainer('plain', 'plain', labelled),
+        ]));
+
+        const byName = Object.fromEntries(manifest.map(e => [e.containerName, e.xMagicProxy.hostname]));
+        expect(byName).toEqual({ web: 'compose.example.com', plain: 'labels.example.com' });
+    });
+
+    it('prefers labels over the compose file in prefer mode', async () => {
+        const { manifest } = await buildContainerManifest(mockDocker([composeContainer('web', 'web', labelled)]), { labels: 'prefer' });
+
+        expect(manifest[0].xMagicProxy.hostname).toBe('labels.example.com');
+        expect(manifest[0].composeFilePath).toBe(composePath);
+    });
+
+    it('ignores labels in ignore mode', async () => {
+        const { manifest } = await buildContainerManifest(mockDocker([
+            composeContainer('plain', 'plain', labelled),
+            createMockContainer('standalone', labelled),
+        ]), { labels: 'ignore' });
+
+        expect(manifest).toEqual([]);
+    });
+
+    it('skips containers whose labels are incomplete', async () => {
+        const { manifest, results } = await buildContainerManifest(mockDocker([
+            createMockContainer('partial', { 'magic-proxy.hostname': 'partial.example.com' }),
+        ]));
+
+        expect(manifest).toEqual([]);
+        expect(results['(labels)']).toEqual({ partial: 'Invalid x-magic-proxy configuration' });
+    });
+
+    it('returns an empty manifest when Docker cannot be reached', async () => {
+        const docker = { listContainers: vi.fn().mockRejectedValue(new Error('connect ENOENT')) } as any;
+
+        expect(await buildContainerManifest(docker)).toEqual({ manifest: [], results: {}, dependencies: {} });
+    });
+});
+
+describe('Docker Labels - orphan warning', () => {
+    beforeEach(() => {
+        vi.restoreAllMocks();
+        vi.spyOn(baseLogger, 'warn').mockImplementation(() => { });
+    });
+
+    it('does not warn about containers configured through labels', () => {
+        groupContainersByComposeFile([
+            createMockContainer('standalone', { 'magic-proxy.target': 'http://x' }),
+        ] as any);
+
+        expect(baseLogger.warn).not.toHaveBeenCalled();
+    });
+});
+
+describe('Docker Labels - config validation', () => {
+    it('accepts known label modes', () => {
+        expect(validateConfig({ proxyBackend: 'traefik', docker: { labels: 'prefer' } })).toBe(true);
+    });
+
+    it('rejects unknown label modes', () => {
+        expect(() => validateConfig({ proxyBackend: 'traefik', docker: { labels: 'always' as any } }))
+            .toThrow('Invalid docker.labels in config file. Must be one of: fallback, prefer, ignore');
+    });
+});
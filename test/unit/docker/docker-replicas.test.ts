@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import Docker from 'dockerode';
+import {
+    buildContainerManifest,
+    groupReplicas,
+    COMPOSE_CONFIG_LABEL,
+    COMPOSE_CONTAINER_NUMBER_LABEL,
+    COMPOSE_PROJECT_LABEL,
+    COMPOSE_SERVICE_LABEL
+} from '../../../src/providers/docker';
+import { getUpstreams } from '../../../src/backends/upstreams';
+import { loadTemplates } from '../../../src/backends/templateLoader';
+import { renderTemplateParsed } from '../../../src/backends/traefik/templateParser';
+import { HostDB } from '../../../src/hostDb';
+import { createMockContainer, createMockHostEntry, createMockXMagicProxyData } from '../../helpers/mockHelpers';
+
+// Mock is-docker so compose file paths are read as-is instead of under /host
+vi.mock('is-docker', () => ({
+    default: () => false,
+}));
+
+const COMPOSE_FILE = `
+services:
+  web:
+    image: nginx
+    x-magic-proxy:
+      template: example.yml
+      hostname: web.example.com
+      target: http://{{container}}:80
+  db:
+    image: postgres
+    x-magic-proxy:
+      template: example.yml
+      hostname: db.example.com
+      target: http://db:5432
+`;
+
+function replicaLabels(service: string, number: number, configFiles = '/srv/compose.yml') {
+    return {
+        [COMPOSE_CONFIG_LABEL]: configFiles,
+        [COMPOSE_PROJECT_LABEL]: 'demo',
+        [COMPOSE_SERVICE_LABEL]: service,
+        [COMPOSE_CONTAINER_NUMBER_LABEL]: String(number),
+    };
+}
+
+function replicaEntry(name: string, target: string, isActive?: boolean) {
+    return createMockHostEntry({
+        containerName: name,
+        xMagicProxy: createMockXMagicProxyData({ hostname: 'web.example.com', target }),
+        state: isActive === undefined ? {} : { isActive },
+    });
+}
+
+describe('Scaled services - groupReplicas', () => {
+    it('groups the replicas of a service into one entry, ordered by container number', () => {
+        const grouped = groupReplicas([
+            { container: createMockContainer('demo-web-2', replicaLabels('web', 2)), entry: replicaEntry('demo-web-2', 'http://demo-web-2:80') },
+            { container: createMockContainer('demo-web-1', replicaLabels('web', 1)), entry: replicaEntry('demo-web-1', 'http://demo-web-1:80') },
+            { container: createMockContainer('demo-db-1', replicaLabels('db', 1)), entry: replicaEntry('demo-db-1', 'http://db:5432') },
+        ], {});
+
+        expect(grouped.map(entry => entry.containerName)).toEqual(['demo-web', 'demo-db-1']);
+        expect(grouped[0].xMagicProxy.target).toBe('http://demo-web-1:80');
+        expect(grouped[0].replicas).toEqual([
+            { containerName: 'demo-web-1', target: 'http://demo-web-1:80' },
+            { containerName: 'demo-web-2', target: 'http://demo-web-2:80' },
+        ]);
+        expect(grouped[1].replicas).toBeUndefined();
+    });
+
+    it('groups a single running replica of a service declared with deploy.replicas', () => {
+        const grouped = groupReplicas(
+            [{ container: createMockContainer('demo-web-1', replicaLabels('web', 1)), entry: replicaEntry('demo-web-1', 'http://demo-web-1:80') }],
+            { services: { web: { deploy: { replicas: 3 } } } }
+        );
+
+        expect(grouped[0].containerName).toBe('demo-web');
+        expect(grouped[0].replicas).toHaveLength(1);
+    });
+
+    it('is active while any replica is, when health-aware', () => {
+        const members = (active: boolean[]) => active.map((isActive, index) => ({
+            container: createMockContainer(`demo-web-${index + 1}`, replicaLabels('web', index + 1)),
+            entry: replicaEntry(`demo-web-${index + 1}`, `http://demo-web-${index + 1}:80`, isActive),
+        }));
+
+        expect(groupReplicas(members([false, true]), {}, true)[0].state).toEqual({ isActive: true });
+        expect(groupReplicas(members([false, false]), {}, true)[0].state).toEqual({ isActive: false });
+    });
+});
+
+describe('Scaled services - getUpstreams', () => {
+    it('uses the target of entries without replicas', () => {
+        expect(getUpstreams(replicaEntry('web', 'http://web:80'))).toEqual(['http://web:80']);
+    });
+
+    it('lists each distinct replica target, leaving out inactive replicas', () => {
+        const entry = createMockHostEntry({
+            replicas: [
+                { containerName: 'a', target: 'http://a:80', isActive: true },
+                { containerName: 'b', target: 'http://b:80', isActive: false },
+                { containerName: 'c', target: 'http://c:80' },
+                { containerName: 'd', target: 'http://c:80' },
+            ],
+        });
+
+        expect(getUpstreams(entry)).toEqual(['http://a:80', 'http://c:80']);
+    });
+});
+
+describe('Scaled services - manifest', () => {
+    let testDir: string;
+    let composePath: string;
+    const docker = {
+        getContainer: () => ({ inspect: async () => ({ NetworkSettings: { Networks: {} }, Config: {} }) }),
+    } as unknown as Docker;
+
+    beforeEach(async () => {
+        testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'compose-replicas-'));
+        composePath = path.join(testDir, 'compose.yml');
+        await fs.writeFile(composePath, COMPOSE_FILE, 'utf-8');
+    });
+
+    afterEach(async () => {
+        await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    it('registers a scaled service once with every replica as an upstream', async () => {
+        const { manifest, results } = await buildContainerManifest(docker, {
+            containers: [
+                createMockContainer('demo-web-1', replicaLabels('web', 1, composePath)),
+                createMockContainer('demo-web-2', replicaLabels('web', 2, composePath)),
+                createMockContainer('demo-web-3', replicaLabels('web', 3, composePath)),
+                createMockContainer('demo-db-1', replicaLabels('db', 1, composePath)),
+            ],
+        });
+
+        expect(manifest.map(entry => entry.containerName)).toEqual(['demo-web', 'demo-db-1']);
+        expect(getUpstreams(manifest[0])).toEqual(['http://demo-web-1:80', 'http://demo-web-2:80', 'http://demo-web-3:80']);
+        expect(results[composePath]).toMatchObject({ 'demo-web-1': 'ok', 'demo-web-2': 'ok', 'demo-web-3': 'ok' });
+    });
+
+    it('updates the entry when the service is scaled', async () => {
+        const hostDb = new HostDB();
+        const onUpdate = vi.fn();
+        hostDb.on('updated', onUpdate);
+        const sync = async (count: number) => {
+            const containers = Array.from({ length: count }, (_, index) => createMockContainer(`demo-web-${index + 1}`, replicaLabels('web', index + 1, composePath)));
+            const { manifest } = await buildContainerManifest(docker, { containers });
+            manifest.forEach(entry => hostDb.upsert(entry));
+        };
+
+        await sync(2);
+        await sync(3);
+
+        expect(onUpdate).toHaveBeenCalledTimes(1);
+        expect(hostDb.get('demo-web')?.replicas).toHaveLength(3);
+    });
+});
+
+describe('Scaled services - templates', () => {
+    it('renders one Traefik service with a server per replica', async () => {
+        const templates = await loadTemplates([path.resolve('config/template/example.yml')]);
+        const data = createMockXMagicProxyData({ hostname: 'web.example.com', target: 'http://demo-web-1:80' });
+        const targets = ['http://demo-web-1:80', 'http://demo-web-2:80'];
+
+        const { parsed } = renderTemplateParsed<any>(templates.get('example.yml')!, 'demo-web', data, 'builtin', targets);
+
+        expect(Object.keys(parsed.http.routers)).toEqual(['magic-proxy-demo-web']);
+        expect(parsed.http.services['magic-proxy-demo-web'].loadBalancer.servers).toEqual([
+            { url: 'http://demo-web-1:80' },
+            { url: 'http://demo-web-2:80' },
+        ]);
+    });
+
+    it('exposes the targets as target_urls', () => {
+        const data = createMockXMagicProxyData({ hostname: 'web.example.com', target: 'http://a:80' });
+        const rendered = renderTemplateParsed<any>('urls: {{ target_urls | json }}\nfirst: "{{ target_url }}"', 'web', data, 'builtin', ['http://a:80', 'http://b:80']);
+
+        expect(rendered.parsed).toEqual({ urls: ['http://a:80', 'http://b:80'], first: 'http://a:80' });
+    });
+});
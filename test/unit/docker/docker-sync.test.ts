@@ -0,0 +1,373 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { ComposeFileCache, COMPOSE_CONFIG_LABEL, COMPOSE_SERVICE_LABEL, DockerProvider } from '../../../src/providers/docker';
+import { HostDB } from '../../../src/hostDb';
+import { validateConfig } from '../../../src/config';
+import { apiMessageBroker } from '../../../src/apiMessageBroker';
+import { baseLogger } from '../../../src/logging/logger';
+import { createMockContainer } from '../../helpers/mockHelpers';
+
+// Mock is-docker so compose file paths are read as-is instead of under /host
+vi.mock('is-docker', () => ({
+    default: () => false,
+}));
+
+function labelled(name: string) {
+    return {
+        Id: `${name}-id`,
+        Names: [`/${name}`],
+        Labels: {
+            'magic-proxy.template': 'example.yml',
+            'magic-proxy.hostname': `${name}.example.com`,
+            'magic-proxy.target': 'http://{{container}}:80',
+        },
+        State: 'running',
+        Status: 'Up 1 minute',
+    };
+}
+
+/**
+ * A Docker client whose containers can be changed between syncs. Targets use
+ * {{container}}, so each rebuilt container is inspected once.
+ */
+function createDocker(containers: ReturnType<typeof labelled>[]) {
+    const stream = Object.assign(new EventEmitter(), { destroy: vi.fn() });
+    const docker = {
+        containers,
+        listContainers: vi.fn(async () => docker.containers),
+        getEvents: vi.fn((callback: (err: unknown, stream: unknown) => void) => callback(null, stream)),
+        getContainer: vi.fn(() => ({ inspect: async () => ({ NetworkSettings: { Networks: {} }, Config: {} }) })),
+    };
+    const emit = (Action: string, id?: string) =>
+        stream.emit('data', Buffer.from(JSON.stringify({ Type: 'container', Action, id })));
+    return { docker, emit, stream };
+}
+
+describe('Docker sync - scheduling', () => {
+    let provider: DockerProvider | undefined;
+
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+    });
+
+    afterEach(() => {
+        provider?.stop();
+        provider = undefined;
+        vi.useRealTimers();
+    });
+
+    it('coalesces events into at most one sync per interval', async () => {
+        const { docker, emit } = createDocker([labelled('a')]);
+        provider = new DockerProvider(new HostDB(), { syncIntervalMs: 500 }, docker as any);
+        await provider.start();
+        expect(docker.listContainers).toHaveBeenCalledTimes(1);
+
+        for (let i = 0; i < 10; i++) {
+            emit('start', `container-${i}`);
+            await vi.advanceTimersByTimeAsync(20);
+        }
+        expect(docker.listContainers).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(500);
+        expect(docker.listContainers).toHaveBeenCalledTimes(2);
+    });
+
+    it('syncs immediately once the interval has passed', async () => {
+        const { docker, emit } = createDocker([labelled('a')]);
+        provider = new DockerProvider(new HostDB(), { syncIntervalMs: 500 }, docker as any);
+        await provider.start();
+        await vi.advanceTimersByTimeAsync(1000);
+
+        emit('start', 'a-id');
+        await vi.advanceTimersByTimeAsync(0);
+        expect(docker.listContainers).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not sync after stopping', async () => {
+        const { docker, emit } = createDocker([labelled('a')]);
+        provider = new DockerProvider(new HostDB(), { syncIntervalMs: 500 }, docker as any);
+        await provider.start();
+
+        emit('start', 'a-id');
+        provider.stop();
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(docker.listContainers).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('Docker sync - incremental', () => {
+    let provider: DockerProvider | undefined;
+
+    afterEach(() => {
+        provider?.stop();
+        provider = undefined;
+    });
+
+    const inspected = (docker: ReturnType<typeof createDocker>['docker']) =>
+        docker.getContainer.mock.calls.map(call => (call as unknown[])[0]);
+
+    it('only rebuilds the containers named by events', async () => {
+        const hostDb = new HostDB();
+        const { docker, emit } = createDocker([labelled('a'), labelled('b')]);
+        provider = new DockerProvider(hostDb, { syncIntervalMs: 0 }, docker as any);
+        await provider.start();
+        expect(inspected(docker)).toEqual(['a-id', 'b-id']);
+
+        docker.getContainer.mockClear();
+        emit('die', 'b-id');
+        await vi.waitFor(() => expect(docker.listContainers).toHaveBeenCalledTimes(2));
+
+        expect(inspected(docker)).toEqual(['b-id']);
+        expect(hostDb.get('a')).toBeDefined();
+        expect(hostDb.get('b')).toBeDefined();
+    });
+
+    it('drops the entries of containers that are gone and builds new ones', async () => {
+        const hostDb = new HostDB();
+        const { docker, emit } = createDocker([labelled('a'), labelled('b')]);
+        provider = new DockerProvider(hostDb, { syncIntervalMs: 0 }, docker as any);
+        await provider.start();
+
+        docker.getContainer.mockClear();
+        docker.containers = [labelled('a'), labelled('c')];
+        emit('destroy', 'b-id');
+        await vi.waitFor(() => expect(hostDb.get('b')).toBeUndefined());
+
+        expect(inspected(docker)).toEqual(['c-id']);
+        expect(hostDb.get('a')).toBeDefined();
+        expect(hostDb.get('c')).toBeDefined();
+    });
+
+    it('rebuilds everything for events without a container ID', async () => {
+        const { docker, emit } = createDocker([labelled('a'), labelled('b')]);
+        provider = new DockerProvider(new HostDB(), { syncIntervalMs: 0 }, docker as any);
+        await provider.start();
+
+        docker.getContainer.mockClear();
+        emit('die');
+        await vi.waitFor(() => expect(inspected(docker)).toEqual(['a-id', 'b-id']));
+    });
+});
+
+describe('Docker sync - reconciliation', () => {
+    let provider: DockerProvider | undefined;
+
+    beforeEach(() => {
+        vi.restoreAllMocks();
+        vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'Date'] });
+    });
+
+    afterEach(() => {
+        provider?.stop();
+        provider = undefined;
+        vi.useRealTimers();
+    });
+
+    it('resyncs periodically and reports the drift it corrected', async () => {
+        const warnSpy = vi.spyOn(baseLogger, 'warn').mockImplementation(() => baseLogger);
+        const hostDb = new HostDB();
+        const { docker } = createDocker([labelled('a'), labelled('b')]);
+        provider = new DockerProvider(hostDb, { syncIntervalMs: 0, reconcileIntervalMs: 1000 }, docker as any);
+        await provider.start();
+
+        // Changes without events, as if they were missed
+        docker.containers = [labelled('a'), labelled('c')];
+        await vi.advanceTimersByTimeAsync(1000);
+        await vi.waitFor(() => expect(hostDb.get('b')).toBeUndefined());
+
+        expect(hostDb.get('c')).toBeDefined();
+        expect(warnSpy).toHaveBeenCalledWith('Reconciliation corrected drift', expect.objectContaining({
+            data: { provider: 'docker', reason: 'interval', added: 1, updated: 0, removed: 1 }
+        }));
+        expect(apiMessageBroker.getField('reconciliation-docker')).toMatchObject({
+            provider: 'docker',
+            reason: 'interval',
+            added: 1,
+            updated: 0,
+            removed: 1,
+            totalCorrected: { added: 1, updated: 0, removed: 1 },
+        });
+
+        await vi.advanceTimersByTimeAsync(1000);
+        await vi.waitFor(() => expect(docker.listContainers).toHaveBeenCalledTimes(3));
+        expect(apiMessageBroker.getField('reconciliation-docker')).toMatchObject({
+            added: 0,
+            removed: 0,
+            totalCorrected: { added: 1, updated: 0, removed: 1 },
+        });
+    });
+
+    it('does not count changes that events asked for as drift', async () => {
+        const warnSpy = vi.spyOn(baseLogger, 'warn').mockImplementation(() => baseLogger);
+        const hostDb = new HostDB();
+        const { docker, emit } = createDocker([labelled('a')]);
+        provider = new DockerProvider(hostDb, { syncIntervalMs: 2000, reconcileIntervalMs: 1000 }, docker as any);
+        await provider.start();
+
+        // The event's sync and the reconciliation fall in the same interval
+        docker.containers = [labelled('a'), labelled('b')];
+        await vi.advanceTimersByTimeAsync(500);
+        emit('start', 'b-id');
+        await vi.advanceTimersByTimeAsync(2000);
+        await vi.waitFor(() => {
+            expect(docker.listContainers).toHaveBeenCalledTimes(3);
+            expect(apiMessageBroker.getField('reconciliation-docker')).toMatchObject({ reason: 'interval', added: 0 });
+        });
+
+        expect(hostDb.get('b')).toBeDefined();
+        expect(warnSpy).not.toHaveBeenCalledWith('Reconciliation corrected drift', expect.anything());
+    });
+
+    it('resyncs fully after the event stream reconnects', async () => {
+        vi.spyOn(baseLogger, 'warn').mockImplementation(() => baseLogger);
+        const hostDb = new HostDB();
+        const { docker, stream } = createDocker([labelled('a')]);
+        provider = new DockerProvider(hostDb, { syncIntervalMs: 0, reconcileIntervalMs: 0 }, docker as any);
+        await provider.start();
+
+        stream.emit('end');
+        docker.containers = [];
+        await vi.advanceTimersByTimeAsync(5000);
+        await vi.waitFor(() => expect(hostDb.get('a')).toBeUndefined());
+
+        expect(docker.getEvents).toHaveBeenCalledTimes(2);
+        expect(apiMessageBroker.getField('reconciliation-docker')).toMatchObject({ reason: 'reconnect', removed: 1 });
+    });
+
+    it('publishes under a field name derived from the engine', async () => {
+        const { docker } = createDocker([labelled('a')]);
+        provider = new DockerProvider(new HostDB(), {
+            syncIntervalMs: 0,
+            reconcileIntervalMs: 1000,
+            engine: { name: 'nas', host: 'tcp://nas.lan:2375' }
+        }, docker as any);
+        await provider.start();
+        await vi.advanceTimersByTimeAsync(1000);
+
+        await vi.waitFor(() =>
+            expect(apiMessageBroker.getField('reconciliation-docker-nas')).toMatchObject({ provider: 'docker:nas', added: 0 })
+        );
+    });
+
+    it('can be disabled', async () => {
+        const { docker } = createDocker([labelled('a')]);
+        provider = new DockerProvider(new HostDB(), { reconcileIntervalMs: 0 }, docker as any);
+        await provider.start();
+        await vi.advanceTimersByTimeAsync(60 * 60 * 1000);
+
+        expect(docker.listContainers).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('Docker sync - ComposeFileCache', () => {
+    let testDir: string;
+    let file: string;
+
+    beforeEach(async () => {
+        testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'compose-cache-'));
+        file = path.join(testDir, 'compose.yml');
+        await fs.writeFile(file, 'one', 'utf-8');
+    });
+
+    afterEach(async () => {
+        await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    it('parses a file once while it is unchanged', async () => {
+        const cache = new ComposeFileCache();
+        const parse = vi.fn((content: string) => ({ content }));
+
+        expect(await cache.read(file, parse)).toEqual({ content: 'one' });
+        expect(await cache.read(file, parse)).toEqual({ content: 'one' });
+        expect(parse).toHaveBeenCalledTimes(1);
+    });
+
+    it('re-parses a file whose content changed', async () => {
+        const cache = new ComposeFileCache();
+        const parse = vi.fn((content: string) => ({ content }));
+        await cache.read(file, parse);
+
+        await fs.writeFile(file, 'two!', 'utf-8');
+        expect(await cache.read(file, parse)).toEqual({ content: 'two!' });
+        expect(parse).toHaveBeenCalledTimes(2);
+    });
+
+    it('checks the content of invalidated files without re-parsing identical content', async () => {
+        const cache = new ComposeFileCache();
+        const parse = vi.fn((content: string) => ({ content }));
+        await cache.read(file, parse);
+
+        cache.invalidate(file);
+        await cache.read(file, parse);
+        expect(parse).toHaveBeenCalledTimes(1);
+
+        // Same size and, on coarse filesystems, possibly the same mtime
+        await fs.writeFile(file, 'two', 'utf-8');
+        cache.invalidate(file);
+        expect(await cache.read(file, parse)).toEqual({ content: 'two' });
+    });
+
+    it('forgets files that are not kept when pruned', async () => {
+        const cache = new ComposeFileCache();
+        const parse = vi.fn((content: string) => ({ content }));
+        await cache.read(file, parse);
+
+        cache.prune(new Set([file]));
+        await cache.read(file, parse);
+        expect(parse).toHaveBeenCalledTimes(1);
+
+        cache.prune(new Set());
+        await cache.read(file, parse);
+        expect(parse).toHaveBeenCalledTimes(2);
+    });
+
+    it('is pruned to the files of current projects after a full sync', async () => {
+        await fs.writeFile(file, 'services:\n  web:\n    image: nginx\n', 'utf-8');
+        const prune = vi.spyOn(ComposeFileCache.prototype, 'prune');
+        const { docker, emit } = createDocker([
+            createMockContainer('web', { [COMPOSE_CONFIG_LABEL]: file, [COMPOSE_SERVICE_LABEL]: 'web' }) as any,
+        ]);
+        const provider = new DockerProvider(new HostDB(), { syncIntervalMs: 0, reconcileIntervalMs: 0 }, docker as any);
+        await provider.start();
+        expect(prune).toHaveBeenLastCalledWith(new Set([file]));
+
+        docker.containers = [];
+        emit('die');
+        await vi.waitFor(() => expect(prune).toHaveBeenLastCalledWith(new Set()));
+        provider.stop();
+        prune.mockRestore();
+    });
+
+    it('returns copies that callers may modify', async () => {
+        const cache = new ComposeFileCache();
+        const parse = (content: string) => ({ content });
+
+        const first = await cache.read(file, parse);
+        first.content = 'modified';
+        expect(await cache.read(file, parse)).toEqual({ content: 'one' });
+    });
+
+    it('throws for missing files', async () => {
+        const cache = new ComposeFileCache();
+        await expect(cache.read(path.join(testDir, 'missing.yml'), content => content)).rejects.toMatchObject({ code: 'ENOENT' });
+    });
+});
+
+describe('Docker sync - config validation', () => {
+    it('accepts non-negative sync and reconcile intervals', () => {
+        expect(validateConfig({ proxyBackend: 'traefik', docker: { syncIntervalMs: 0 }, podman: { syncIntervalMs: 250 } })).toBe(true);
+        expect(validateConfig({ proxyBackend: 'traefik', docker: { reconcileIntervalMs: 0 }, swarm: { reconcileIntervalMs: 60000 } })).toBe(true);
+    });
+
+    it('rejects invalid sync and reconcile intervals', () => {
+        expect(() => validateConfig({ proxyBackend: 'traefik', docker: { syncIntervalMs: -1 } }))
+            .toThrow('Invalid docker.syncIntervalMs in config file. Must be a non-negative number');
+        expect(() => validateConfig({ proxyBackend: 'traefik', swarm: { syncIntervalMs: '1s' as any } }))
+            .toThrow('Invalid swarm.syncIntervalMs in config file. Must be a non-negative number');
+        expect(() => validateConfig({ proxyBackend: 'traefik', podman: { reconcileIntervalMs: Infinity } }))
+            .toThrow('Invalid podman.reconcileIntervalMs in config file. Must be a non-negative number');
+    });
+});
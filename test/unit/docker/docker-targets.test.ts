@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { buildContainerManifest, needsTargetResolution } from '../../../src/providers/docker';
+import { validateConfig } from '../../../src/config';
+import { baseLogger } from '../../../src/logging/logger';
+import { createMockContainer } from '../../helpers/mockHelpers';
+
+function inspectInfo(networks: Record<string, string>, ports: string[]) {
+    return {
+        Config: { ExposedPorts: Object.fromEntries(ports.map(port => [port, {}])) },
+        NetworkSettings: {
+            Networks: Object.fromEntries(Object.entries(networks).map(([name, ip]) => [name, { IPAddress: ip, Aliases: [] }])),
+        },
+    };
+}
+
+function mockDocker(inspected: Record<string, unknown>) {
+    return {
+        listContainers: vi.fn(),
+        getContainer: vi.fn((id: string) => ({
+            inspect: vi.fn(async () => {
+                if (!inspected[id]) throw new Error(`No such container: ${id}`);
+                return inspected[id];
+            }),
+        })),
+    } as any;
+}
+
+const base = {
+    'magic-proxy.template': 'example.yml',
+    'magic-proxy.hostname': 'app.example.com',
+};
+
+describe('Target resolution - needsTargetResolution', () => {
+    it('detects omitted and templated targets', () => {
+        expect(needsTargetResolution({ hostname: 'a.example.com' })).toBe(true);
+        expect(needsTargetResolution({ target: 'http://{{ container }}:{{port}}' })).toBe(true);
+        expect(needsTargetResolution({ target: 'http://app:80', routes: { admin: { hostname: 'x', target: 'http://{{ip}}:9000' } } })).toBe(true);
+        expect(needsTargetResolution({ target: 'http://app:80' })).toBe(false);
+    });
+});
+
+describe('Target resolution - buildContainerManifest', () => {
+    beforeEach(() => {
+        vi.restoreAllMocks();
+        vi.spyOn(baseLogger, 'warn').mockImplementation(() => { });
+    });
+
+    it('defaults an omitted target to the container IP and its single exposed port', async () => {
+        const docker = mockDocker({ app: inspectInfo({ web: '172.18.0.5' }, ['8000/tcp']) });
+
+        const { manifest } = await buildContainerManifest(docker, { containers: [createMockContainer('app', base)] });
+
+        expect(manifest[0].xMagicProxy.target).toBe('http://172.18.0.5:8000');
+    });
+
+    it('fills in templated targets and route targets', async () => {
+        const docker = mockDocker({ app: inspectInfo({ web: '172.18.0.5' }, ['8000/tcp', '53/udp']) });
+
+        const { manifest } = await buildContainerManifest(docker, {
+            containers: [createMockContainer('app', {
+                ...base,
+                'magic-proxy.target': 'http://{{container}}:{{port}}',
+                'magic-proxy.routes.admin.hostname': 'admin.example.com',
+                'magic-proxy.routes.admin.target': 'http://{{ ip }}:9000',
+            })],
+        });
+
+        expect(manifest[0].xMagicProxy.target).toBe('http://app:8000');
+        expect(manifest[0].xMagicProxy.routes?.admin.target).toBe('http://172.18.0.5:9000');
+    });
+
+    it('does not inspect containers with explicit targets', async () => {
+        const docker = mockDocker({});
+
+        const { manifest } = await buildContainerManifest(docker, {
+            containers: [createMockContainer('app', { ...base, 'magic-proxy.target': 'http://app:80' })],
+        });
+
+        expect(manifest).toHaveLength(1);
+        expect(docker.getContainer).not.toHaveBeenCalled();
+    });
+
+    it('skips containers whose port is ambiguous', async () => {
+        const docker = mockDocker({ app: inspectInfo({ web: '172.18.0.5' }, ['80/tcp', '443/tcp']) });
+
+        const { manifest, results } = await buildContainerManifest(docker, { containers: [createMockContainer('app', base)] });
+
+        expect(manifest).toEqual([]);
+        expect(results['(labels)'].app).toBe('Cannot resolve target: Container exposes several ports (80, 443); set the port in target');
+    });
+
+    it('requires a network choice when the container is on several networks', async () => {
+        const docker = mockDocker({ app: inspectInfo({ web: '172.18.0.5', db: '172.19.0.5' }, ['8000/tcp']) });
+
+        const { results } = await buildContainerManifest(docker, { containers: [createMockContainer('app', base)] });
+        expect(results['(labels)'].app).toBe(
+            'Cannot resolve target: Container is on several networks (web, db); set docker.network or docker.proxyContainer'
+        );
+
+        const { manifest } = await buildContainerManifest(docker, { containers: [createMockContainer('app', base)], network: 'db' });
+        expect(manifest[0].xMagicProxy.target).toBe('http://172.19.0.5:8000');
+    });
+
+    it('uses the network shared with the proxy container', async () => {
+        const docker = mockDocker({
+            traefik: inspectInfo({ bridge: '172.17.0.2', proxy: '172.20.0.2' }, []),
+            app: inspectInfo({ db: '172.19.0.5', proxy: '172.20.0.5' }, ['8000/tcp']),
+            lonely: inspectInfo({ db: '172.19.0.6' }, ['8000/tcp']),
+        });
+
+        const { manifest, results } = await buildContainerManifest(docker, {
+            containers: [createMockContainer('app', base), createMockContainer('lonely', base)],
+            proxyContainer: 'traefik',
+        });
+
+        expect(manifest.map(e => e.xMagicProxy.target)).toEqual(['http://172.20.0.5:8000']);
+        expect(results['(labels)'].lonely).toBe("Cannot resolve target: Container shares no network with proxy container 'traefik'");
+        expect(docker.getContainer.mock.calls.filter(([id]: [string]) => id === 'traefik')).toHaveLength(1);
+    });
+});
+
+describe('Target resolution - config validation', () => {
+    it('accepts network and proxyContainer', () => {
+        expect(validateConfig({ proxyBackend: 'traefik', docker: { network: 'proxy', proxyContainer: 'traefik' } })).toBe(true);
+    });
+
+    it('rejects non-string values', () => {
+        expect(() => validateConfig({ proxyBackend: 'traefik', docker: { network: 1 as any } }))
+            .toThrow('Invalid docker.network in config file. Must be a string');
+    });
+});
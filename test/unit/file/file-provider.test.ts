@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { FileProvider, loadHostFile, loadHostDefinitions } from '../../../src/providers/file';
+import { HostDB } from '../../../src/hostDb';
+import { baseLogger } from '../../../src/logging/logger';
+import { createMockHostEntry } from '../../helpers/mockHelpers';
+
+const HOSTS_YAML = `
+hosts:
+  nas:
+    template: example.yml
+    hostname: nas.example.org
+    target: http://192.168.1.20:5000
+  printer:
+    template: example.yml
+    hostname: printer.example.org
+    target: http://192.168.1.30
+`;
+
+describe('File Provider - loading host files', () => {
+    let testDir: string;
+
+    beforeEach(async () => {
+        vi.spyOn(baseLogger, 'warn').mockImplementation(() => { });
+        testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-provider-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    it('reads hosts from a YAML file', async () => {
+        const file = path.join(testDir, 'hosts.yml');
+        await fs.writeFile(file, HOSTS_YAML, 'utf-8');
+
+        const entries = await loadHostFile(file);
+
+        expect(entries.map(e => e.containerName)).toEqual(['nas', 'printer']);
+        expect(entries[0]).toMatchObject({
+            xMagicProxy: { hostname: 'nas.example.org', target: 'http://192.168.1.20:5000' },
+            source: { provider: 'file', path: file },
+        });
+        expect(entries[0].composeFilePath).toBeUndefined();
+    });
+
+    it('reads hosts from a JSON file', async () => {
+        const file = path.join(testDir, 'hosts.json');
+        await fs.writeFile(file, JSON.stringify({
+            hosts: { vm: { template: 'example.yml', hostname: 'vm.example.org', target: 'https://10.0.0.5:8443' } },
+        }), 'utf-8');
+
+        const entries = await loadHostFile(file);
+        expect(entries[0].xMagicProxy.target).toBe('https://10.0.0.5:8443');
+    });
+
+    it('skips invalid host definitions and names', async () => {
+        const file = path.join(testDir, 'hosts.yml');
+        await fs.writeFile(file, `
+hosts:
+  broken:
+    template: example.yml
+    hostname: broken.example.org
+    target: ftp://10.0.0.1
+  "bad name":
+    template: example.yml
+    hostname: ok.example.org
+    target: http://10.0.0.1
+`, 'utf-8');
+
+        expect(await loadHostFile(file)).toEqual([]);
+        expect(baseLogger.warn).toHaveBeenCalledWith('Skipping invalid host definition', expect.anything());
+        expect(baseLogger.warn).toHaveBeenCalledWith('Skipping host with invalid name', expect.anything());
+    });
+
+    it('reads every host file in a directory and keeps the first duplicate', async () => {
+        await fs.writeFile(path.join(testDir, 'a.yml'), HOSTS_YAML, 'utf-8');
+        await fs.writeFile(path.join(testDir, 'b.yaml'), `
+hosts:
+  nas:
+    template: other.yml
+    hostname: nas2.example.org
+    target: http://192.168.1.21
+  router:
+    template: example.yml
+    hostname: router.example.org
+    target: http://192.168.1.1
+`, 'utf-8');
+        await fs.writeFile(path.join(testDir, 'notes.txt'), 'not a host file', 'utf-8');
+
+        const entries = await loadHostDefinitions(testDir);
+
+        expect(entries.map(e => e.containerName).sort()).toEqual(['nas', 'printer', 'router']);
+        expect(entries.find(e => e.containerName === 'nas')?.xMagicProxy.hostname).toBe('nas.example.org');
+    });
+
+    it('throws for unparseable files', async () => {
+        const file = path.join(testDir, 'hosts.yml');
+        await fs.writeFile(file, 'hosts: [unclosed', 'utf-8');
+
+        await expect(loadHostFile(file)).rejects.toThrow();
+    });
+});
+
+describe('File Provider - HostDB sync', () => {
+    let testDir: string;
+    let hostFile: string;
+    let hostDb: HostDB;
+    let provider: FileProvider | undefined;
+
+    beforeEach(async () => {
+        vi.spyOn(baseLogger, 'warn').mockImplementation(() => { });
+        vi.spyOn(baseLogger, 'error').mockImplementation(() => { });
+        testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-provider-'));
+        hostFile = path.join(testDir, 'hosts.yml');
+        await fs.writeFile(hostFile, HOSTS_YAML, 'utf-8');
+        hostDb = new HostDB();
+    });
+
+    afterEach(async () => {
+        provider?.stop();
+        provider = undefined;
+        await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    it('adds hosts on start', async () => {
+        provider = new FileProvider(hostDb, { path: hostFile });
+        await provider.start();
+
+        expect(hostDb.getAll().map(e => e.containerName).sort()).toEqual(['nas', 'printer']);
+    });
+
+    it('updates and removes hosts when the file changes', async () => {
+        provider = new FileProvider(hostDb, { path: hostFile });
+        await provider.start();
+
+        await fs.writeFile(hostFile, `
+hosts:
+  nas:
+    template: example.yml
+    hostname: storage.example.org
+    target: http://192.168.1.20:5000
+`, 'utf-8');
+
+        await vi.waitFor(() => {
+            expect(hostDb.get('printer')).toBeUndefined();
+            expect(hostDb.get('nas')?.xMagicProxy.hostname).toBe('storage.example.org');
+        }, { timeout: 2000 });
+    });
+
+    it('keeps current hosts when the file becomes unreadable', async () => {
+        provider = new FileProvider(hostDb, { path: hostFile });
+        await provider.start();
+
+        await fs.writeFile(hostFile, 'hosts: [unclosed', 'utf-8');
+
+        await vi.waitFor(() => {
+            expect(baseLogger.error).toHaveBeenCalledWith('Failed to load host files; keeping current hosts', expect.anything());
+        }, { timeout: 2000 });
+        expect(hostDb.getAll()).toHaveLength(2);
+    });
+
+    it('does not remove hosts owned by other providers', async () => {
+        hostDb.upsert(createMockHostEntry({ containerName: 'container-app' }));
+
+        provider = new FileProvider(hostDb, { path: hostFile });
+        await provider.start();
+
+        expect(hostDb.get('container-app')).toBeDefined();
+        expect(hostDb.getAll()).toHaveLength(3);
+    });
+});
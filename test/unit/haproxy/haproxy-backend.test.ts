@@ -0,0 +1,157 @@
+import { describe, it, beforeEach, afterEach, expect } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import * as haproxy from '../../../src/backends/haproxy/haproxy';
+import * as backendPlugin from '../../../src/backends/backendPlugin';
+import { validateGeneratedConfig } from '../../../src/backends/haproxy/validators';
+import { createMockHostEntry, createMockXMagicProxyData } from '../../helpers/mockHelpers';
+
+function entry(containerName: string, hostname: string | string[], target: string) {
+    return createMockHostEntry({
+        containerName,
+        xMagicProxy: createMockXMagicProxyData({ hostname, target }),
+    });
+}
+
+describe('HAProxy Backend', () => {
+    beforeEach(() => {
+        haproxy._resetForTesting();
+    });
+
+    describe('http mode', () => {
+        beforeEach(async () => {
+            await haproxy.initialize({ proxyBackend: 'haproxy', haproxy: { outputFile: '' } });
+        });
+
+        it('starts with an empty frontend', async () => {
+            const status = await haproxy.getStatus();
+            expect(status.registered).toEqual([]);
+            expect(status.mode).toBe('http');
+            expect(await haproxy.getConfig()).toContain('frontend magic_proxy\n    bind :80\n    mode http\n');
+        });
+
+        it('adds an ACL and a dedicated backend per app', async () => {
+            await haproxy.addProxiedApp(entry('web', 'web.example.com', 'http://web:8000'));
+
+            const config = await haproxy.getConfig();
+            expect(config).toContain('    acl host_web req.hdr(host),field(1,:) -i web.example.com\n    use_backend be_web if host_web');
+            expect(config).toContain('backend be_web\n    mode http\n    server web web:8000\n');
+            expect(validateGeneratedConfig(config).valid).toBe(true);
+        });
+
+        it('matches every hostname of an app in its ACL', async () => {
+            await haproxy.addProxiedApp(entry('web', ['example.com', 'www.example.com'], 'http://web:8000'));
+            expect(await haproxy.getConfig()).toContain('acl host_web req.hdr(host),field(1,:) -i example.com www.example.com');
+        });
+
+        it('balances scaled services across a server per replica', async () => {
+            await haproxy.addProxiedApp(createMockHostEntry({
+                containerName: 'web',
+                xMagicProxy: createMockXMagicProxyData({ hostname: 'web.example.com', target: 'http://web-1:8000' }),
+                replicas: [
+                    { containerName: 'web-1', target: 'http://web-1:8000' },
+                    { containerName: 'web-2', target: 'http://web-2:8000' },
+                ],
+            }));
+
+            const config = await haproxy.getConfig();
+            expect(config).toContain('backend be_web\n    mode http\n    server web_1 web-1:8000\n    server web_2 web-2:8000\n');
+            expect(validateGeneratedConfig(config).valid).toBe(true);
+        });
+
+        it('connects to https targets over TLS with verification', async () => {
+            await haproxy.addProxiedApp(entry('secure', 'secure.example.com', 'https://secure'));
+            expect(await haproxy.getConfig()).toContain('server secure secure:443 ssl verify required ca-file @system-ca');
+        });
+
+        it('sanitizes app names into HAProxy identifiers', async () => {
+            await haproxy.addProxiedApp(entry('my app', 'a.example.com', 'http://a:80'));
+            const config = await haproxy.getConfig();
+            expect(config).toContain('backend be_my_app');
+            expect(validateGeneratedConfig(config).valid).toBe(true);
+        });
+
+        it('keeps route identifiers apart from container names', async () => {
+            await haproxy.addProxiedApp(entry('web/admin', 'a.example.com', 'http://a:80'));
+            await haproxy.addProxiedApp(entry('web_admin', 'b.example.com', 'http://b:80'));
+            const config = await haproxy.getConfig();
+            expect(config).toContain('backend be_web:admin');
+            expect(config).toContain('backend be_web_admin');
+            expect(validateGeneratedConfig(config).valid).toBe(true);
+        });
+
+        it('removes an app from the frontend and backends', async () => {
+            await haproxy.addProxiedApp(entry('web', 'web.example.com', 'http://web:8000'));
+            await haproxy.removeProxiedApp('web');
+
+            const config = await haproxy.getConfig();
+            expect(config).not.toContain('be_web');
+            expect((await haproxy.getStatus()).registered).toEqual([]);
+        });
+
+        it('rejects a hostname already claimed by another app', async () => {
+            await haproxy.addProxiedApp(entry('first', 'shared.example.com', 'http://first:80'));
+            await haproxy.addProxiedApp(entry('second', 'shared.example.com', 'http://second:80'));
+
+            expect((await haproxy.getStatus()).registered).toEqual(['first']);
+        });
+
+        it('rejects apps whose identifiers collide after sanitizing', async () => {
+            await haproxy.addProxiedApp(entry('a b', 'one.example.com', 'http://one:80'));
+            await haproxy.addProxiedApp(entry('a+b', 'two.example.com', 'http://two:80'));
+
+            expect((await haproxy.getStatus()).registered).toEqual(['a b']);
+        });
+
+        it('skips hosts with invalid hostnames', async () => {
+            await haproxy.addProxiedApp(entry('bad', 'bad host', 'http://bad:80'));
+            expect((await haproxy.getStatus()).registered).toEqual([]);
+        });
+    });
+
+    describe('tcp mode', () => {
+        it('matches on SNI and passes TLS through', async () => {
+            await haproxy.initialize({ proxyBackend: 'haproxy', haproxy: { outputFile: '', frontend: { mode: 'tcp', name: 'tls_in' } } });
+            await haproxy.addProxiedApp(entry('db', 'db.example.com', 'https://db:8443'));
+
+            const config = await haproxy.getConfig();
+            expect(config).toContain('frontend tls_in\n    bind :443\n    mode tcp\n');
+            expect(config).toContain('tcp-request content accept if { req_ssl_hello_type 1 }');
+            expect(config).toContain('acl host_db req_ssl_sni -i db.example.com');
+            expect(config).toContain('    server db db:8443\n');
+            expect(validateGeneratedConfig(config).valid).toBe(true);
+        });
+    });
+
+    it('rejects an unknown frontend mode', async () => {
+        await expect(haproxy.initialize({ proxyBackend: 'haproxy', haproxy: { outputFile: '', frontend: { mode: 'udp' as any } } }))
+            .rejects.toThrow("Invalid config.haproxy.frontend.mode 'udp'");
+    });
+});
+
+describe('HAProxy Backend - output file', () => {
+    let testDir: string;
+
+    beforeEach(async () => {
+        testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'haproxy-test-'));
+        haproxy._resetForTesting();
+    });
+
+    afterEach(async () => {
+        await fs.rm(testDir, { recursive: true, force: true });
+        haproxy._resetForTesting();
+    });
+
+    it('writes the fragment atomically through backendPlugin', async () => {
+        const outputFile = path.join(testDir, 'haproxy-magic.cfg');
+        await fs.writeFile(`${outputFile}.1-1.tmp`, 'stale', 'utf-8');
+
+        await backendPlugin.initialize({ proxyBackend: 'haproxy', haproxy: { outputFile } });
+        await backendPlugin.addProxiedApp(entry('svc', 'svc.example.org', 'http://svc:7000'));
+
+        expect((await backendPlugin.getStatus()).registered).toEqual(['svc']);
+        expect(await fs.readdir(testDir)).toEqual(['haproxy-magic.cfg']);
+        expect(await fs.readFile(outputFile, 'utf-8')).toContain('server svc svc:7000');
+    });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { validateGeneratedConfig, validateApp } from '../../../src/backends/haproxy/validators';
+
+describe('HAProxy Validators', () => {
+    describe('validateGeneratedConfig', () => {
+        it('accepts a frontend routing to defined backends', () => {
+            const result = validateGeneratedConfig(`
+# comment
+frontend fe
+    bind :80
+    mode http
+    acl host_a req.hdr(host),field(1,:) -i a.example.com
+    use_backend be_a if host_a
+
+backend be_a
+    mode http
+    server a a:80
+`);
+            expect(result.valid).toBe(true);
+        });
+
+        it('accepts an empty fragment', () => {
+            expect(validateGeneratedConfig('').valid).toBe(true);
+        });
+
+        it('rejects unexpected sections', () => {
+            const result = validateGeneratedConfig('global\n    maxconn 100\n');
+            expect(result.valid).toBe(false);
+            expect(result.valid === false && result.error).toContain("Unexpected section on line 1: 'global'");
+        });
+
+        it('rejects duplicate backend names', () => {
+            const result = validateGeneratedConfig('backend be\n    server a a:80\nbackend be\n    server b b:80\n');
+            expect(result.valid).toBe(false);
+            expect(result.valid === false && result.error).toContain("Duplicate backend name: 'be'");
+        });
+
+        it('rejects use_backend pointing at an unknown backend', () => {
+            const result = validateGeneratedConfig(`
+frontend fe
+    acl host_a hdr(host) -i a
+    use_backend be_missing if host_a
+`);
+            expect(result.valid).toBe(false);
+            expect(result.valid === false && result.error).toContain("unknown backend 'be_missing'");
+        });
+
+        it('rejects use_backend with an undefined acl', () => {
+            const result = validateGeneratedConfig(`
+frontend fe
+    use_backend be_a if host_a
+backend be_a
+    server a a:80
+`);
+            expect(result.valid).toBe(false);
+            expect(result.valid === false && result.error).toContain("unknown acl 'host_a'");
+        });
+
+        it('rejects backends without servers', () => {
+            const result = validateGeneratedConfig('backend be_a\n    mode http\n');
+            expect(result.valid).toBe(false);
+            expect(result.valid === false && result.error).toContain("backend 'be_a' has no servers");
+        });
+
+        it('rejects directives outside of a section', () => {
+            const result = validateGeneratedConfig('    bind :80\n');
+            expect(result.valid).toBe(false);
+        });
+    });
+
+    describe('validateApp', () => {
+        it('accepts hostnames and host:port servers', () => {
+            expect(validateApp({ hosts: ['a.example.com'], servers: [{ address: 'a:8080' }] }).valid).toBe(true);
+            expect(validateApp({ hosts: ['a'], servers: [{ address: '[::1]:80' }] }).valid).toBe(true);
+        });
+
+        it('rejects hostnames with whitespace', () => {
+            const result = validateApp({ hosts: ['a b'], servers: [{ address: 'a:80' }] });
+            expect(result.valid).toBe(false);
+        });
+
+        it('rejects server addresses without a port', () => {
+            const result = validateApp({ hosts: ['a'], servers: [{ address: 'a' }] });
+            expect(result.valid).toBe(false);
+        });
+    });
+});
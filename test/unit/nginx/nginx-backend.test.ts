@@ -0,0 +1,187 @@
+import { describe, it, beforeEach, afterEach, expect } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import * as nginx from '../../../src/backends/nginx/nginx';
+import * as backendPlugin from '../../../src/backends/backendPlugin';
+import { createMockHostEntry, createMockXMagicProxyData } from '../../helpers/mockHelpers';
+
+const SERVER_TEMPLATE = `
+server {
+    listen 80;
+    server_name {{ app_name }}.{{ hostname }};
+    location / {
+        proxy_pass {{ target_url }};
+    }
+}
+`;
+
+const UPSTREAM_TEMPLATE = `
+upstream {{ upstream }} {
+    server {{ app_name }}:80;
+}
+server {
+    listen 80;
+    server_name {{ hostname }};
+    location / { proxy_pass http://{{ upstream }}; }
+}
+`;
+
+describe('Nginx Backend', () => {
+    beforeEach(() => {
+        nginx._resetForTesting();
+        nginx._setTemplateForTesting('default', SERVER_TEMPLATE);
+        nginx._setTemplateForTesting('upstream', UPSTREAM_TEMPLATE);
+    });
+
+    it('starts with no registered apps', async () => {
+        const status = await nginx.getStatus();
+        expect(status.registered).toEqual([]);
+        expect(status.outputFile).toBeNull();
+    });
+
+    it('renders a server block for an added app', async () => {
+        await nginx.addProxiedApp(createMockHostEntry({
+            containerName: 'web',
+            xMagicProxy: createMockXMagicProxyData({ hostname: 'example.com', target: 'http://web:8080' }),
+        }));
+
+        const config = await nginx.getConfig();
+        expect(config).toContain('# app: web');
+        expect(config).toContain('server_name web.example.com;');
+        expect(config).toContain('proxy_pass http://web:8080;');
+        expect((await nginx.getStatus()).registered).toEqual(['web']);
+    });
+
+    it('merges multiple apps into one include file', async () => {
+        await nginx.addProxiedApp(createMockHostEntry({ containerName: 'api' }));
+        await nginx.addProxiedApp(createMockHostEntry({ containerName: 'web' }));
+
+        const config = await nginx.getConfig();
+        expect(config).toContain('server_name api.example.local;');
+        expect(config).toContain('server_name web.example.local;');
+        expect((await nginx.getStatus()).registered.sort()).toEqual(['api', 'web']);
+    });
+
+    it('removes an app', async () => {
+        await nginx.addProxiedApp(createMockHostEntry({ containerName: 'temp' }));
+        await nginx.removeProxiedApp('temp');
+
+        expect((await nginx.getStatus()).registered).not.toContain('temp');
+        expect(await nginx.getConfig()).not.toContain('temp');
+    });
+
+    it('skips hosts referencing an unknown template', async () => {
+        await nginx.addProxiedApp(createMockHostEntry({
+            containerName: 'missing',
+            xMagicProxy: createMockXMagicProxyData({ template: 'nope.conf' }),
+        }));
+
+        expect((await nginx.getStatus()).registered).toEqual([]);
+    });
+
+    it('skips hosts whose template renders invalid nginx config', async () => {
+        nginx._setTemplateForTesting('broken', 'server {\n    listen 80\n');
+        await nginx.addProxiedApp(createMockHostEntry({
+            containerName: 'broken',
+            xMagicProxy: createMockXMagicProxyData({ template: 'broken' }),
+        }));
+
+        expect((await nginx.getStatus()).registered).toEqual([]);
+    });
+
+    it('skips hosts with unresolved userData variables', async () => {
+        await nginx.addProxiedApp(createMockHostEntry({
+            containerName: 'app',
+            xMagicProxy: createMockXMagicProxyData({ template: 'upstream' }),
+        }));
+
+        expect((await nginx.getStatus()).registered).toEqual([]);
+    });
+
+    it('rejects an app whose upstream collides with another app and keeps the original', async () => {
+        await nginx.addProxiedApp(createMockHostEntry({
+            containerName: 'first',
+            xMagicProxy: createMockXMagicProxyData({ template: 'upstream', userData: { upstream: 'shared' } }),
+        }));
+        await nginx.addProxiedApp(createMockHostEntry({
+            containerName: 'second',
+            xMagicProxy: createMockXMagicProxyData({ template: 'upstream', userData: { upstream: 'shared' } }),
+        }));
+
+        expect((await nginx.getStatus()).registered).toEqual(['first']);
+        expect(await nginx.getConfig()).toContain('server first:80;');
+    });
+
+    it('keeps the previous config when an update becomes invalid', async () => {
+        await nginx.addProxiedApp(createMockHostEntry({
+            containerName: 'first',
+            xMagicProxy: createMockXMagicProxyData({ template: 'upstream', userData: { upstream: 'one' } }),
+        }));
+        await nginx.addProxiedApp(createMockHostEntry({
+            containerName: 'second',
+            xMagicProxy: createMockXMagicProxyData({ template: 'upstream', userData: { upstream: 'two' } }),
+        }));
+        await nginx.addProxiedApp(createMockHostEntry({
+            containerName: 'second',
+            xMagicProxy: createMockXMagicProxyData({ template: 'upstream', userData: { upstream: 'one' } }),
+        }));
+
+        const config = await nginx.getConfig();
+        expect(config).toContain('upstream two {');
+        expect((await nginx.getStatus()).registered).toEqual(['first', 'second']);
+    });
+});
+
+describe('Nginx Backend - initialize', () => {
+    let testDir: string;
+
+    beforeEach(async () => {
+        testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'nginx-test-'));
+        nginx._resetForTesting();
+    });
+
+    afterEach(async () => {
+        await fs.rm(testDir, { recursive: true, force: true });
+        nginx._resetForTesting();
+    });
+
+    it('requires a configuration object', async () => {
+        await expect(nginx.initialize()).rejects.toThrow('Nginx backend requires a configuration object');
+    });
+
+    it('requires templates', async () => {
+        await expect(nginx.initialize({ proxyBackend: 'nginx', nginx: { outputFile: 'x.conf' } }))
+            .rejects.toThrow('No templates defined in config.nginx.templates');
+    });
+
+    it('fails clearly when a template cannot be loaded', async () => {
+        const missing = path.join(testDir, 'missing.conf');
+        await expect(nginx.initialize({ proxyBackend: 'nginx', nginx: { outputFile: 'x.conf', templates: [missing] } }))
+            .rejects.toThrow(`Failed to load template '${missing}'`);
+    });
+
+    it('loads templates, writes the include file and routes through backendPlugin', async () => {
+        const templatePath = path.join(testDir, 'site.conf');
+        const outputFile = path.join(testDir, 'out', 'nginx-magic.conf');
+        await fs.writeFile(templatePath, SERVER_TEMPLATE, 'utf-8');
+
+        await backendPlugin.initialize({
+            proxyBackend: 'nginx',
+            nginx: { outputFile, templates: [templatePath] },
+        });
+
+        await backendPlugin.addProxiedApp(createMockHostEntry({
+            containerName: 'svc',
+            xMagicProxy: createMockXMagicProxyData({ template: 'site.conf', hostname: 'example.org', target: 'http://svc:7000' }),
+        }));
+
+        const status = await backendPlugin.getStatus();
+        expect(status.registered).toEqual(['svc']);
+        expect(status.backends.nginx.outputFile).toBe(outputFile);
+
+        const written = await fs.readFile(outputFile, 'utf-8');
+        expect(written).toContain('server_name svc.example.org;');
+        expect(written).toContain('proxy_pass http://svc:7000;');
+    });
+});
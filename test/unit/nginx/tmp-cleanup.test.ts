@@ -0,0 +1,73 @@
+import { describe, it, beforeEach, afterEach, expect, vi } from 'vitest';
+import * as manager from '../../../src/backends/nginx/nginxManager';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+
+const FRAGMENT = 'server {\n    listen 80;\n    server_name test.example.com;\n}\n';
+
+describe('Nginx Manager - Atomic Writes', () => {
+    let testDir: string;
+    let outputPath: string;
+
+    beforeEach(async () => {
+        testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'nginx-manager-test-'));
+        outputPath = path.join(testDir, 'nginx-magic.conf');
+        manager._resetForTesting();
+        manager.setOutputFile(outputPath);
+    });
+
+    afterEach(async () => {
+        await fs.rm(testDir, { recursive: true, force: true });
+        manager._resetForTesting();
+    });
+
+    it('should clean up stale .tmp files when writing config', async () => {
+        const staleTmp = `${outputPath}.12345-1234567890.tmp`;
+        await fs.writeFile(staleTmp, 'stale', 'utf-8');
+
+        manager.register('testapp', FRAGMENT);
+        await manager.flushToDisk();
+
+        const files = await fs.readdir(testDir);
+        expect(files).toEqual(['nginx-magic.conf']);
+    });
+
+    it('should clean up its own .tmp file on write error', async () => {
+        const renameSpy = vi.spyOn(fs, 'rename').mockRejectedValue(new Error('Simulated rename failure'));
+
+        manager.register('testapp', FRAGMENT);
+        await expect(manager.flushToDisk()).rejects.toThrow('Simulated rename failure');
+
+        const files = await fs.readdir(testDir);
+        expect(files.filter(f => f.endsWith('.tmp'))).toHaveLength(0);
+
+        renameSpy.mockRestore();
+    });
+
+    it('should refuse to write an invalid combined config', async () => {
+        manager.register('broken', 'server {\n');
+
+        await expect(manager.flushToDisk()).rejects.toThrow('Invalid config generated');
+
+        const exists = await fs.access(outputPath).then(() => true).catch(() => false);
+        expect(exists).toBe(false);
+    });
+
+    it('should coalesce rapid flushes into a single write', async () => {
+        const writeSpy = vi.spyOn(fs, 'writeFile');
+
+        manager.register('a', FRAGMENT);
+        const first = manager.flushToDisk();
+        manager.register('b', FRAGMENT.replace('test.example.com', 'b.example.com'));
+        const second = manager.flushToDisk();
+        await Promise.all([first, second]);
+
+        expect(writeSpy).toHaveBeenCalledTimes(1);
+        const written = await fs.readFile(outputPath, 'utf-8');
+        expect(written).toContain('# app: a');
+        expect(written).toContain('# app: b');
+
+        writeSpy.mockRestore();
+    });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { validateGeneratedConfig, parseTopLevelBlocks } from '../../../src/backends/nginx/validators';
+
+describe('Nginx Validators', () => {
+    describe('parseTopLevelBlocks', () => {
+        it('collects top-level blocks with their arguments', () => {
+            const result = parseTopLevelBlocks(`
+upstream app_backend {
+    server 10.0.0.1:8080;
+}
+server {
+    listen 80;
+    location / { proxy_pass http://app_backend; }
+}
+`);
+            expect(result.valid).toBe(true);
+            expect(result.valid && result.blocks).toEqual([
+                { name: 'upstream', args: ['app_backend'] },
+                { name: 'server', args: [] },
+            ]);
+        });
+
+        it('ignores braces inside comments, quotes and ${var} interpolation', () => {
+            const result = parseTopLevelBlocks(`
+# a comment with a { brace
+server {
+    add_header X-Test "value with } brace";
+    return 301 https://\${host}$request_uri;
+}
+`);
+            expect(result.valid).toBe(true);
+            expect(result.valid && result.blocks).toHaveLength(1);
+        });
+
+        it('rejects unbalanced braces', () => {
+            const result = parseTopLevelBlocks('server {\n    listen 80;\n');
+            expect(result.valid).toBe(false);
+            expect(result.valid === false && result.error).toContain('Unbalanced braces');
+        });
+
+        it('rejects an unexpected closing brace', () => {
+            const result = parseTopLevelBlocks('server { listen 80; }\n}');
+            expect(result.valid).toBe(false);
+            expect(result.valid === false && result.error).toContain("Unexpected '}'");
+        });
+
+        it('rejects directives missing a semicolon', () => {
+            const result = parseTopLevelBlocks('server {\n    listen 80\n}');
+            expect(result.valid).toBe(false);
+            expect(result.valid === false && result.error).toContain("'listen' is missing ';'");
+        });
+
+        it('rejects unterminated strings', () => {
+            const result = parseTopLevelBlocks('server { add_header X "oops; }');
+            expect(result.valid).toBe(false);
+            expect(result.valid === false && result.error).toContain('Unterminated string');
+        });
+    });
+
+    describe('validateGeneratedConfig', () => {
+        it('accepts server and upstream blocks', () => {
+            const result = validateGeneratedConfig(`
+upstream a { server a:80; }
+server { listen 80; server_name a.example.com; location / { proxy_pass http://a; } }
+`);
+            expect(result.valid).toBe(true);
+        });
+
+        it('accepts empty config', () => {
+            expect(validateGeneratedConfig('').valid).toBe(true);
+        });
+
+        it('rejects unexpected top-level blocks', () => {
+            const result = validateGeneratedConfig('http { server { listen 80; } }');
+            expect(result.valid).toBe(false);
+            expect(result.valid === false && result.error).toContain("Unexpected top-level block: 'http'");
+        });
+
+        it('rejects duplicate upstream names', () => {
+            const result = validateGeneratedConfig(`
+upstream shared { server a:80; }
+upstream shared { server b:80; }
+`);
+            expect(result.valid).toBe(false);
+            expect(result.valid === false && result.error).toContain("Duplicate upstream name: 'shared'");
+        });
+
+        it('rejects unresolved template placeholders', () => {
+            const result = validateGeneratedConfig('server { server_name {{ host-name }}; }');
+            expect(result.valid).toBe(false);
+            expect(result.valid === false && result.error).toContain('Unresolved template placeholder');
+        });
+    });
+});
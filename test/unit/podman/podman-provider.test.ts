@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { PodmanProvider, normalizePodmanLabels, getDefaultSocketPath } from '../../../src/providers/podman';
+import { HostDB } from '../../../src/hostDb';
+import { baseLogger } from '../../../src/logging/logger';
+import { createMockHostEntry } from '../../helpers/mockHelpers';
+import { FakeDockerSocket } from '../../helpers/fakeDockerSocket';
+
+// Mock is-docker so compose file paths are read as-is instead of under /host
+vi.mock('is-docker', () => ({
+    default: () => false,
+}));
+
+const COMPOSE_FILE = `
+services:
+  web:
+    image: nginx
+    x-magic-proxy:
+      template: example.yml
+      hostname: web.example.com
+      target: http://web:80
+`;
+
+function podmanComposeContainer(name: string, workingDir: string) {
+    return {
+        Id: name,
+        Names: [`/${name}`],
+        Labels: {
+            'io.podman.compose.project': 'demo',
+            'com.docker.compose.project': 'demo',
+            'com.docker.compose.project.working_dir': workingDir,
+            'com.docker.compose.project.config_files': 'docker-compose.yml',
+            'com.docker.compose.service': 'web',
+        },
+    };
+}
+
+describe('Podman Provider - normalizePodmanLabels', () => {
+    it('resolves config files relative to the working directory', () => {
+        const labels = normalizePodmanLabels({
+            'com.docker.compose.project.working_dir': '/srv/app',
+            'com.docker.compose.project.config_files': 'docker-compose.yml, override.yml',
+        });
+
+        expect(labels['com.docker.compose.project.config_files']).toBe('/srv/app/docker-compose.yml,/srv/app/override.yml');
+    });
+
+    it('keeps absolute config files and labels without a working directory', () => {
+        expect(normalizePodmanLabels({
+            'com.docker.compose.project.working_dir': '/srv/app',
+            'com.docker.compose.project.config_files': '/etc/compose.yml',
+        })['com.docker.compose.project.config_files']).toBe('/etc/compose.yml');
+
+        expect(normalizePodmanLabels({ 'magic-proxy.target': 'http://x' })).toEqual({ 'magic-proxy.target': 'http://x' });
+        expect(normalizePodmanLabels(undefined)).toEqual({});
+    });
+
+    it('defaults to the rootless socket when XDG_RUNTIME_DIR is set', () => {
+        vi.stubEnv('XDG_RUNTIME_DIR', '/run/user/1000');
+        expect(getDefaultSocketPath()).toBe('/run/user/1000/podman/podman.sock');
+
+        vi.stubEnv('XDG_RUNTIME_DIR', '');
+        expect(getDefaultSocketPath()).toBe('/run/podman/podman.sock');
+        vi.unstubAllEnvs();
+    });
+});
+
+describe('Podman Provider - fake socket', () => {
+    let testDir: string;
+    let socket: FakeDockerSocket;
+    let hostDb: HostDB;
+    let provider: PodmanProvider | undefined;
+
+    beforeEach(async () => {
+        vi.spyOn(baseLogger, 'warn').mockImplementation(() => { });
+        vi.spyOn(baseLogger, 'error').mockImplementation(() => { });
+        testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'podman-test-'));
+        await fs.writeFile(path.join(testDir, 'docker-compose.yml'), COMPOSE_FILE, 'utf-8');
+        socket = new FakeDockerSocket(path.join(testDir, 'podman.sock'));
+        await socket.listen();
+        hostDb = new HostDB();
+    });
+
+    afterEach(async () => {
+        provider?.stop();
+        provider = undefined;
+        await socket.close();
+        await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    it('registers podman-compose containers from the socket', async () => {
+        socket.containers = [podmanComposeContainer('demo_web_1', testDir)];
+
+        provider = new PodmanProvider(hostDb, { socketPath: socket.socketPath });
+        await provider.start();
+
+        expect(hostDb.get('demo_web_1')).toMatchObject({
+            source: { provider: 'podman', path: path.join(testDir, 'docker-compose.yml') },
+            composeFilePath: path.join(testDir, 'docker-compose.yml'),
+            xMagicProxy: { hostname: 'web.example.com', target: 'http://web:80' },
+        });
+    });
+
+    it('registers labelled containers started with podman run', async () => {
+        socket.containers = [{
+            Id: 'standalone',
+            Names: ['/standalone'],
+            Labels: {
+                'magic-proxy.template': 'example.yml',
+                'magic-proxy.hostname': 'standalone.example.com',
+                'magic-proxy.target': 'http://standalone:8080',
+            },
+        }];
+
+        provider = new PodmanProvider(hostDb, { socketPath: socket.socketPath });
+        await provider.start();
+
+        expect(hostDb.get('standalone')?.xMagicProxy.hostname).toBe('standalone.example.com');
+    });
+
+    it('resyncs on container events', async () => {
+        socket.containers = [podmanComposeContainer('demo_web_1', testDir)];
+        provider = new PodmanProvider(hostDb, { socketPath: socket.socketPath, syncIntervalMs: 0 });
+        await provider.start();
+
+        socket.containers = [];
+        // Give the event stream a moment to connect before emitting
+        await vi.waitFor(() => {
+            socket.emitEvent({ Type: 'container', Action: 'die', Actor: { Attributes: { name: 'demo_web_1' } } });
+            expect(hostDb.get('demo_web_1')).toBeUndefined();
+        });
+    });
+
+    it('leaves entries owned by other providers alone', async () => {
+        hostDb.upsert(createMockHostEntry({ containerName: 'docker-app' }));
+        socket.containers = [];
+
+        provider = new PodmanProvider(hostDb, { socketPath: socket.socketPath });
+        await provider.start();
+
+        expect(hostDb.get('docker-app')).toBeDefined();
+    });
+
+    it('does not take over a container name registered by another provider', async () => {
+        hostDb.upsert(createMockHostEntry({ containerName: 'demo_web_1', source: { provider: 'docker' } }));
+        socket.containers = [podmanComposeContainer('demo_web_1', testDir)];
+
+        provider = new PodmanProvider(hostDb, { socketPath: socket.socketPath });
+        await provider.start();
+
+        expect(hostDb.get('demo_web_1')?.source?.provider).toBe('docker');
+        expect(baseLogger.warn).toHaveBeenCalledWith(
+            'Container name is already registered by another provider',
+            expect.objectContaining({ data: { containerName: 'demo_web_1', provider: 'podman', owner: 'docker' } })
+        );
+    });
+});
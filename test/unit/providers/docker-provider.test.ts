@@ -58,7 +58,8 @@ describe('DockerProvider', () => {
         // Setup default manifest response
         vi.mocked(manifestModule.buildContainerManifest).mockResolvedValue({
             manifest: [],
-            results: {}
+            results: {},
+            dependencies: {}
         });
 
         vi.mocked(composeModule.groupContainersByComposeFile).mockReturnValue([]);
@@ -72,7 +73,7 @@ describe('DockerProvider', () => {
 
     describe('start', () => {
         it('should initialize Docker event listener', async () => {
-            provider = new DockerProvider(hostDb, undefined, mockDocker);
+            provider = new DockerProvider(hostDb, { syncIntervalMs: 0 }, mockDocker);
             await provider.start();
 
             expect(mockDocker.getEvents).toHaveBeenCalled();
@@ -82,14 +83,14 @@ describe('DockerProvider', () => {
         });
 
         it('should perform initial sync', async () => {
-            provider = new DockerProvider(hostDb, undefined, mockDocker);
+            provider = new DockerProvider(hostDb, { syncIntervalMs: 0 }, mockDocker);
             await provider.start();
 
             expect(manifestModule.buildContainerManifest).toHaveBeenCalled();
         });
 
         it('should not start twice', async () => {
-            provider = new DockerProvider(hostDb, undefined, mockDocker);
+            provider = new DockerProvider(hostDb, { syncIntervalMs: 0 }, mockDocker);
             await provider.start();
             await provider.start();
 
@@ -103,7 +104,7 @@ describe('DockerProvider', () => {
             const buildManifestSpy = vi.mocked(manifestModule.buildContainerManifest);
             buildManifestSpy.mockClear();
 
-            provider = new DockerProvider(hostDb, undefined, mockDocker);
+            provider = new DockerProvider(hostDb, { syncIntervalMs: 0 }, mockDocker);
             await provider.start();
 
             // Clear the initial sync call
@@ -135,7 +136,7 @@ describe('DockerProvider', () => {
         it('should trigger sync on container destroy event', async () => {
             const buildManifestSpy = vi.mocked(manifestModule.buildContainerManifest);
 
-            provider = new DockerProvider(hostDb, undefined, mockDocker);
+            provider = new DockerProvider(hostDb, { syncIntervalMs: 0 }, mockDocker);
             await provider.start();
 
             buildManifestSpy.mockClear();
@@ -161,7 +162,7 @@ describe('DockerProvider', () => {
         it('should ignore non-container events', async () => {
             const buildManifestSpy = vi.mocked(manifestModule.buildContainerManifest);
 
-            provider = new DockerProvider(hostDb, undefined, mockDocker);
+            provider = new DockerProvider(hostDb, { syncIntervalMs: 0 }, mockDocker);
             await provider.start();
 
             buildManifestSpy.mockClear();
@@ -189,23 +190,46 @@ describe('DockerProvider', () => {
             const composeFiles = [
                 {
                     path: '/path/to/compose.yml',
+                    files: ['/path/to/compose.yml'],
                     containers: []
                 }
             ];
 
             vi.mocked(composeModule.groupContainersByComposeFile).mockReturnValue(composeFiles);
 
-            provider = new DockerProvider(hostDb, undefined, mockDocker);
+            provider = new DockerProvider(hostDb, { syncIntervalMs: 0 }, mockDocker);
             await provider.start();
 
             expect(fs.watch).toHaveBeenCalledWith('/path/to/compose.yml', expect.any(Function));
         });
 
+        it('should watch the .env and env files compose projects were read from', async () => {
+            vi.mocked(composeModule.groupContainersByComposeFile).mockReturnValue([
+                {
+                    path: '/path/to/compose.yml',
+                    files: ['/path/to/compose.yml'],
+                    containers: []
+                }
+            ]);
+            vi.mocked(manifestModule.buildContainerManifest).mockResolvedValue({
+                manifest: [],
+                results: {},
+                dependencies: { '/path/to/compose.yml': ['/path/to/compose.yml', '/path/to/.env', '/path/to/web.env'] }
+            });
+
+            provider = new DockerProvider(hostDb, { syncIntervalMs: 0 }, mockDocker);
+            await provider.start();
+
+            expect(fs.watch).toHaveBeenCalledWith('/path/to/.env', expect.any(Function));
+            expect(fs.watch).toHaveBeenCalledWith('/path/to/web.env', expect.any(Function));
+        });
+
         it('should trigger sync when compose file changes', async () => {
             const buildManifestSpy = vi.mocked(manifestModule.buildContainerManifest);
             const composeFiles = [
                 {
                     path: '/path/to/compose.yml',
+                    files: ['/path/to/compose.yml'],
                     containers: []
                 }
             ];
@@ -221,7 +245,7 @@ describe('DockerProvider', () => {
                 } as any;
             }) as any);
 
-            provider = new DockerProvider(hostDb, undefined, mockDocker);
+            provider = new DockerProvider(hostDb, { syncIntervalMs: 0 }, mockDocker);
             await provider.start();
 
             buildManifestSpy.mockClear();
@@ -254,10 +278,11 @@ describe('DockerProvider', () => {
 
             vi.mocked(manifestModule.buildContainerManifest).mockResolvedValue({
                 manifest,
-                results: {}
+                results: {},
+                dependencies: {}
             });
 
-            provider = new DockerProvider(hostDb, undefined, mockDocker);
+            provider = new DockerProvider(hostDb, { syncIntervalMs: 0 }, mockDocker);
             await provider.start();
 
             expect(hostDb.get('test-container')).toBeDefined();
@@ -280,10 +305,11 @@ describe('DockerProvider', () => {
 
             vi.mocked(manifestModule.buildContainerManifest).mockResolvedValue({
                 manifest: [], // Empty manifest - container should be removed
-                results: {}
+                results: {},
+                dependencies: {}
             });
 
-            provider = new DockerProvider(hostDb, undefined, mockDocker);
+            provider = new DockerProvider(hostDb, { syncIntervalMs: 0 }, mockDocker);
             await provider.start();
 
             expect(hostDb.get('old-container')).toBeUndefined();
@@ -295,6 +321,7 @@ describe('DockerProvider', () => {
             const composeFiles = [
                 {
                     path: '/path/to/compose.yml',
+                    files: ['/path/to/compose.yml'],
                     containers: []
                 }
             ];
@@ -308,7 +335,7 @@ describe('DockerProvider', () => {
 
             vi.mocked(fs.watch).mockReturnValue(mockFileWatcher as any);
 
-            provider = new DockerProvider(hostDb, undefined, mockDocker);
+            provider = new DockerProvider(hostDb, { syncIntervalMs: 0 }, mockDocker);
             await provider.start();
 
             provider.stop();
@@ -331,10 +358,10 @@ describe('DockerProvider', () => {
             buildManifestSpy.mockImplementation(async () => {
                 callCount++;
                 await new Promise(resolve => setTimeout(resolve, 100));
-                return { manifest: [], results: {} };
+                return { manifest: [], results: {}, dependencies: {} };
             });
 
-            provider = new DockerProvider(hostDb, undefined, mockDocker);
+            provider = new DockerProvider(hostDb, { syncIntervalMs: 0 }, mockDocker);
             await provider.start();
 
             // Clear initial sync
@@ -370,10 +397,10 @@ describe('DockerProvider', () => {
             buildManifestSpy.mockImplementation(async () => {
                 syncCount++;
                 await new Promise(resolve => setTimeout(resolve, 50));
-                return { manifest: [], results: {} };
+                return { manifest: [], results: {}, dependencies: {} };
             });
 
-            provider = new DockerProvider(hostDb, undefined, mockDocker);
+            provider = new DockerProvider(hostDb, { syncIntervalMs: 0 }, mockDocker);
             await provider.start();
 
             // Clear initial sync
@@ -416,10 +443,10 @@ describe('DockerProvider', () => {
             buildManifestSpy.mockImplementation(async () => {
                 syncCount++;
                 await new Promise(resolve => setTimeout(resolve, 100));
-                return { manifest: [], results: {} };
+                return { manifest: [], results: {}, dependencies: {} };
             });
 
-            provider = new DockerProvider(hostDb, undefined, mockDocker);
+            provider = new DockerProvider(hostDb, { syncIntervalMs: 0 }, mockDocker);
             await provider.start();
 
             syncCount = 0;
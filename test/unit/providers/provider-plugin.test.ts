@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import * as providerPlugin from '../../../src/providers/providerPlugin';
+import { HostDB } from '../../../src/hostDb';
+import { validateConfig, getProviders } from '../../../src/config';
+import { baseLogger } from '../../../src/logging/logger';
+
+const HOSTS_YAML = `
+hosts:
+  nas:
+    template: example.yml
+    hostname: nas.example.org
+    target: http://192.168.1.20:5000
+`;
+
+describe('Provider Plugin', () => {
+    let testDir: string;
+    let hostFile: string;
+    let hostDb: HostDB;
+
+    beforeEach(async () => {
+        vi.spyOn(baseLogger, 'error').mockImplementation(() => { });
+        vi.spyOn(baseLogger, 'warn').mockImplementation(() => { });
+        testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'provider-plugin-'));
+        hostFile = path.join(testDir, 'hosts.yml');
+        await fs.writeFile(hostFile, HOSTS_YAML, 'utf-8');
+        hostDb = new HostDB();
+    });
+
+    afterEach(async () => {
+        providerPlugin._resetForTesting();
+        await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    it('starts the configured providers and reports their status', async () => {
+        await providerPlugin.startProviders(hostDb, {
+            proxyBackend: 'traefik',
+            providers: ['file'],
+            file: { path: hostFile },
+        });
+
+        expect(hostDb.get('nas')).toBeDefined();
+        expect(providerPlugin.getStatus()).toEqual({
+            file: { active: true, hosts: 1, path: hostFile },
+        });
+    });
+
+    it('keeps each provider\'s hosts when another provider syncs', async () => {
+        // The Podman socket does not exist, so its sync finds no containers
+        await providerPlugin.startProviders(hostDb, {
+            proxyBackend: 'traefik',
+            providers: ['file', 'podman'],
+            file: { path: hostFile },
+            podman: { socketPath: path.join(testDir, 'missing.sock') },
+        });
+
+        expect(hostDb.get('nas')).toBeDefined();
+        expect(providerPlugin.getStatus().podman).toMatchObject({ active: true, hosts: 0 });
+    });
+
+    it('keeps the providers that started when another fails', async () => {
+        await providerPlugin.startProviders(hostDb, {
+            proxyBackend: 'traefik',
+            providers: ['file', 'nope' as any],
+            file: { path: hostFile },
+        });
+
+        expect(hostDb.get('nas')).toBeDefined();
+        expect(Object.keys(providerPlugin.getStatus())).toEqual(['file']);
+        expect(baseLogger.error).toHaveBeenCalledWith('Provider failed to start', expect.objectContaining({
+            data: { provider: 'nope', error: "Unknown provider 'nope'" },
+        }));
+    });
+
+    it('fails when no provider starts', async () => {
+        await expect(providerPlugin.startProviders(hostDb, {
+            proxyBackend: 'traefik',
+            providers: ['nope' as any],
+        })).rejects.toThrow("Failed to start any provider: nope: Unknown provider 'nope'");
+
+        expect(providerPlugin.getStatus()).toEqual({});
+    });
+
+    it('stops every provider', async () => {
+        await providerPlugin.startProviders(hostDb, {
+            proxyBackend: 'traefik',
+            providers: ['file'],
+            file: { path: hostFile },
+        });
+
+        providerPlugin.stopProviders();
+
+        expect(providerPlugin.getStatus()).toEqual({});
+        // Hosts stay registered until a provider removes them
+        expect(hostDb.get('nas')).toBeDefined();
+    });
+});
+
+describe('Provider Plugin - config', () => {
+    it('defaults to the docker provider', () => {
+        expect(getProviders({ proxyBackend: 'traefik' })).toEqual(['docker']);
+    });
+
+    it('rejects unknown and duplicate providers', () => {
+        expect(() => validateConfig({ proxyBackend: 'traefik', providers: ['kubernetes' as any] }))
+            .toThrow('Invalid providers in config file. Must be a list of one or more of: docker, podman, file, swarm');
+        expect(() => validateConfig({ proxyBackend: 'traefik', providers: [] }))
+            .toThrow('Invalid providers in config file');
+        expect(() => validateConfig({ proxyBackend: 'traefik', providers: ['docker', 'docker'] }))
+            .toThrow("Duplicate provider in config file: 'docker'");
+    });
+
+    it('requires a file section for the file provider', () => {
+        expect(() => validateConfig({ proxyBackend: 'traefik', providers: ['file'] }))
+            .toThrow('The file provider requires file.path in the config file');
+        expect(validateConfig({ proxyBackend: 'traefik', providers: ['docker', 'file'], file: { path: 'hosts.yml' } })).toBe(true);
+    });
+});
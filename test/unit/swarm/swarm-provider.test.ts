@@ -0,0 +1,220 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import Docker from 'dockerode';
+import { SwarmProvider, resolveServiceTarget, buildServiceManifest } from '../../../src/providers/swarm';
+import { HostDB } from '../../../src/hostDb';
+import { validateConfig } from '../../../src/config';
+import { baseLogger } from '../../../src/logging/logger';
+import { FakeDockerSocket } from '../../helpers/fakeDockerSocket';
+
+// Mock is-docker so stack file paths are read as-is instead of under /host
+vi.mock('is-docker', () => ({
+    default: () => false,
+}));
+
+const STACK_FILE = `
+services:
+  web:
+    image: nginx
+    x-magic-proxy:
+      template: example.yml
+      hostname: web.example.com
+      target: http://web:80
+  worker:
+    image: busybox
+`;
+
+function service(id: string, name: string, labels: Record<string, string> = {}, stack?: string) {
+    return {
+        ID: id,
+        Spec: {
+            Name: stack ? `${stack}_${name}` : name,
+            Labels: stack ? { 'com.docker.stack.namespace': stack, ...labels } : labels,
+        },
+        Endpoint: {
+            VirtualIPs: [{ NetworkID: 'net', Addr: '10.0.1.5/24' }],
+            Ports: [{ Protocol: 'tcp', TargetPort: 8080, PublishedPort: 30080 }],
+        },
+    };
+}
+
+function runningTask(serviceId: string) {
+    return { ServiceID: serviceId, DesiredState: 'running', Status: { State: 'running' } };
+}
+
+const labelled = {
+    'magic-proxy.template': 'example.yml',
+    'magic-proxy.hostname': 'labels.example.com',
+    'magic-proxy.target': 'http://api:3000',
+};
+
+describe('Swarm Provider - resolveServiceTarget', () => {
+    const svc = service('s1', 'web', {}, 'demo') as any;
+
+    it('rewrites targets naming the service to its DNS name', () => {
+        expect(resolveServiceTarget('http://web:80/path', svc)).toBe('http://demo_web:80/path');
+        expect(resolveServiceTarget('http://demo_web:80', svc)).toBe('http://demo_web:80');
+    });
+
+    it('rewrites targets naming the service to its VIP in vip mode', () => {
+        expect(resolveServiceTarget('http://web:80', svc, 'vip')).toBe('http://10.0.1.5:80');
+    });
+
+    it('keeps targets pointing elsewhere', () => {
+        expect(resolveServiceTarget('http://db:5432', svc)).toBe('http://db:5432');
+    });
+
+    it('defaults to the first target port without a target', () => {
+        expect(resolveServiceTarget(undefined, svc)).toBe('http://demo_web:8080');
+        expect(resolveServiceTarget(undefined, svc, 'vip')).toBe('http://10.0.1.5:8080');
+    });
+});
+
+describe('Swarm Provider - buildServiceManifest', () => {
+    let testDir: string;
+    let stackPath: string;
+
+    function mockDocker(services: unknown[]) {
+        return { listServices: vi.fn().mockResolvedValue(services) } as any;
+    }
+
+    beforeEach(async () => {
+        vi.restoreAllMocks();
+        vi.spyOn(baseLogger, 'warn').mockImplementation(() => { });
+        vi.spyOn(baseLogger, 'error').mockImplementation(() => { });
+        testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'swarm-test-'));
+        stackPath = path.join(testDir, 'stack.yml');
+        await fs.writeFile(stackPath, STACK_FILE, 'utf-8');
+    });
+
+    afterEach(async () => {
+        await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    it('reads x-magic-proxy from the stack file', async () => {
+        const { manifest, results } = await buildServiceManifest(
+            mockDocker([service('s1', 'web', {}, 'demo'), service('s2', 'worker', {}, 'demo')]),
+            { stacks: { demo: stackPath } }
+        );
+
+        expect(manifest).toHaveLength(1);
+        expect(manifest[0]).toMatchObject({
+            containerName: 'demo_web',
+            composeFilePath: stackPath,
+            xMagicProxy: { hostname: 'web.example.com', target: 'http://demo_web:80' },
+        });
+        expect(results.demo).toEqual({ demo_web: 'ok', demo_worker: 'No x-magic-proxy configuration found' });
+    });
+
+    it('reads x-magic-proxy from service labels', async () => {
+        const { manifest, results } = await buildServiceManifest(
+            mockDocker([service('s1', 'api', labelled)])
+        );
+
+        expect(manifest[0]).toMatchObject({
+            containerName: 'api',
+            xMagicProxy: { hostname: 'labels.example.com', target: 'http://api:3000' },
+        });
+        expect(results['(services)']).toEqual({ api: 'ok' });
+    });
+
+    it('prefers the stack file over labels by default', async () => {
+        const { manifest } = await buildServiceManifest(
+            mockDocker([service('s1', 'web', labelled, 'demo')]),
+            { stacks: { demo: stackPath } }
+        );
+
+        expect(manifest[0].xMagicProxy.hostname).toBe('web.example.com');
+    });
+
+    it('returns an empty manifest when the node is not a Swarm manager', async () => {
+        const docker = {
+            listServices: vi.fn().mockRejectedValue(new Error('This node is not a swarm manager')),
+        } as any;
+
+        expect(await buildServiceManifest(docker)).toEqual({ manifest: [], results: {} });
+    });
+});
+
+describe('Swarm Provider - fake socket', () => {
+    let testDir: string;
+    let socket: FakeDockerSocket;
+    let hostDb: HostDB;
+    let provider: SwarmProvider | undefined;
+
+    beforeEach(async () => {
+        vi.spyOn(baseLogger, 'warn').mockImplementation(() => { });
+        vi.spyOn(baseLogger, 'error').mockImplementation(() => { });
+        testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'swarm-test-'));
+        socket = new FakeDockerSocket(path.join(testDir, 'docker.sock'));
+        await socket.listen();
+        hostDb = new HostDB();
+    });
+
+    afterEach(async () => {
+        provider?.stop();
+        provider = undefined;
+        await socket.close();
+        await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    it('registers services and resyncs on service events', async () => {
+        socket.services = [service('s1', 'api', labelled)];
+        socket.tasks = [runningTask('s1')];
+
+        provider = new SwarmProvider(hostDb, { syncIntervalMs: 0 }, new Docker({ socketPath: socket.socketPath }));
+        await provider.start();
+
+        expect(hostDb.get('api')).toMatchObject({ source: { provider: 'swarm' } });
+        expect(provider.getStatus()).toMatchObject({ active: true, hosts: 1 });
+
+        socket.services = [];
+        socket.tasks = [];
+        // Give the event stream a moment to connect before emitting
+        await vi.waitFor(() => {
+            socket.emitEvent({ Type: 'service', Action: 'remove', Actor: { ID: 's1', Attributes: { name: 'api' } } });
+            expect(hostDb.get('api')).toBeUndefined();
+        });
+    });
+
+    it('registers a service created before its task runs, and keeps it once the task starts', async () => {
+        provider = new SwarmProvider(hostDb, { syncIntervalMs: 0 }, new Docker({ socketPath: socket.socketPath }));
+        await provider.start();
+
+        // Services are synced on their create event, before any task is running
+        socket.services = [service('s1', 'api', labelled)];
+        socket.tasks = [{ ServiceID: 's1', DesiredState: 'running', Status: { State: 'preparing' } }];
+        await vi.waitFor(() => {
+            socket.emitEvent({ Type: 'service', Action: 'create', Actor: { ID: 's1', Attributes: { name: 'api' } } });
+            expect(hostDb.get('api')).toMatchObject({ xMagicProxy: { target: 'http://api:3000' } });
+        });
+
+        // The task starting on a worker raises no event on the manager, and
+        // needs none: the service was already routed through its DNS name
+        socket.tasks = [runningTask('s1')];
+        expect(provider.getStatus()).toMatchObject({ hosts: 1 });
+        expect(hostDb.get('api')).toMatchObject({ source: { provider: 'swarm' } });
+    });
+});
+
+describe('Swarm Provider - config validation', () => {
+    it('accepts the swarm provider and its section', () => {
+        expect(validateConfig({
+            proxyBackend: 'traefik',
+            providers: ['swarm'],
+            swarm: { stacks: { demo: '/srv/demo/stack.yml' }, labels: 'prefer', target: 'vip' },
+        })).toBe(true);
+    });
+
+    it('rejects unknown target modes', () => {
+        expect(() => validateConfig({ proxyBackend: 'traefik', swarm: { target: 'ip' as any } }))
+            .toThrow('Invalid swarm.target in config file. Must be one of: dns, vip');
+    });
+
+    it('rejects stacks that are not a name to path map', () => {
+        expect(() => validateConfig({ proxyBackend: 'traefik', swarm: { stacks: ['/srv/stack.yml'] as any } }))
+            .toThrow('Invalid swarm.stacks in config file. Must map stack names to stack file paths');
+    });
+});
@@ -0,0 +1,102 @@
+import { describe, it, beforeEach, afterEach, expect } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import yaml from 'js-yaml';
+import { loadTemplate, loadTemplates } from '../../src/backends/templateLoader';
+import { renderTemplateParsed } from '../../src/backends/traefik/templateParser';
+import { createMockXMagicProxyData } from '../helpers/mockHelpers';
+
+describe('Template loader includes', () => {
+    let testDir: string;
+
+    async function write(name: string, content: string): Promise<string> {
+        const file = path.join(testDir, name);
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, content, 'utf-8');
+        return file;
+    }
+
+    beforeEach(async () => {
+        testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'template-loader-test-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    it('inlines partials at the indentation of the directive', async () => {
+        await write('partials/service.yml', 'svc-{{ app_name }}:\n  loadBalancer:\n    servers:\n      - url: "{{ target_url }}"\n');
+        const main = await write('main.yml', 'http:\n  services:\n    {{> partials/service.yml }}\n  routers: {}\n');
+
+        expect(await loadTemplate(main)).toBe([
+            'http:',
+            '  services:',
+            '    svc-{{ app_name }}:',
+            '      loadBalancer:',
+            '        servers:',
+            '          - url: "{{ target_url }}"',
+            '  routers: {}',
+            '',
+        ].join('\n'));
+    });
+
+    it('resolves nested includes relative to the including file', async () => {
+        await write('partials/inner/leaf.yml', 'leaf: true\n');
+        await write('partials/outer.yml', 'outer:\n  {{> inner/leaf.yml }}\n');
+        const main = await write('main.yml', 'root:\n  {{> partials/outer.yml }}\n');
+
+        expect(yaml.load(await loadTemplate(main))).toEqual({ root: { outer: { leaf: true } } });
+    });
+
+    it('allows the same partial to be included more than once', async () => {
+        await write('p.yml', 'x: 1');
+        const main = await write('main.yml', 'a:\n  {{> p.yml }}\nb:\n  {{> p.yml }}\n');
+
+        expect(yaml.load(await loadTemplate(main))).toEqual({ a: { x: 1 }, b: { x: 1 } });
+    });
+
+    it('detects include cycles', async () => {
+        await write('a.yml', '{{> b.yml }}\n');
+        await write('b.yml', '{{> a.yml }}\n');
+        const main = await write('main.yml', '{{> a.yml }}\n');
+
+        await expect(loadTemplate(main)).rejects.toThrow(
+            `Failed to load template '${main}': Include cycle detected: ${main} -> ${path.join(testDir, 'a.yml')} -> ${path.join(testDir, 'b.yml')} -> ${path.join(testDir, 'a.yml')}`
+        );
+    });
+
+    it('detects a template including itself', async () => {
+        const main = await write('main.yml', '{{> main.yml }}\n');
+        await expect(loadTemplate(main)).rejects.toThrow('Include cycle detected');
+    });
+
+    it('names the including file when a partial is missing', async () => {
+        const partial = await write('partials/broken.yml', 'x:\n  {{> missing.yml }}\n');
+        const main = await write('main.yml', '{{> partials/broken.yml }}\n');
+
+        await expect(loadTemplate(main)).rejects.toThrow(`Failed to include 'missing.yml' from '${partial}'`);
+    });
+
+    it('rejects include directives that share a line with other content', async () => {
+        await write('p.yml', 'x');
+        const main = await write('main.yml', 'key: {{> p.yml }}\n');
+
+        await expect(loadTemplate(main)).rejects.toThrow(`Include directive in '${main}' must be on a line of its own`);
+    });
+
+    it('renders the bundled templates built from shared partials', async () => {
+        const templates = await loadTemplates([
+            path.resolve('config/template/example.yml'),
+            path.resolve('config/template/oidc.yml'),
+        ]);
+        const data = createMockXMagicProxyData({ hostname: 'example.org', target: 'http://app:80' });
+
+        for (const name of ['example.yml', 'oidc.yml']) {
+            const { parsed } = renderTemplateParsed<any>(templates.get(name)!, 'app', data);
+            expect(parsed.http.middlewares.geoblock.plugin.geoblock.allowedCountries).toEqual(['CA', 'US']);
+            expect(parsed.http.routers['magic-proxy-app'].service).toBe('magic-proxy-app');
+            expect(parsed.http.services['magic-proxy-app'].loadBalancer.servers).toEqual([{ url: 'http://app:80' }]);
+        }
+    });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { getErrorMessage, detectCollisions } from '../../../src/backends/traefik/helpers';
+import { getErrorMessage, detectCollisions, deepMerge } from '../../../src/backends/traefik/helpers';
 
 describe('Traefik Helpers', () => {
     describe('getErrorMessage', () => {
@@ -125,4 +125,45 @@ describe('Traefik Helpers', () => {
             expect(collisions).toEqual(['c', 'a', 'b']);
         });
     });
+
+    describe('deepMerge', () => {
+        it('merges nested objects key by key', () => {
+            const { merged, collisions } = deepMerge(
+                { http: { routers: { a: { rule: 'x' } } } },
+                { http: { routers: { b: { rule: 'y' } }, middlewares: { m: {} } } }
+            );
+            expect(collisions).toEqual([]);
+            expect(merged).toEqual({
+                http: { routers: { a: { rule: 'x' }, b: { rule: 'y' } }, middlewares: { m: {} } },
+            });
+        });
+
+        it('reports differing values with their dotted path and keeps the target value', () => {
+            const { merged, collisions } = deepMerge(
+                { http: { routers: { a: { rule: 'x', middlewares: ['m1'] } } } },
+                { http: { routers: { a: { rule: 'y', middlewares: ['m2'] } } } }
+            );
+            expect(collisions).toEqual(['http.routers.a.rule', 'http.routers.a.middlewares']);
+            expect(merged).toEqual({ http: { routers: { a: { rule: 'x', middlewares: ['m1'] } } } });
+        });
+
+        it('treats identical values as compatible', () => {
+            const service = { loadBalancer: { servers: [{ url: 'http://a' }] } };
+            const { collisions } = deepMerge({ services: { s: service } }, { services: { s: structuredClone(service) } });
+            expect(collisions).toEqual([]);
+        });
+
+        it('reports an object colliding with a scalar', () => {
+            expect(deepMerge({ a: { b: 1 } }, { a: 'x' }).collisions).toEqual(['a']);
+        });
+
+        it('does not mutate its inputs', () => {
+            const target = { a: { b: 1 } };
+            const source = { a: { c: 2 } };
+            deepMerge(target, source);
+            expect(target).toEqual({ a: { b: 1 } });
+            expect(source).toEqual({ a: { c: 2 } });
+        });
+    });
 });
+
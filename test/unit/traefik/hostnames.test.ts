@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import { renderTemplate } from '../../../src/backends/traefik/templateParser';
+import * as traefik from '../../../src/backends/traefik/traefik';
+import { XMagicProxyData } from '../../../src/types/xmagic';
+import { createMockHostEntry, createMockXMagicProxyData } from '../../helpers/mockHelpers';
+
+function data(hostname: string | string[]): XMagicProxyData {
+    return { template: 'test', target: 'http://backend:3000', hostname };
+}
+
+describe('Multiple hostnames in templates', () => {
+    it('exposes the first hostname as the primary', () => {
+        expect(renderTemplate('{{ hostname }}', 'app', data(['example.com', 'www.example.com']))).toBe('example.com');
+        expect(renderTemplate('{{ hostname }}', 'app', data('example.com'))).toBe('example.com');
+    });
+
+    it('builds a Traefik rule matching any hostname', () => {
+        expect(renderTemplate('rule: "{{ host_rule }}"', 'app', data(['example.com', 'www.example.com'])))
+            .toBe('rule: "Host(`example.com`) || Host(`www.example.com`)"');
+        expect(renderTemplate('{{ host_rule }}', 'app', data('example.com'))).toBe('Host(`example.com`)');
+    });
+
+    it('joins hostnames with a separator', () => {
+        const hosts = data(['a.example.com', 'b.example.com']);
+        expect(renderTemplate('{{ hostnames | join }}', 'app', hosts)).toBe('a.example.com,b.example.com');
+        expect(renderTemplate('server_name {{ hostnames | join: " " }};', 'app', hosts)).toBe('server_name a.example.com b.example.com;');
+        expect(renderTemplate('server_name {{ hostnames | join(" ") }};', 'app', hosts)).toBe('server_name a.example.com b.example.com;');
+        expect(renderTemplate('{{ hostnames | json }}', 'app', hosts)).toBe('["a.example.com","b.example.com"]');
+    });
+
+    it.each(['builtin', 'nunjucks'] as const)('renders the shipped nginx template with the %s engine', async (engine) => {
+        const template = await fs.readFile(path.resolve('config/template/nginx.conf'), 'utf-8');
+
+        const rendered = renderTemplate(template, 'app', data(['a.example.com', 'b.example.com']), engine);
+
+        expect(rendered).toContain('server_name a.example.com b.example.com;');
+        expect(rendered).toContain('proxy_pass http://backend:3000;');
+    });
+
+    it('rejects a list used without join or json', () => {
+        expect(() => renderTemplate('{{ hostnames }}', 'app', data(['a.example.com'])))
+            .toThrow("Template variable 'hostnames' is a list; use the join or json filter");
+    });
+
+    it('does not let userData overwrite hostname variables', () => {
+        const result = renderTemplate('{{ host_rule }}', 'app', { ...data('example.com'), userData: { host_rule: 'x', hostnames: 'y' } });
+        expect(result).toBe('Host(`example.com`)');
+    });
+
+    it('iterates hostnames with nunjucks', () => {
+        const template = '{% for host in hostnames %}- {{ host }}\n{% endfor %}';
+        expect(renderTemplate(template, 'app', data(['a.example.com', 'b.example.com']), 'nunjucks'))
+            .toBe('- a.example.com\n- b.example.com\n');
+    });
+
+    it('routes every hostname through the Traefik backend', async () => {
+        traefik._resetForTesting();
+        traefik._setTemplateForTesting('multi', `
+http:
+  routers:
+    magic-proxy-{{ app_name }}:
+      rule: "{{ host_rule }}"
+      service: magic-proxy-{{ app_name }}
+  services:
+    magic-proxy-{{ app_name }}:
+      loadBalancer:
+        servers:
+          - url: "{{ target_url }}"
+`);
+        await traefik.addProxiedApp(createMockHostEntry({
+            containerName: 'site',
+            xMagicProxy: createMockXMagicProxyData({ template: 'multi', hostname: ['example.com', 'www.example.com'] }),
+        }));
+
+        expect(await traefik.getConfig()).toContain('rule: Host(`example.com`) || Host(`www.example.com`)');
+    });
+});
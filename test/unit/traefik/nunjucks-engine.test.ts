@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { getTemplateEngine, renderTemplate, renderTemplateParsed } from '../../../src/backends/traefik/templateParser';
+import { loadTemplates } from '../../../src/backends/templateLoader';
+import * as traefik from '../../../src/backends/traefik/traefik';
+import * as nginx from '../../../src/backends/nginx/nginx';
+import { validateConfig } from '../../../src/config';
+import { XMagicProxyData } from '../../../src/types/xmagic';
+import { createMockHostEntry, createMockXMagicProxyData } from '../../helpers/mockHelpers';
+
+const OIDC_TEMPLATE = `
+http:
+  routers:
+    magic-proxy-{{ app_name }}:
+      rule: Host(\`{{ hostname }}\`)
+      service: magic-proxy-{{ app_name }}
+{% if userData.oidc_group %}
+      middlewares:
+        - magic-proxy-{{ app_name }}-oidc
+  middlewares:
+    magic-proxy-{{ app_name }}-oidc:
+      plugin:
+        traefik-oidc-auth:
+          Authorization:
+            AssertClaims:
+              - Name: groups
+                AllOf: ["{{ userData.oidc_group }}"]
+{% endif %}
+  services:
+    magic-proxy-{{ app_name }}:
+      loadBalancer:
+        servers:
+          - url: "{{ target_url }}"
+`;
+
+function data(userData?: XMagicProxyData['userData'], template = 'test.njk'): XMagicProxyData {
+    return { template, target: 'http://backend:3000', hostname: 'app.example.com', userData };
+}
+
+describe('Nunjucks template engine', () => {
+    describe('getTemplateEngine', () => {
+        it('selects nunjucks for *.njk templates', () => {
+            expect(getTemplateEngine('oidc.yml.njk')).toBe('nunjucks');
+            expect(getTemplateEngine('oidc.yml.njk', 'builtin')).toBe('nunjucks');
+        });
+
+        it('falls back to the configured default', () => {
+            expect(getTemplateEngine('oidc.yml')).toBe('builtin');
+            expect(getTemplateEngine('oidc.yml', 'nunjucks')).toBe('nunjucks');
+        });
+    });
+
+    describe('renderTemplate', () => {
+        it('renders conditionals based on userData', () => {
+            const withGroup = renderTemplate(OIDC_TEMPLATE, 'app', data({ oidc_group: 'admins' }), 'nunjucks');
+            expect(withGroup).toContain('- magic-proxy-app-oidc');
+            expect(withGroup).toContain('AllOf: ["admins"]');
+
+            const withoutGroup = renderTemplate(OIDC_TEMPLATE, 'app', data(), 'nunjucks');
+            expect(withoutGroup).not.toContain('middlewares');
+            expect(withoutGroup).toContain('url: "http://backend:3000"');
+        });
+
+        it('loops over list values in userData', () => {
+            const template = `allowedCountries:
+{% for country in userData.countries %}
+  - {{ country }}
+{% endfor %}`;
+            const result = renderTemplate(template, 'app', data({ countries: ['CA', 'US'] }), 'nunjucks');
+            expect(result).toBe('allowedCountries:\n  - CA\n  - US\n');
+        });
+
+        it('supports flat keys and filters', () => {
+            const result = renderTemplate('{{ app_name | upper }}:{{ port }}', 'app', data({ port: 8080 }), 'nunjucks');
+            expect(result).toBe('APP:8080');
+        });
+
+        it('does not let userData overwrite core variables', () => {
+            const result = renderTemplate('{{ app_name }}', 'app', data({ app_name: 'evil' }), 'nunjucks');
+            expect(result).toBe('app');
+        });
+
+        it('throws on undefined variables', () => {
+            expect(() => renderTemplate('url: {{ missing_var }}', 'app', data(), 'nunjucks'))
+                .toThrow('Template rendering failed: (test.njk) [Line 1, Column 6] attempted to output null or undefined value');
+        });
+
+        it('throws on syntax errors', () => {
+            expect(() => renderTemplate('{% if %}', 'app', data(), 'nunjucks'))
+                .toThrow('Template rendering failed');
+        });
+
+        it('leaves nunjucks syntax untouched when using the builtin engine', () => {
+            expect(() => renderTemplate('{% if x %}{% endif %}', 'app', data(), 'builtin')).not.toThrow();
+        });
+    });
+
+    describe('shipped templates', () => {
+        it.each(['example.yml', 'oidc.yml'])('renders %s', async (name) => {
+            const templates = await loadTemplates([path.resolve('config/template', name)]);
+            const targets = ['http://backend-1:3000', 'http://backend-2:3000'];
+
+            const { parsed } = renderTemplateParsed<any>(templates.get(name)!, 'app', data(undefined, name), 'nunjucks', targets);
+
+            expect(parsed.http.services['magic-proxy-app'].loadBalancer.servers).toEqual([
+                { url: 'http://backend-1:3000' },
+                { url: 'http://backend-2:3000' },
+            ]);
+        });
+
+        it('supports the json filter', () => {
+            const rendered = renderTemplate('{{ hostnames | json }}', 'app', data(), 'nunjucks');
+            expect(rendered).toBe('["app.example.com"]');
+        });
+    });
+
+    describe('Traefik backend', () => {
+        beforeEach(() => {
+            traefik._resetForTesting();
+        });
+
+        it('renders *.njk templates with nunjucks', async () => {
+            traefik._setTemplateForTesting('oidc.yml.njk', OIDC_TEMPLATE);
+            await traefik.addProxiedApp(createMockHostEntry({
+                containerName: 'app',
+                xMagicProxy: createMockXMagicProxyData({ template: 'oidc.yml.njk', userData: { oidc_group: 'ops' } }),
+            }));
+
+            const config = await traefik.getConfig();
+            expect(config).toContain('magic-proxy-app-oidc');
+            expect(config).toContain('ops');
+        });
+
+        it('skips hosts whose template references undefined variables', async () => {
+            traefik._setTemplateForTesting('broken.njk', 'http:\n  routers:\n    r:\n      rule: "{{ nope }}"\n');
+            await traefik.addProxiedApp(createMockHostEntry({
+                containerName: 'app',
+                xMagicProxy: createMockXMagicProxyData({ template: 'broken.njk' }),
+            }));
+
+            expect((await traefik.getStatus()).registered).toEqual([]);
+        });
+    });
+
+    describe('global templateEngine setting', () => {
+        let testDir: string;
+
+        beforeEach(async () => {
+            testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'nunjucks-test-'));
+            nginx._resetForTesting();
+        });
+
+        afterEach(async () => {
+            await fs.rm(testDir, { recursive: true, force: true });
+            nginx._resetForTesting();
+        });
+
+        it('renders every template with nunjucks when configured', async () => {
+            const templatePath = path.join(testDir, 'site.conf');
+            await fs.writeFile(templatePath, [
+                'server {',
+                '    server_name {{ hostname }};',
+                '{% for ip in userData.allow %}',
+                '    allow {{ ip }};',
+                '{% endfor %}',
+                '    deny all;',
+                '    location / { proxy_pass {{ target_url }}; }',
+                '}',
+                '',
+            ].join('\n'), 'utf-8');
+
+            await nginx.initialize({
+                proxyBackend: 'nginx',
+                templateEngine: 'nunjucks',
+                nginx: { outputFile: '', templates: [templatePath] },
+            });
+            await nginx.addProxiedApp(createMockHostEntry({
+                containerName: 'svc',
+                xMagicProxy: createMockXMagicProxyData({ template: 'site.conf', userData: { allow: ['10.0.0.0/8', '192.168.0.0/16'] } }),
+            }));
+
+            const config = await nginx.getConfig();
+            expect(config).toContain('    allow 10.0.0.0/8;\n    allow 192.168.0.0/16;\n    deny all;');
+        });
+
+        it('rejects unknown engines in the config file', () => {
+            expect(() => validateConfig({ proxyBackend: 'traefik', templateEngine: 'jinja' as any }))
+                .toThrow('Invalid templateEngine in config file');
+        });
+    });
+});
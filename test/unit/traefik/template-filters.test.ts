@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { renderTemplate } from '../../../src/backends/traefik/templateParser';
+import * as traefik from '../../../src/backends/traefik/traefik';
+import { XMagicProxyData } from '../../../src/types/xmagic';
+import { createMockHostEntry, createMockXMagicProxyData } from '../../helpers/mockHelpers';
+
+function data(userData?: XMagicProxyData['userData']): XMagicProxyData {
+    return { template: 'test', target: 'http://backend:3000', hostname: 'example.com', userData };
+}
+
+describe('Template filters', () => {
+    describe('default', () => {
+        it('uses the default when a userData key is missing', () => {
+            expect(renderTemplate('limit: {{ userData.rateLimit | default: 10 }}', 'app', data())).toBe('limit: 10');
+            expect(renderTemplate('limit: {{ rateLimit | default: 10 }}', 'app', data({}))).toBe('limit: 10');
+        });
+
+        it('prefers the supplied value over the default', () => {
+            expect(renderTemplate('{{ userData.rateLimit | default: 10 }}', 'app', data({ rateLimit: 50 }))).toBe('50');
+        });
+
+        it('uses the default for empty and null values', () => {
+            expect(renderTemplate('{{ group | default: users }}', 'app', data({ group: '' }))).toBe('users');
+            expect(renderTemplate('{{ group | default: users }}', 'app', data({ group: null }))).toBe('users');
+        });
+
+        it('accepts quoted defaults containing spaces and pipes', () => {
+            expect(renderTemplate('{{ title | default: "My App | Home" }}', 'app', data())).toBe('My App | Home');
+            expect(renderTemplate(`{{ title | default: 'a b' }}`, 'app', data())).toBe('a b');
+        });
+
+        it('accepts the nunjucks call syntax for arguments', () => {
+            expect(renderTemplate('limit: {{ userData.rateLimit | default(10) }}', 'app', data())).toBe('limit: 10');
+            expect(renderTemplate('{{ title | default("My App | Home") | upper }}', 'app', data())).toBe('MY APP | HOME');
+        });
+
+        it('requires a value', () => {
+            expect(() => renderTemplate('{{ title | default }}', 'app', data()))
+                .toThrow("Template filter 'default' requires a value");
+        });
+    });
+
+    describe('string filters', () => {
+        it('applies lower and upper', () => {
+            expect(renderTemplate('{{ name | lower }}-{{ name | upper }}', 'app', data({ name: 'MixedCase' })))
+                .toBe('mixedcase-MIXEDCASE');
+        });
+
+        it('applies slug', () => {
+            expect(renderTemplate('{{ title | slug }}', 'app', data({ title: '  My Cool_App v2! ' }))).toBe('my-cool-app-v2');
+        });
+
+        it('applies quote with escaping', () => {
+            expect(renderTemplate('key: {{ value | quote }}', 'app', data({ value: 'say "hi": now' })))
+                .toBe('key: "say \\"hi\\": now"');
+        });
+
+        it('applies base64', () => {
+            expect(renderTemplate('{{ creds | base64 }}', 'app', data({ creds: 'user:pass' }))).toBe('dXNlcjpwYXNz');
+        });
+
+        it('chains filters left to right', () => {
+            expect(renderTemplate('{{ userData.group | default: Admins | lower | quote }}', 'app', data())).toBe('"admins"');
+        });
+
+        it('applies filters to core variables', () => {
+            expect(renderTemplate('{{ hostname | upper }}', 'app', data())).toBe('EXAMPLE.COM');
+        });
+    });
+
+    describe('json', () => {
+        it('serializes lists from userData', () => {
+            expect(renderTemplate('allowed: {{ userData.countries | json }}', 'app', data({ countries: ['CA', 'US'] })))
+                .toBe('allowed: ["CA","US"]');
+        });
+
+        it('serializes scalars as strings', () => {
+            // userData values are normalized to strings when the context is built
+            expect(renderTemplate('{{ port | json }} {{ name | json }}', 'app', data({ port: 80, name: 'x' }))).toBe('"80" "x"');
+        });
+    });
+
+    describe('errors', () => {
+        it('throws on unknown filters', () => {
+            expect(() => renderTemplate('{{ app_name | reverse }}', 'app', data()))
+                .toThrow("Unknown template filter 'reverse'");
+        });
+
+        it('rejects arguments to filters that take none', () => {
+            expect(() => renderTemplate('{{ app_name | upper: 1 }}', 'app', data()))
+                .toThrow("Template filter 'upper' does not take an argument");
+        });
+
+        it('still reports missing variables without a default', () => {
+            expect(() => renderTemplate('{{ userData.rateLimit | upper }}', 'app', data()))
+                .toThrow('Template contains unknown variables: userData.rateLimit');
+        });
+    });
+
+    it('lets one template serve services with different userData', async () => {
+        traefik._resetForTesting();
+        traefik._setTemplateForTesting('shared', `
+http:
+  middlewares:
+    ratelimit-{{ app_name }}:
+      rateLimit:
+        average: {{ userData.rateLimit | default: 10 }}
+  routers:
+    magic-proxy-{{ app_name }}:
+      rule: Host(\`{{ hostname }}\`)
+      service: magic-proxy-{{ app_name }}
+  services:
+    magic-proxy-{{ app_name }}:
+      loadBalancer:
+        servers:
+          - url: "{{ target_url }}"
+`);
+
+        await traefik.addProxiedApp(createMockHostEntry({
+            containerName: 'plain',
+            xMagicProxy: createMockXMagicProxyData({ template: 'shared', hostname: 'plain.example.com' }),
+        }));
+        await traefik.addProxiedApp(createMockHostEntry({
+            containerName: 'custom',
+            xMagicProxy: createMockXMagicProxyData({ template: 'shared', hostname: 'custom.example.com', userData: { rateLimit: 99 } }),
+        }));
+
+        expect((await traefik.getStatus()).registered.sort()).toEqual(['custom', 'plain']);
+        const config = await traefik.getConfig();
+        expect(config).toMatch(/ratelimit-plain:\s+rateLimit:\s+average: 10/);
+        expect(config).toMatch(/ratelimit-custom:\s+rateLimit:\s+average: 99/);
+    });
+});
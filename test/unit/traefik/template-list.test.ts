@@ -0,0 +1,103 @@
+import { describe, it, beforeEach, expect } from 'vitest';
+import * as traefik from '../../../src/backends/traefik/traefik';
+import * as nginx from '../../../src/backends/nginx/nginx';
+import { createMockHostEntry, createMockXMagicProxyData } from '../../helpers/mockHelpers';
+
+const BASE_TEMPLATE = `
+http:
+  routers:
+    magic-proxy-{{ app_name }}:
+      rule: Host(\`{{ hostname }}\`)
+      service: magic-proxy-{{ app_name }}
+  services:
+    magic-proxy-{{ app_name }}:
+      loadBalancer:
+        servers:
+          - url: "{{ target_url }}"
+`;
+
+const RATELIMIT_TEMPLATE = `
+http:
+  routers:
+    magic-proxy-{{ app_name }}:
+      middlewares:
+        - ratelimit-{{ app_name }}
+  middlewares:
+    ratelimit-{{ app_name }}:
+      rateLimit:
+        average: {{ userData.rateLimit | default: 10 }}
+  services:
+    magic-proxy-{{ app_name }}:
+      loadBalancer:
+        servers:
+          - url: "{{ target_url }}"
+`;
+
+const OTHER_SERVICE_TEMPLATE = `
+http:
+  routers:
+    magic-proxy-{{ app_name }}:
+      service: somewhere-else
+`;
+
+function entry(template: string | string[], containerName = 'app') {
+    return createMockHostEntry({
+        containerName,
+        xMagicProxy: createMockXMagicProxyData({ template, hostname: 'app.example.com', target: 'http://app:80' }),
+    });
+}
+
+describe('Multiple templates per service', () => {
+    describe('Traefik backend', () => {
+        beforeEach(() => {
+            traefik._resetForTesting();
+            traefik._setTemplateForTesting('base.yml', BASE_TEMPLATE);
+            traefik._setTemplateForTesting('ratelimit.yml', RATELIMIT_TEMPLATE);
+            traefik._setTemplateForTesting('other.yml', OTHER_SERVICE_TEMPLATE);
+        });
+
+        it('deep-merges rendered fragments in order', async () => {
+            await traefik.addProxiedApp(entry(['base.yml', 'ratelimit.yml']));
+
+            expect((await traefik.getStatus()).registered).toEqual(['app']);
+            const config = await traefik.getConfig();
+            expect(config).toMatch(/magic-proxy-app:\n\s+rule: Host\(`app.example.com`\)\n\s+service: magic-proxy-app\n\s+middlewares:\n\s+- ratelimit-app/);
+            expect(config).toContain('average: 10');
+        });
+
+        it('still accepts a single template name', async () => {
+            await traefik.addProxiedApp(entry('base.yml'));
+            expect((await traefik.getStatus()).registered).toEqual(['app']);
+        });
+
+        it('skips the host when templates define conflicting values', async () => {
+            await traefik.addProxiedApp(entry(['base.yml', 'other.yml']));
+            expect((await traefik.getStatus()).registered).toEqual([]);
+        });
+
+        it('skips the host when any listed template is missing', async () => {
+            await traefik.addProxiedApp(entry(['base.yml', 'missing.yml']));
+            expect((await traefik.getStatus()).registered).toEqual([]);
+        });
+    });
+
+    describe('nginx backend', () => {
+        beforeEach(() => {
+            nginx._resetForTesting();
+            nginx._setTemplateForTesting('upstream.conf', 'upstream {{ app_name }}_up {\n    server app:80;\n}\n');
+            nginx._setTemplateForTesting('server.conf', 'server {\n    server_name {{ hostname }};\n    location / { proxy_pass http://{{ app_name }}_up; }\n}\n');
+        });
+
+        it('concatenates rendered fragments in order', async () => {
+            await nginx.addProxiedApp(entry(['upstream.conf', 'server.conf']));
+
+            const config = await nginx.getConfig();
+            expect(config).toContain('# app: app\nupstream app_up {\n    server app:80;\n}\n\nserver {\n    server_name app.example.com;');
+        });
+
+        it('rejects a combination that defines the same upstream twice', async () => {
+            await nginx.addProxiedApp(entry(['upstream.conf', 'upstream.conf']));
+            expect((await nginx.getStatus()).registered).toEqual([]);
+        });
+    });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { validateXMagicProxyData } from '../../../src/types/xmagic';
+import { getHostnames, getTemplateNames, resolveRoutes, validateXMagicProxyData } from '../../../src/types/xmagic';
 
 describe('types/xmagic - validateXMagicProxyData', () => {
     it('accepts minimal valid config', () => {
@@ -168,4 +168,91 @@ describe('types/xmagic - validateXMagicProxyData', () => {
         expect(r2.valid === false && r2.reason!.toLowerCase()).toContain('target');
         expect(r3.valid === false && r3.reason!.toLowerCase()).toContain('hostname');
     });
-});
\ No newline at end of file
+
+    it('accepts a list of templates', () => {
+        const data = {
+            template: ['oidc.yml', 'ratelimit.yml'],
+            target: 'http://localhost:3000',
+            hostname: 'example.com'
+        };
+
+        const res = validateXMagicProxyData(data);
+        expect(res.valid).toBe(true);
+        expect(res.valid && getTemplateNames(res.value)).toEqual(['oidc.yml', 'ratelimit.yml']);
+    });
+
+    it('rejects an empty template list', () => {
+        const res = validateXMagicProxyData({ template: [], target: 'http://localhost:3000', hostname: 'example.com' });
+        expect(res.valid).toBe(false);
+        expect(res.valid === false && res.reason).toContain('template');
+    });
+
+    it('returns a single template as a one-item list', () => {
+        expect(getTemplateNames({ template: 'example.yml', target: 'http://a', hostname: 'a' })).toEqual(['example.yml']);
+    });
+
+    it('accepts a list of hostnames and returns the primary first', () => {
+        const res = validateXMagicProxyData({
+            template: 'example.yml',
+            target: 'http://localhost:3000',
+            hostname: ['example.com', 'www.example.com', 'legacy-domain.org.']
+        });
+        expect(res.valid).toBe(true);
+        expect(res.valid && getHostnames(res.value)).toEqual(['example.com', 'www.example.com', 'legacy-domain.org.']);
+    });
+
+    it('rejects hostnames that are not valid DNS names', () => {
+        const invalid = ['bad host', 'a..b', '-a.example.com', 'a-.example.com', 'under_score.com', `${'a'.repeat(64)}.com`, '', '.'];
+        for (const hostname of invalid) {
+            const res = validateXMagicProxyData({ template: 'example.yml', target: 'http://localhost:3000', hostname });
+            expect(res.valid, hostname).toBe(false);
+            expect(res.valid === false && res.reason).toContain('hostname');
+        }
+    });
+
+    it('rejects a list containing an invalid hostname or no hostnames', () => {
+        const base = { template: 'example.yml', target: 'http://localhost:3000' };
+        expect(validateXMagicProxyData({ ...base, hostname: ['ok.example.com', 'not ok'] }).valid).toBe(false);
+        expect(validateXMagicProxyData({ ...base, hostname: [] }).valid).toBe(false);
+    });
+
+    describe('routes', () => {
+        const base = { template: 'example.yml', target: 'http://app:8080', hostname: 'app.example.com', userData: { group: 'users', tier: 'gold' } };
+
+        it('accepts named routes with their own hostname and target', () => {
+            const res = validateXMagicProxyData({ ...base, routes: { admin: { hostname: 'admin.example.com', target: 'http://app:9000' } } });
+            expect(res.valid).toBe(true);
+        });
+
+        it('rejects routes without a hostname or target', () => {
+            const res = validateXMagicProxyData({ ...base, routes: { admin: { target: 'http://app:9000' } } });
+            expect(res.valid).toBe(false);
+            expect(res.valid === false && res.reason).toContain('routes.admin.hostname');
+        });
+
+        it('rejects route names that cannot form a registration key', () => {
+            const res = validateXMagicProxyData({ ...base, routes: { 'admin api': { hostname: 'a.example.com', target: 'http://a' } } });
+            expect(res.valid).toBe(false);
+        });
+
+        it('resolves routes inheriting the template and merging userData', () => {
+            const resolved = resolveRoutes({
+                ...base,
+                routes: {
+                    admin: { hostname: 'admin.example.com', target: 'http://app:9000', userData: { group: 'admins' } },
+                    api: { hostname: 'api.example.com', target: 'http://app:9001', template: 'api.yml' },
+                },
+            });
+
+            expect(resolved).toEqual([
+                ['admin', { template: 'example.yml', target: 'http://app:9000', hostname: 'admin.example.com', userData: { group: 'admins', tier: 'gold' } }],
+                ['api', { template: 'api.yml', target: 'http://app:9001', hostname: 'api.example.com', userData: { group: 'users', tier: 'gold' } }],
+            ]);
+        });
+
+        it('resolves no routes when none are declared', () => {
+            expect(resolveRoutes(base)).toEqual([]);
+        });
+    });
+});
+